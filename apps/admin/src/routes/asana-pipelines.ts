@@ -0,0 +1,246 @@
+import { Router, Request, Response } from 'express';
+import {
+    logger,
+    AsanaClient,
+    asanaPipelinesRepo,
+    pipelineSectionsRepo,
+    ensureDefaultPipeline,
+    buildSectionMappingReport,
+    getSecret,
+    getPipelineStages,
+} from '@xfund/shared';
+
+export const asanaPipelinesRouter = Router();
+
+const DEFAULT_TENANT_ID = process.env.TENANT_ID || '00000000-0000-0000-0000-000000000001';
+
+async function getAsanaClient(): Promise<AsanaClient> {
+    const token = await getSecret('ASANA_TOKEN');
+    return new AsanaClient({ token });
+}
+
+/**
+ * GET /admin/asana/pipelines
+ * List the tenant's Asana pipeline projects with their section mappings.
+ */
+asanaPipelinesRouter.get('/', async (req: Request, res: Response) => {
+    try {
+        const tenantId = (req.query.tenantId as string) || DEFAULT_TENANT_ID;
+        await ensureDefaultPipeline(tenantId);
+        const pipelines = await asanaPipelinesRepo.listPipelines(tenantId);
+
+        const withSections = await Promise.all(
+            pipelines.map(async (p) => ({
+                ...p,
+                sections: await pipelineSectionsRepo.getAllSections(tenantId, p.project_gid),
+            }))
+        );
+
+        res.json({ pipelines: withSections });
+    } catch (err: any) {
+        logger.error('Failed to list Asana pipelines', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * PUT /admin/asana/pipelines/:projectGid
+ * Create or update a pipeline.
+ * Body: { name, isDefault?, dealKeywords?, enabled?, tenantId? }
+ */
+asanaPipelinesRouter.put('/:projectGid', async (req: Request, res: Response) => {
+    try {
+        const { projectGid } = req.params;
+        const { name, isDefault, dealKeywords, enabled } = req.body;
+        const tenantId = req.body.tenantId || DEFAULT_TENANT_ID;
+
+        if (!name) {
+            res.status(400).json({ error: 'name is required' });
+            return;
+        }
+        if (dealKeywords !== undefined && (!Array.isArray(dealKeywords) || dealKeywords.some((k) => typeof k !== 'string'))) {
+            res.status(400).json({ error: 'dealKeywords must be an array of strings' });
+            return;
+        }
+
+        // Seed the env-configured pipeline first so adding a second one doesn't suppress it
+        await ensureDefaultPipeline(tenantId);
+
+        const pipeline = await asanaPipelinesRepo.upsertPipeline({
+            tenantId,
+            projectGid,
+            name,
+            isDefault,
+            dealKeywords,
+            enabled,
+        });
+
+        logger.info('Asana pipeline saved', { tenantId, projectGid, pipelineId: pipeline.id });
+        res.json({ pipeline });
+    } catch (err: any) {
+        logger.error('Failed to save Asana pipeline', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * DELETE /admin/asana/pipelines/:id
+ * Remove a pipeline. Its webhook must be deleted first; section mappings and deals are kept.
+ */
+asanaPipelinesRouter.delete('/:id', async (req: Request, res: Response) => {
+    try {
+        const pipeline = await asanaPipelinesRepo.getPipelineById(req.params.id);
+        if (!pipeline) {
+            res.status(404).json({ error: 'Pipeline not found' });
+            return;
+        }
+        if (pipeline.webhook_gid) {
+            res.status(409).json({
+                error: 'Pipeline still has a webhook; delete it via /admin/asana/webhook/delete first',
+            });
+            return;
+        }
+
+        await asanaPipelinesRepo.deletePipeline(pipeline.id);
+
+        logger.info('Asana pipeline deleted', { pipelineId: pipeline.id, projectGid: pipeline.project_gid });
+        res.json({ pipelineId: pipeline.id, status: 'deleted' });
+    } catch (err: any) {
+        logger.error('Failed to delete Asana pipeline', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * GET /admin/asana/pipelines/:projectGid/sections
+ * List the project's live Asana sections with their stage mappings, name-based
+ * suggestions for unmapped ones, and mappings whose section was deleted in Asana.
+ */
+asanaPipelinesRouter.get('/:projectGid/sections', async (req: Request, res: Response) => {
+    try {
+        const { projectGid } = req.params;
+        const tenantId = (req.query.tenantId as string) || DEFAULT_TENANT_ID;
+
+        const asana = await getAsanaClient();
+        const asanaSections = await asana.getSections(projectGid);
+        const report = await buildSectionMappingReport(tenantId, projectGid, asanaSections);
+
+        res.json(report);
+    } catch (err: any) {
+        logger.error('Failed to list pipeline sections', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * POST /admin/asana/pipelines/:projectGid/sections/apply-suggestions
+ * Save the suggested stage for every unmapped section that has one.
+ * Body: { dryRun?, tenantId? }
+ */
+asanaPipelinesRouter.post('/:projectGid/sections/apply-suggestions', async (req: Request, res: Response) => {
+    try {
+        const { projectGid } = req.params;
+        const tenantId = req.body.tenantId || DEFAULT_TENANT_ID;
+        const dryRun = req.body.dryRun === true;
+
+        const asana = await getAsanaClient();
+        const report = await buildSectionMappingReport(tenantId, projectGid, await asana.getSections(projectGid));
+        const applied = report.sections.filter((s) => s.stageKey === null && s.suggestedStage !== null);
+
+        if (!dryRun) {
+            for (const section of applied) {
+                await pipelineSectionsRepo.upsertSection({
+                    tenantId,
+                    projectGid,
+                    sectionGid: section.sectionGid,
+                    stageKey: section.suggestedStage!,
+                });
+            }
+            logger.info('Applied suggested section mappings', { tenantId, projectGid, count: applied.length });
+        }
+
+        res.json({
+            dryRun,
+            applied: applied.map((s) => ({ sectionGid: s.sectionGid, name: s.name, stageKey: s.suggestedStage })),
+        });
+    } catch (err: any) {
+        logger.error('Failed to apply section suggestions', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * PUT /admin/asana/pipelines/:projectGid/sections/:sectionGid
+ * Map a section to a stage, or enable/disable an existing mapping.
+ * Body: { stageKey?, enabled?, tenantId? } — stageKey is required for a new mapping.
+ */
+asanaPipelinesRouter.put('/:projectGid/sections/:sectionGid', async (req: Request, res: Response) => {
+    try {
+        const { projectGid, sectionGid } = req.params;
+        const { stageKey, enabled } = req.body;
+        const tenantId = req.body.tenantId || DEFAULT_TENANT_ID;
+
+        if (stageKey !== undefined) {
+            const stageKeys = (await getPipelineStages(tenantId)).map((s) => s.stage_key);
+            if (!stageKeys.includes(stageKey)) {
+                res.status(400).json({ error: `stageKey must be one of ${stageKeys.join(', ')}` });
+                return;
+            }
+        }
+        if (enabled !== undefined && typeof enabled !== 'boolean') {
+            res.status(400).json({ error: 'enabled must be a boolean' });
+            return;
+        }
+
+        if (stageKey) {
+            await pipelineSectionsRepo.upsertSection({
+                tenantId,
+                projectGid,
+                sectionGid,
+                stageKey,
+                enabled,
+            });
+        } else if (enabled !== undefined) {
+            const found = await pipelineSectionsRepo.setSectionEnabled(tenantId, projectGid, sectionGid, enabled);
+            if (!found) {
+                res.status(404).json({ error: 'No mapping for this section; stageKey is required' });
+                return;
+            }
+        } else {
+            res.status(400).json({ error: 'stageKey or enabled is required' });
+            return;
+        }
+
+        const mapping = (await pipelineSectionsRepo.getAllSections(tenantId, projectGid))
+            .find((m) => m.section_gid === sectionGid);
+
+        logger.info('Pipeline section mapping saved', { tenantId, projectGid, sectionGid, stageKey, enabled });
+        res.json({ mapping });
+    } catch (err: any) {
+        logger.error('Failed to save section mapping', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * DELETE /admin/asana/pipelines/:projectGid/sections/:sectionGid
+ * Remove a mapping, e.g. one flagged as deleted in Asana.
+ */
+asanaPipelinesRouter.delete('/:projectGid/sections/:sectionGid', async (req: Request, res: Response) => {
+    try {
+        const { projectGid, sectionGid } = req.params;
+        const tenantId = (req.query.tenantId as string) || DEFAULT_TENANT_ID;
+
+        const deleted = await pipelineSectionsRepo.deleteSection(tenantId, projectGid, sectionGid);
+        if (!deleted) {
+            res.status(404).json({ error: 'Mapping not found' });
+            return;
+        }
+
+        logger.info('Pipeline section mapping deleted', { tenantId, projectGid, sectionGid });
+        res.json({ projectGid, sectionGid, status: 'deleted' });
+    } catch (err: any) {
+        logger.error('Failed to delete section mapping', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
@@ -2,7 +2,9 @@ import { Router, Request, Response } from 'express';
 import {
     logger,
     AsanaClient,
-    integrationsRepo,
+    asanaPipelinesRepo,
+    asanaWebhookSecretsRepo,
+    ensureDefaultPipeline,
     getSecret,
 } from '@xfund/shared';
 
@@ -15,35 +17,98 @@ async function getAsanaClient(): Promise<AsanaClient> {
     return new AsanaClient({ token });
 }
 
+/**
+ * Subscribe to a pipeline's project and attach the resulting webhook GID to the
+ * secret its handshake stored (the handshake runs inside the create call).
+ */
+async function createPipelineWebhook(
+    asana: AsanaClient,
+    pipeline: asanaPipelinesRepo.AsanaPipeline
+) {
+    // The pipeline ID in the path tells ingress which secrets and project the deliveries belong to
+    const targetUrl = `${process.env.INGRESS_PUBLIC_BASE_URL}/webhooks/asana/${pipeline.id}`;
+
+    logger.info('Creating Asana webhook', { pipelineId: pipeline.id, projectGid: pipeline.project_gid, targetUrl });
+
+    const webhook = await asana.createWebhook(pipeline.project_gid, targetUrl);
+    const secret = await asanaWebhookSecretsRepo.attachWebhookGid(pipeline.id, webhook.gid);
+    if (!secret) {
+        logger.warn('Asana webhook created without a stored handshake secret', { webhookGid: webhook.gid });
+    }
+    await asanaPipelinesRepo.setWebhook(pipeline.id, webhook.gid);
+
+    logger.info('Asana webhook created', { pipelineId: pipeline.id, webhookGid: webhook.gid });
+    return webhook;
+}
+
+/**
+ * Delete a webhook in Asana and retire its secret. Retired secrets keep verifying
+ * for a grace period so deliveries already in flight are still accepted.
+ */
+async function deletePipelineWebhook(asana: AsanaClient, webhookGid: string): Promise<void> {
+    await asana.deleteWebhook(webhookGid);
+    await asanaWebhookSecretsRepo.retireByWebhookGid(webhookGid);
+}
+
+/**
+ * GET /admin/asana/webhook
+ * List stored webhook secrets (values omitted) with their pipeline and status.
+ */
+asanaWebhookAdminRouter.get('/', async (req: Request, res: Response) => {
+    try {
+        const tenantId = (req.query.tenantId as string) || DEFAULT_TENANT_ID;
+        const secrets = await asanaWebhookSecretsRepo.listSecrets(tenantId);
+
+        res.json({
+            webhooks: secrets.map(({ secret: _secret, ...rest }) => rest),
+        });
+    } catch (err: any) {
+        logger.error('Failed to list Asana webhooks', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
 /**
  * POST /admin/asana/webhook/create
- * Create webhook subscription on Asana project.
- * Asana will POST to the ingress webhook URL with X-Hook-Secret for handshake.
+ * Create a webhook subscription on a pipeline's Asana project.
+ * Body: { projectGid, name?, isDefault?, tenantId? } — the pipeline is created if it doesn't exist.
+ * Asana will POST to the pipeline's ingress URL with X-Hook-Secret for handshake.
  */
 asanaWebhookAdminRouter.post('/create', async (req: Request, res: Response) => {
     try {
-        const projectGid = req.body.projectGid || process.env.ASANA_PROJECT_GID;
+        const tenantId = req.body.tenantId || DEFAULT_TENANT_ID;
+        const { projectGid, name, isDefault } = req.body;
         if (!projectGid) {
             res.status(400).json({ error: 'projectGid is required' });
             return;
         }
 
-        const targetUrl = `${process.env.INGRESS_PUBLIC_BASE_URL}/webhooks/asana`;
-        const asana = await getAsanaClient();
-
-        logger.info('Creating Asana webhook', { projectGid, targetUrl });
-
-        const webhook = await asana.createWebhook(projectGid, targetUrl);
+        await ensureDefaultPipeline(tenantId);
+        let pipeline = await asanaPipelinesRepo.getPipelineByProject(tenantId, projectGid);
+        if (!pipeline || name !== undefined || isDefault !== undefined) {
+            // A tenant's first pipeline becomes the default for new deals
+            const isFirst = !pipeline && (await asanaPipelinesRepo.countPipelines(tenantId)) === 0;
+            pipeline = await asanaPipelinesRepo.upsertPipeline({
+                tenantId,
+                projectGid,
+                name: name || pipeline?.name || projectGid,
+                isDefault: isDefault ?? (isFirst || undefined),
+            });
+        }
 
-        // Store webhook GID in integrations config
-        await integrationsRepo.updateIntegrationConfig(DEFAULT_TENANT_ID, 'asana', {
-            webhookGid: webhook.gid,
-            projectGid,
-        });
+        if (pipeline.webhook_gid) {
+            res.status(409).json({
+                error: 'Pipeline already has a webhook; use /admin/asana/webhook/rotate to replace it',
+                webhookGid: pipeline.webhook_gid,
+            });
+            return;
+        }
 
-        logger.info('Asana webhook created', { webhookGid: webhook.gid });
+        const asana = await getAsanaClient();
+        const webhook = await createPipelineWebhook(asana, pipeline);
 
         res.json({
+            pipelineId: pipeline.id,
             webhookGid: webhook.gid,
             target: webhook.target,
             active: webhook.active,
@@ -56,29 +121,86 @@ asanaWebhookAdminRouter.post('/create', async (req: Request, res: Response) => {
 
 /**
  * POST /admin/asana/webhook/delete
- * Delete an Asana webhook subscription.
+ * Delete a pipeline's Asana webhook subscription.
+ * Body: { pipelineId } or { webhookGid, tenantId? }
  */
 asanaWebhookAdminRouter.post('/delete', async (req: Request, res: Response) => {
     try {
-        const { webhookGid } = req.body;
+        const tenantId = req.body.tenantId || DEFAULT_TENANT_ID;
+        const { pipelineId } = req.body;
+
+        const pipeline = pipelineId
+            ? await asanaPipelinesRepo.getPipelineById(pipelineId)
+            : (await asanaPipelinesRepo.listPipelines(tenantId)).find(
+                (p) => req.body.webhookGid && p.webhook_gid === req.body.webhookGid
+            ) ?? null;
+        const webhookGid = req.body.webhookGid || pipeline?.webhook_gid;
         if (!webhookGid) {
-            res.status(400).json({ error: 'webhookGid is required' });
+            res.status(400).json({ error: 'pipelineId with an active webhook, or webhookGid, is required' });
             return;
         }
 
         const asana = await getAsanaClient();
-        await asana.deleteWebhook(webhookGid);
+        await deletePipelineWebhook(asana, webhookGid);
 
-        // Clear from integrations config
-        await integrationsRepo.updateIntegrationConfig(DEFAULT_TENANT_ID, 'asana', {
-            webhookGid: null,
-        });
+        if (pipeline && pipeline.webhook_gid === webhookGid) {
+            await asanaPipelinesRepo.setWebhook(pipeline.id, null);
+        }
 
-        logger.info('Asana webhook deleted', { webhookGid });
+        logger.info('Asana webhook deleted', { webhookGid, pipelineId: pipeline?.id });
 
-        res.json({ webhookGid, status: 'deleted' });
+        res.json({ webhookGid, pipelineId: pipeline?.id ?? null, status: 'deleted' });
     } catch (err: any) {
         logger.error('Failed to delete Asana webhook', { error: err.message });
         res.status(500).json({ error: err.message });
     }
 });
+
+/**
+ * POST /admin/asana/webhook/rotate
+ * Rotate a pipeline's webhook secret. Asana only issues a secret at handshake, so this
+ * creates a replacement webhook first and then deletes the old one.
+ * Body: { pipelineId }
+ */
+asanaWebhookAdminRouter.post('/rotate', async (req: Request, res: Response) => {
+    try {
+        const { pipelineId } = req.body;
+        const pipeline = pipelineId ? await asanaPipelinesRepo.getPipelineById(pipelineId) : null;
+        if (!pipeline) {
+            res.status(404).json({ error: 'Pipeline not found' });
+            return;
+        }
+
+        const asana = await getAsanaClient();
+        const previousWebhookGid = pipeline.webhook_gid;
+        const webhook = await createPipelineWebhook(asana, pipeline);
+
+        if (previousWebhookGid) {
+            try {
+                await deletePipelineWebhook(asana, previousWebhookGid);
+            } catch (err: any) {
+                // The new webhook is live; a leftover old one only causes duplicate deliveries, which are deduped
+                logger.warn('Failed to delete rotated-out Asana webhook', {
+                    webhookGid: previousWebhookGid,
+                    error: err.message,
+                });
+            }
+        }
+
+        logger.info('Asana webhook rotated', {
+            pipelineId: pipeline.id,
+            previousWebhookGid,
+            webhookGid: webhook.gid,
+        });
+
+        res.json({
+            pipelineId: pipeline.id,
+            previousWebhookGid,
+            webhookGid: webhook.gid,
+            active: webhook.active,
+        });
+    } catch (err: any) {
+        logger.error('Failed to rotate Asana webhook', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
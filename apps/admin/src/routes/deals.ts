@@ -0,0 +1,191 @@
+import { Router, Request, Response } from 'express';
+import {
+    logger,
+    dealsRepo,
+    dealMeetingsRepo,
+    dealDuplicatesRepo,
+    mergeDeals,
+    DealMergeError,
+    workflowRunsRepo,
+    createTasksEnqueuer,
+    getResearchAgent,
+    idempotencyRepo,
+} from '@xfund/shared';
+
+export const dealsAdminRouter = Router();
+
+const tasksEnqueuer = createTasksEnqueuer();
+
+const DEFAULT_TENANT_ID = process.env.TENANT_ID || '00000000-0000-0000-0000-000000000001';
+
+/**
+ * POST /admin/deals/:id/research/:agentKey/rerun
+ * Re-run a single research agent for a deal.
+ * Creates a dedicated workflow run and enqueues a RESEARCH_AGENT job, which replaces
+ * only that agent's section on the Notion research page.
+ * Body: { cacheMode? } — 'refresh' (default) runs fresh and diffs against the cached result,
+ * 'reuse' serves a cached result if it is still within the TTL.
+ */
+dealsAdminRouter.post('/:id/research/:agentKey/rerun', async (req: Request, res: Response) => {
+    try {
+        const { id, agentKey } = req.params;
+        const cacheMode = req.body?.cacheMode ?? 'refresh';
+        if (cacheMode !== 'refresh' && cacheMode !== 'reuse') {
+            res.status(400).json({ error: "cacheMode must be 'refresh' or 'reuse'" });
+            return;
+        }
+
+        const deal = await dealsRepo.getDealById(id);
+        if (!deal) {
+            res.status(404).json({ error: 'Deal not found' });
+            return;
+        }
+
+        const agent = await getResearchAgent(deal.tenant_id, agentKey);
+        if (!agent) {
+            res.status(400).json({ error: `Unknown or disabled research agent: ${agentKey}` });
+            return;
+        }
+
+        const run = await workflowRunsRepo.createRun({
+            tenantId: deal.tenant_id,
+            dealId: deal.id,
+            taskGid: deal.asana_task_gid || undefined,
+            stageKey: deal.current_stage,
+            meta: { trigger: 'admin_rerun', agentKey, cacheMode },
+        });
+
+        const taskName = await tasksEnqueuer.enqueue({
+            jobType: 'RESEARCH_AGENT',
+            tenantId: deal.tenant_id,
+            payload: {
+                runId: run.id,
+                agentKey,
+                dealId: deal.id,
+                companyName: deal.company_name || 'Unknown Company',
+                founderName: deal.founder_name || 'Unknown Founder',
+                cacheMode,
+            },
+            idempotencyKey: idempotencyRepo.runJobKey('RESEARCH_AGENT', run.id),
+        });
+
+        logger.info('Research agent rerun enqueued', { dealId: deal.id, agentKey, runId: run.id });
+
+        res.json({ dealId: deal.id, agentKey, runId: run.id, taskName });
+    } catch (err: any) {
+        logger.error('Failed to enqueue research rerun', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * GET /admin/deals/:id/meetings
+ * Every calendar meeting attached to a deal and how it was matched.
+ */
+dealsAdminRouter.get('/:id/meetings', async (req: Request, res: Response) => {
+    try {
+        const deal = await dealsRepo.getDealById(req.params.id);
+        if (!deal) {
+            res.status(404).json({ error: 'Deal not found' });
+            return;
+        }
+
+        const meetings = await dealMeetingsRepo.listMeetingsForDeal(deal.id);
+        res.json({ dealId: deal.id, meetings });
+    } catch (err: any) {
+        logger.error('Failed to list deal meetings', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * GET /admin/deals/duplicates
+ * Likely-duplicate deal pairs found by fuzzy matching, best match first.
+ * Query: tenantId?, status? ('flagged' (default), 'merged' or 'dismissed')
+ */
+dealsAdminRouter.get('/duplicates', async (req: Request, res: Response) => {
+    try {
+        const tenantId = (req.query.tenantId as string) || DEFAULT_TENANT_ID;
+        const status = (req.query.status as string) || 'flagged';
+        if (status !== 'flagged' && status !== 'merged' && status !== 'dismissed') {
+            res.status(400).json({ error: "status must be 'flagged', 'merged' or 'dismissed'" });
+            return;
+        }
+
+        const flags = await dealDuplicatesRepo.listDuplicates(tenantId, status);
+        const dealIds = [...new Set(flags.flatMap((f) => [f.deal_id, f.duplicate_of_deal_id]))];
+        const deals = new Map(
+            (await Promise.all(dealIds.map((id) => dealsRepo.getDealById(id))))
+                .filter((d): d is dealsRepo.Deal => d !== null)
+                .map((d) => [d.id, d])
+        );
+        const summary = (id: string) => {
+            const deal = deals.get(id);
+            return deal
+                ? { id, companyName: deal.company_name, founderName: deal.founder_name, stage: deal.current_stage }
+                : { id };
+        };
+
+        res.json({
+            duplicates: flags.map((f) => ({
+                id: f.id,
+                deal: summary(f.deal_id),
+                duplicateOf: summary(f.duplicate_of_deal_id),
+                score: Number(f.score),
+                reasons: f.reasons,
+                status: f.status,
+                createdAt: f.created_at,
+            })),
+        });
+    } catch (err: any) {
+        logger.error('Failed to list duplicate deals', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * POST /admin/deals/duplicates/:id/dismiss
+ * Mark a flagged pair as not a duplicate; it won't be flagged again.
+ */
+dealsAdminRouter.post('/duplicates/:id/dismiss', async (req: Request, res: Response) => {
+    try {
+        const dismissed = await dealDuplicatesRepo.resolveDuplicate(req.params.id, 'dismissed');
+        if (!dismissed) {
+            res.status(404).json({ error: 'No open duplicate flag with this id' });
+            return;
+        }
+
+        logger.info('Duplicate flag dismissed', { flagId: req.params.id });
+        res.json({ id: req.params.id, status: 'dismissed' });
+    } catch (err: any) {
+        logger.error('Failed to dismiss duplicate flag', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * POST /admin/deals/:id/merge
+ * Merge this deal into another: its workflow history, research, memos and meetings move over,
+ * its Asana task is completed with a link to the surviving task, and the Notion pages are cross-linked.
+ * Body: { intoDealId }
+ */
+dealsAdminRouter.post('/:id/merge', async (req: Request, res: Response) => {
+    try {
+        const { intoDealId } = req.body ?? {};
+        if (!intoDealId) {
+            res.status(400).json({ error: 'intoDealId is required' });
+            return;
+        }
+
+        const deal = await mergeDeals(intoDealId, req.params.id, { mergedBy: 'admin' });
+        logger.info('Deals merged', { dealId: deal.id, mergedDealId: req.params.id });
+        res.json({ deal, mergedDealId: req.params.id });
+    } catch (err: any) {
+        if (err instanceof DealMergeError) {
+            res.status(err.status).json({ error: err.message });
+            return;
+        }
+        logger.error('Failed to merge deals', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from 'vitest';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+const { watchedCalendarsRepo } = vi.hoisted(() => ({
+    watchedCalendarsRepo: {
+        getCalendar: vi.fn(),
+        upsertCalendar: vi.fn(),
+    },
+}));
+
+vi.mock('@xfund/shared', () => ({
+    logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    gcalWatchesRepo: {},
+    watchedCalendarsRepo,
+    ensureDefaultCalendar: vi.fn(),
+    getGCalClientForCalendar: vi.fn(),
+}));
+
+import { gcalCalendarsRouter } from './gcal-calendars.js';
+
+const stored = {
+    tenant_id: 'tenant-1',
+    calendar_id: 'partner@xfund.com',
+    owner_email: 'partner@xfund.com',
+    owner_name: 'Pat Partner',
+    auth_mode: 'delegation',
+    refresh_token_secret: null,
+    impersonate_email: 'partner@xfund.com',
+    enabled: true,
+};
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/calendars', gcalCalendarsRouter);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/calendars`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+function put(calendarId: string, body: object) {
+    return fetch(`${baseUrl}/${encodeURIComponent(calendarId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId: 'tenant-1', ...body }),
+    });
+}
+
+describe('PUT /admin/gcal/calendars/:calendarId', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        watchedCalendarsRepo.upsertCalendar.mockImplementation(async (input) => input);
+    });
+
+    it('keeps the stored owner and credentials when only some fields are sent', async () => {
+        watchedCalendarsRepo.getCalendar.mockResolvedValue(stored);
+
+        const res = await put('partner@xfund.com', { enabled: false });
+
+        expect(res.status).toBe(200);
+        expect(watchedCalendarsRepo.upsertCalendar).toHaveBeenCalledWith({
+            tenantId: 'tenant-1',
+            calendarId: 'partner@xfund.com',
+            ownerEmail: 'partner@xfund.com',
+            ownerName: 'Pat Partner',
+            authMode: 'delegation',
+            refreshTokenSecret: null,
+            impersonateEmail: 'partner@xfund.com',
+            enabled: false,
+        });
+    });
+
+    it('clears a stored field sent as null', async () => {
+        watchedCalendarsRepo.getCalendar.mockResolvedValue(stored);
+
+        await put('partner@xfund.com', { ownerName: null });
+
+        expect(watchedCalendarsRepo.upsertCalendar).toHaveBeenCalledWith(
+            expect.objectContaining({ ownerName: null, ownerEmail: 'partner@xfund.com', enabled: true })
+        );
+    });
+
+    it('defaults a new calendar to oauth', async () => {
+        watchedCalendarsRepo.getCalendar.mockResolvedValue(null);
+
+        await put('new@xfund.com', { ownerEmail: 'new@xfund.com' });
+
+        expect(watchedCalendarsRepo.upsertCalendar).toHaveBeenCalledWith(
+            expect.objectContaining({ calendarId: 'new@xfund.com', authMode: 'oauth', ownerEmail: 'new@xfund.com' })
+        );
+    });
+
+    it('rejects delegation without an email to impersonate', async () => {
+        watchedCalendarsRepo.getCalendar.mockResolvedValue(null);
+
+        const res = await put('new@xfund.com', { authMode: 'delegation' });
+
+        expect(res.status).toBe(400);
+        expect(watchedCalendarsRepo.upsertCalendar).not.toHaveBeenCalled();
+    });
+});
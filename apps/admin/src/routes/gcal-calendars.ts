@@ -0,0 +1,130 @@
+import { Router, Request, Response } from 'express';
+import {
+    logger,
+    gcalWatchesRepo,
+    watchedCalendarsRepo,
+    ensureDefaultCalendar,
+    getGCalClientForCalendar,
+} from '@xfund/shared';
+
+export const gcalCalendarsRouter = Router();
+
+const DEFAULT_TENANT_ID = process.env.TENANT_ID || '00000000-0000-0000-0000-000000000001';
+const AUTH_MODES = ['oauth', 'delegation'];
+
+/**
+ * GET /admin/gcal/calendars
+ * The tenant's watched calendars with their active watch, if any.
+ * Credentials are shown by secret name only.
+ */
+gcalCalendarsRouter.get('/', async (req: Request, res: Response) => {
+    try {
+        const tenantId = (req.query.tenantId as string) || DEFAULT_TENANT_ID;
+        await ensureDefaultCalendar(tenantId);
+        const calendars = await watchedCalendarsRepo.listCalendars(tenantId);
+
+        const result = await Promise.all(
+            calendars.map(async (calendar) => {
+                const watch = await gcalWatchesRepo.getActiveWatch(tenantId, calendar.calendar_id);
+                return {
+                    ...calendar,
+                    watch: watch
+                        ? { channelId: watch.channel_id, expirationMs: watch.expiration_ms, hasSyncToken: !!watch.sync_token }
+                        : null,
+                };
+            })
+        );
+
+        res.json({ calendars: result });
+    } catch (err: any) {
+        logger.error('Failed to list watched calendars', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * PUT /admin/gcal/calendars/:calendarId
+ * Register or update a calendar. Start watching it with POST /admin/gcal/watch/start.
+ * Body: { ownerEmail?, ownerName?, authMode?, refreshTokenSecret?, impersonateEmail?, enabled?, tenantId? }
+ * Fields omitted when updating keep their stored values; pass null to clear one.
+ * authMode 'oauth' (the default) reads the refresh token from the named secret (default GCAL_REFRESH_TOKEN);
+ * 'delegation' impersonates impersonateEmail (default ownerEmail) with GCAL_SERVICE_ACCOUNT_KEY.
+ */
+gcalCalendarsRouter.put('/:calendarId', async (req: Request, res: Response) => {
+    try {
+        const { calendarId } = req.params;
+        const { ownerEmail, ownerName, authMode, refreshTokenSecret, impersonateEmail, enabled } = req.body;
+        const tenantId = req.body.tenantId || DEFAULT_TENANT_ID;
+
+        if (authMode !== undefined && !AUTH_MODES.includes(authMode)) {
+            res.status(400).json({ error: `authMode must be one of ${AUTH_MODES.join(', ')}` });
+            return;
+        }
+
+        // Seed the legacy calendar first so updating it merges with its stored row
+        await ensureDefaultCalendar(tenantId);
+        const existing = await watchedCalendarsRepo.getCalendar(tenantId, calendarId);
+
+        const merged = {
+            ownerEmail: ownerEmail !== undefined ? ownerEmail : existing?.owner_email,
+            ownerName: ownerName !== undefined ? ownerName : existing?.owner_name,
+            authMode: authMode ?? existing?.auth_mode ?? 'oauth',
+            refreshTokenSecret: refreshTokenSecret !== undefined ? refreshTokenSecret : existing?.refresh_token_secret,
+            impersonateEmail: impersonateEmail !== undefined ? impersonateEmail : existing?.impersonate_email,
+            enabled: enabled ?? existing?.enabled,
+        };
+
+        if (merged.authMode === 'delegation' && !merged.impersonateEmail && !merged.ownerEmail) {
+            res.status(400).json({ error: 'delegation requires impersonateEmail or ownerEmail' });
+            return;
+        }
+
+        const calendar = await watchedCalendarsRepo.upsertCalendar({ tenantId, calendarId, ...merged });
+
+        logger.info('Watched calendar saved', { tenantId, calendarId, authMode: merged.authMode });
+        res.json({ calendar });
+    } catch (err: any) {
+        logger.error('Failed to save watched calendar', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * DELETE /admin/gcal/calendars/:calendarId
+ * Stop the calendar's active watch and remove it from the registry. A deleted legacy calendar is not re-seeded.
+ */
+gcalCalendarsRouter.delete('/:calendarId', async (req: Request, res: Response) => {
+    try {
+        const { calendarId } = req.params;
+        const tenantId = (req.query.tenantId as string) || DEFAULT_TENANT_ID;
+
+        const calendar = await watchedCalendarsRepo.getCalendar(tenantId, calendarId);
+        if (!calendar) {
+            res.status(404).json({ error: 'Calendar not found' });
+            return;
+        }
+
+        const watch = await gcalWatchesRepo.getActiveWatch(tenantId, calendarId);
+        if (watch) {
+            try {
+                const gcal = await getGCalClientForCalendar(calendar);
+                await gcal.stopChannel(watch.channel_id, watch.resource_id);
+            } catch (stopErr: any) {
+                // Non-fatal: channel may already be expired
+                logger.warn('Failed to stop channel (may be expired)', {
+                    channelId: watch.channel_id,
+                    error: stopErr.message,
+                });
+            }
+            await gcalWatchesRepo.updateWatchStatus(watch.channel_id, 'stopped');
+        }
+
+        await watchedCalendarsRepo.deleteCalendar(tenantId, calendarId);
+
+        logger.info('Watched calendar deleted', { tenantId, calendarId });
+        res.json({ calendarId, status: 'deleted', stoppedChannelId: watch?.channel_id ?? null });
+    } catch (err: any) {
+        logger.error('Failed to delete watched calendar', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
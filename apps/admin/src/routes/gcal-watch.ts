@@ -4,55 +4,85 @@ import {
     logger,
     GCalClient,
     gcalWatchesRepo,
-    getSecret,
+    watchedCalendarsRepo,
+    ensureDefaultCalendar,
+    getGCalClientForCalendar,
+    createTasksEnqueuer,
+    idempotencyRepo,
 } from '@xfund/shared';
 
 export const gcalWatchRouter = Router();
 
+const tasksEnqueuer = createTasksEnqueuer();
+
 const DEFAULT_TENANT_ID = process.env.TENANT_ID || '00000000-0000-0000-0000-000000000001';
 
-async function getGCalClient(): Promise<GCalClient> {
-    const clientId = await getSecret('GCAL_OAUTH_CLIENT_ID');
-    const clientSecret = await getSecret('GCAL_OAUTH_CLIENT_SECRET');
-    const refreshToken = await getSecret('GCAL_REFRESH_TOKEN');
-    return new GCalClient({ clientId, clientSecret, refreshToken });
+/** Watches expiring within this window are replaced by the renewal run */
+const RENEW_BEFORE_HOURS = parseFloat(process.env.GCAL_WATCH_RENEW_BEFORE_HOURS || '24');
+
+type RenewalAction = 'healthy' | 'renewed' | 'recreated' | 'stopped' | 'failed';
+
+interface RenewalResult {
+    tenantId: string;
+    calendarId: string;
+    action: RenewalAction;
+    channelId?: string;
+    expirationMs?: number | null;
+    error?: string;
+}
+
+async function getGCalClient(tenantId: string, calendarId: string): Promise<GCalClient> {
+    return getGCalClientForCalendar(await watchedCalendarsRepo.getCalendar(tenantId, calendarId));
+}
+
+function webhookUrl(): string {
+    return `${process.env.INGRESS_PUBLIC_BASE_URL}/webhooks/gcal`;
 }
 
 /**
- * POST /admin/gcal/watch/start
- * Create initial watch channel, store resourceId, expiration, and initialize syncToken.
+ * Create a watch channel on a calendar and give it a syncToken. A previous watch's syncToken is
+ * carried over and a sync enqueued, so changes made while the calendar was unwatched are picked up;
+ * otherwise a full sync initializes the token (existing events are not processed).
  */
-gcalWatchRouter.post('/start', async (req: Request, res: Response) => {
-    try {
-        const {
-            calendarId = process.env.CALENDAR_ID || 'primary',
-            channelToken,
-        } = req.body;
-
-        const tenantId = req.body.tenantId || DEFAULT_TENANT_ID;
-        const channelId = `gcal-${randomUUID()}`;
-        const webhookUrl = `${process.env.INGRESS_PUBLIC_BASE_URL}/webhooks/gcal`;
+async function startWatch(
+    tenantId: string,
+    calendarId: string,
+    opts: { channelToken?: string; previous?: gcalWatchesRepo.GcalWatch | null } = {}
+) {
+    const gcal = await getGCalClient(tenantId, calendarId);
+    const channelId = `gcal-${randomUUID()}`;
+    const channelToken = opts.channelToken ?? (opts.previous?.channel_token || undefined);
 
-        const gcal = await getGCalClient();
+    logger.info('Creating GCal watch', { calendarId, channelId, webhookUrl: webhookUrl() });
 
-        logger.info('Creating GCal watch', { calendarId, channelId, webhookUrl });
+    // Create the watch channel
+    const watchResult = await gcal.watchEvents(calendarId, webhookUrl(), channelId, channelToken);
 
-        // Create the watch channel
-        const watchResult = await gcal.watchEvents(calendarId, webhookUrl, channelId, channelToken);
+    // Store in DB
+    await gcalWatchesRepo.createWatch({
+        tenantId,
+        calendarId,
+        channelId: watchResult.channelId,
+        resourceId: watchResult.resourceId,
+        expirationMs: watchResult.expirationMs,
+        channelToken,
+    });
 
-        // Store in DB
-        await gcalWatchesRepo.createWatch({
+    let initialEventsCount: number | null = null;
+    if (opts.previous?.sync_token) {
+        await gcalWatchesRepo.updateSyncToken(watchResult.channelId, opts.previous.sync_token);
+        await tasksEnqueuer.enqueue({
+            jobType: 'GCAL_SYNC',
             tenantId,
-            calendarId,
-            channelId: watchResult.channelId,
-            resourceId: watchResult.resourceId,
-            expirationMs: watchResult.expirationMs,
-            channelToken,
+            payload: { calendarId, channelId: watchResult.channelId },
+            idempotencyKey: idempotencyRepo.gcalPingKey(watchResult.channelId, 'recreated'),
         });
-
+        logger.info('SyncToken carried over from previous watch, catch-up sync enqueued', { calendarId });
+    } else {
         // Perform initial full sync to get syncToken
         logger.info('Running initial full sync for syncToken', { calendarId });
         const syncResult = await gcal.fullSync(calendarId);
+        initialEventsCount = syncResult.events.length;
 
         if (syncResult.nextSyncToken) {
             await gcalWatchesRepo.updateSyncToken(watchResult.channelId, syncResult.nextSyncToken);
@@ -61,13 +91,43 @@ gcalWatchRouter.post('/start', async (req: Request, res: Response) => {
                 syncTokenObtained: true,
             });
         }
+    }
 
-        res.json({
-            channelId: watchResult.channelId,
-            resourceId: watchResult.resourceId,
-            expirationMs: watchResult.expirationMs,
-            initialEventsCount: syncResult.events.length,
-        });
+    return {
+        channelId: watchResult.channelId,
+        resourceId: watchResult.resourceId,
+        expirationMs: watchResult.expirationMs,
+        initialEventsCount,
+    };
+}
+
+/**
+ * POST /admin/gcal/watch/start
+ * Create initial watch channel for a registered calendar, store resourceId, expiration, and initialize syncToken.
+ */
+gcalWatchRouter.post('/start', async (req: Request, res: Response) => {
+    try {
+        const {
+            calendarId = process.env.CALENDAR_ID || 'primary',
+            channelToken,
+        } = req.body;
+
+        const tenantId = req.body.tenantId || DEFAULT_TENANT_ID;
+
+        await ensureDefaultCalendar(tenantId);
+        const calendar = await watchedCalendarsRepo.getCalendar(tenantId, calendarId);
+        if (!calendar) {
+            res.status(404).json({
+                error: `Calendar is not registered. Add it with PUT /admin/gcal/calendars/${encodeURIComponent(calendarId)}`,
+            });
+            return;
+        }
+        if (!calendar.enabled) {
+            res.status(400).json({ error: 'Calendar is disabled' });
+            return;
+        }
+
+        res.json(await startWatch(tenantId, calendarId, { channelToken }));
     } catch (err: any) {
         logger.error('Failed to start GCal watch', { error: err.message });
         res.status(500).json({ error: err.message });
@@ -75,71 +135,200 @@ gcalWatchRouter.post('/start', async (req: Request, res: Response) => {
 });
 
 /**
- * POST /admin/gcal/watch/replace
- * Replace channel before expiration (Google has no automatic renewal).
- * Steps: create new → mark old replaced → stop old channel.
+ * Replace an active watch channel: create new → mark old replaced → stop old channel.
  */
-gcalWatchRouter.post('/replace', async (req: Request, res: Response) => {
-    try {
-        const calendarId = req.body.calendarId || process.env.CALENDAR_ID || 'primary';
-        const tenantId = req.body.tenantId || DEFAULT_TENANT_ID;
+async function replaceWatch(oldWatch: gcalWatchesRepo.GcalWatch) {
+    const { tenant_id: tenantId, calendar_id: calendarId } = oldWatch;
+    const gcal = await getGCalClient(tenantId, calendarId);
+    const newChannelId = `gcal-${randomUUID()}`;
 
-        // Find current active watch
-        const oldWatch = await gcalWatchesRepo.getActiveWatch(tenantId, calendarId);
-        if (!oldWatch) {
-            // No active watch — just create a new one
-            logger.warn('No active watch found for replacement, creating fresh');
-            res.status(404).json({ error: 'No active watch to replace. Use /start instead.' });
-            return;
-        }
+    // Create new watch
+    const newWatch = await gcal.watchEvents(
+        calendarId,
+        webhookUrl(),
+        newChannelId,
+        oldWatch.channel_token || undefined
+    );
 
-        const gcal = await getGCalClient();
-        const newChannelId = `gcal-${randomUUID()}`;
-        const webhookUrl = `${process.env.INGRESS_PUBLIC_BASE_URL}/webhooks/gcal`;
+    // Transfer syncToken from old watch
+    await gcalWatchesRepo.createWatch({
+        tenantId,
+        calendarId,
+        channelId: newWatch.channelId,
+        resourceId: newWatch.resourceId,
+        expirationMs: newWatch.expirationMs,
+        channelToken: oldWatch.channel_token || undefined,
+    });
 
-        // Create new watch
-        const newWatch = await gcal.watchEvents(
-            calendarId,
-            webhookUrl,
-            newChannelId,
-            oldWatch.channel_token || undefined
-        );
+    if (oldWatch.sync_token) {
+        await gcalWatchesRepo.updateSyncToken(newWatch.channelId, oldWatch.sync_token);
+    }
 
-        // Transfer syncToken from old watch
-        await gcalWatchesRepo.createWatch({
-            tenantId,
-            calendarId,
-            channelId: newWatch.channelId,
-            resourceId: newWatch.resourceId,
-            expirationMs: newWatch.expirationMs,
-            channelToken: oldWatch.channel_token || undefined,
+    // Mark old channel as replaced (keep for overlap period)
+    await gcalWatchesRepo.updateWatchStatus(oldWatch.channel_id, 'replaced');
+
+    // Stop old channel
+    try {
+        await gcal.stopChannel(oldWatch.channel_id, oldWatch.resource_id);
+        logger.info('Old channel stopped', { oldChannelId: oldWatch.channel_id });
+    } catch (stopErr: any) {
+        // Non-fatal: channel may already be expired
+        logger.warn('Failed to stop old channel (may be expired)', {
+            oldChannelId: oldWatch.channel_id,
+            error: stopErr.message,
         });
+    }
 
-        if (oldWatch.sync_token) {
-            await gcalWatchesRepo.updateSyncToken(newWatch.channelId, oldWatch.sync_token);
-        }
+    return {
+        newChannelId: newWatch.channelId,
+        newResourceId: newWatch.resourceId,
+        newExpirationMs: newWatch.expirationMs,
+        oldChannelId: oldWatch.channel_id,
+    };
+}
 
-        // Mark old channel as replaced (keep for overlap period)
-        await gcalWatchesRepo.updateWatchStatus(oldWatch.channel_id, 'replaced');
+/**
+ * Bring one calendar's watch up to date:
+ * - disabled calendar with an active watch → stop it
+ * - no active watch (never started, stopped or errored) → recreate it
+ * - active watch expiring within `renewBeforeMs` (null: any), or with unknown expiry → replace it
+ * A watch that fails to renew after it has already expired is marked 'error' so the next run recreates it.
+ */
+async function renewCalendarWatch(
+    tenantId: string,
+    calendarId: string,
+    enabled: boolean,
+    renewBeforeMs: number | null
+): Promise<RenewalResult> {
+    const watch = await gcalWatchesRepo.getActiveWatch(tenantId, calendarId);
+    // pg returns bigint columns as strings
+    const expirationMs = watch?.expiration_ms != null ? Number(watch.expiration_ms) : null;
 
-        // Stop old channel
+    if (!enabled) {
+        if (!watch) return { tenantId, calendarId, action: 'healthy' };
         try {
-            await gcal.stopChannel(oldWatch.channel_id, oldWatch.resource_id);
-            logger.info('Old channel stopped', { oldChannelId: oldWatch.channel_id });
+            const gcal = await getGCalClient(tenantId, calendarId);
+            await gcal.stopChannel(watch.channel_id, watch.resource_id);
         } catch (stopErr: any) {
-            // Non-fatal: channel may already be expired
-            logger.warn('Failed to stop old channel (may be expired)', {
-                oldChannelId: oldWatch.channel_id,
-                error: stopErr.message,
-            });
+            logger.warn('Failed to stop channel (may be expired)', { channelId: watch.channel_id, error: stopErr.message });
         }
+        await gcalWatchesRepo.updateWatchStatus(watch.channel_id, 'stopped');
+        return { tenantId, calendarId, action: 'stopped', channelId: watch.channel_id };
+    }
 
-        res.json({
-            newChannelId: newWatch.channelId,
-            newResourceId: newWatch.resourceId,
-            newExpirationMs: newWatch.expirationMs,
-            oldChannelId: oldWatch.channel_id,
+    if (!watch) {
+        const previous = await gcalWatchesRepo.getLatestWatch(tenantId, calendarId);
+        const created = await startWatch(tenantId, calendarId, { previous });
+        return { tenantId, calendarId, action: 'recreated', channelId: created.channelId, expirationMs: created.expirationMs };
+    }
+
+    if (renewBeforeMs !== null && expirationMs !== null && expirationMs - Date.now() > renewBeforeMs) {
+        return { tenantId, calendarId, action: 'healthy', channelId: watch.channel_id, expirationMs };
+    }
+
+    try {
+        const replaced = await replaceWatch(watch);
+        return { tenantId, calendarId, action: 'renewed', channelId: replaced.newChannelId, expirationMs: replaced.newExpirationMs };
+    } catch (err) {
+        if (expirationMs === null || expirationMs <= Date.now()) {
+            await gcalWatchesRepo.updateWatchStatus(watch.channel_id, 'error');
+        }
+        throw err;
+    }
+}
+
+/**
+ * Check every registered calendar (all tenants) plus any active watch on a calendar that isn't
+ * registered, renewing, recreating or stopping watches as needed. Never throws; failures are
+ * reported per calendar.
+ */
+async function renewWatches(renewBeforeMs: number | null, tenantId?: string): Promise<RenewalResult[]> {
+    await ensureDefaultCalendar(tenantId || DEFAULT_TENANT_ID);
+
+    const targets = new Map<string, { tenantId: string; calendarId: string; enabled: boolean }>();
+    for (const calendar of await watchedCalendarsRepo.listAllCalendars()) {
+        targets.set(`${calendar.tenant_id}:${calendar.calendar_id}`, {
+            tenantId: calendar.tenant_id,
+            calendarId: calendar.calendar_id,
+            enabled: calendar.enabled,
         });
+    }
+    for (const watch of await gcalWatchesRepo.listActiveWatches()) {
+        const key = `${watch.tenant_id}:${watch.calendar_id}`;
+        if (!targets.has(key)) {
+            targets.set(key, { tenantId: watch.tenant_id, calendarId: watch.calendar_id, enabled: true });
+        }
+    }
+
+    const results: RenewalResult[] = [];
+    for (const target of targets.values()) {
+        if (tenantId && target.tenantId !== tenantId) continue;
+        try {
+            results.push(await renewCalendarWatch(target.tenantId, target.calendarId, target.enabled, renewBeforeMs));
+        } catch (err: any) {
+            logger.error('Failed to renew GCal watch', { ...target, error: err.message });
+            results.push({ tenantId: target.tenantId, calendarId: target.calendarId, action: 'failed', error: err.message });
+        }
+    }
+    return results;
+}
+
+function summarize(results: RenewalResult[]): Record<RenewalAction, number> {
+    const summary: Record<RenewalAction, number> = { healthy: 0, renewed: 0, recreated: 0, stopped: 0, failed: 0 };
+    for (const r of results) summary[r.action]++;
+    return summary;
+}
+
+/**
+ * POST /admin/gcal/watch/renew
+ * Run by Cloud Scheduler. Replaces active watches expiring within GCAL_WATCH_RENEW_BEFORE_HOURS
+ * (or body.renewBeforeHours), recreates missing or errored ones, and stops watches on disabled calendars.
+ * Responds 500 with the full report if any calendar failed, so the job shows as failed.
+ */
+gcalWatchRouter.post('/renew', async (req: Request, res: Response) => {
+    try {
+        const hours = req.body.renewBeforeHours !== undefined ? Number(req.body.renewBeforeHours) : RENEW_BEFORE_HOURS;
+        if (!Number.isFinite(hours) || hours < 0) {
+            res.status(400).json({ error: 'renewBeforeHours must be a non-negative number' });
+            return;
+        }
+
+        const results = await renewWatches(hours * 3600 * 1000, req.body.tenantId);
+        const summary = summarize(results);
+        logger.info('GCal watch renewal completed', { renewBeforeHours: hours, ...summary });
+
+        res.status(summary.failed > 0 ? 500 : 200).json({ renewBeforeHours: hours, summary, results });
+    } catch (err: any) {
+        logger.error('GCal watch renewal failed', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * POST /admin/gcal/watch/replace
+ * Replace channels now, regardless of expiry (Google has no automatic renewal).
+ * With a calendarId, replaces that calendar's watch, creating one if it has none. Without one,
+ * does the same for every calendar of the tenant; responds 500 if any of them failed.
+ */
+gcalWatchRouter.post('/replace', async (req: Request, res: Response) => {
+    try {
+        const tenantId = req.body.tenantId || DEFAULT_TENANT_ID;
+
+        if (req.body.calendarId) {
+            const oldWatch = await gcalWatchesRepo.getActiveWatch(tenantId, req.body.calendarId);
+            if (!oldWatch) {
+                logger.warn('No active watch found for replacement, creating fresh', { calendarId: req.body.calendarId });
+                const previous = await gcalWatchesRepo.getLatestWatch(tenantId, req.body.calendarId);
+                res.json({ created: true, ...(await startWatch(tenantId, req.body.calendarId, { previous })) });
+                return;
+            }
+            res.json(await replaceWatch(oldWatch));
+            return;
+        }
+
+        const results = await renewWatches(null, tenantId);
+        const summary = summarize(results);
+        res.status(summary.failed > 0 ? 500 : 200).json({ summary, results });
     } catch (err: any) {
         logger.error('Failed to replace GCal watch', { error: err.message });
         res.status(500).json({ error: err.message });
@@ -164,7 +353,7 @@ gcalWatchRouter.post('/stop', async (req: Request, res: Response) => {
             return;
         }
 
-        const gcal = await getGCalClient();
+        const gcal = await getGCalClient(watch.tenant_id, watch.calendar_id);
         await gcal.stopChannel(watch.channel_id, watch.resource_id);
         await gcalWatchesRepo.updateWatchStatus(channelId, 'stopped');
 
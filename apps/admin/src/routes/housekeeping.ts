@@ -3,6 +3,8 @@ import {
     logger,
     idempotencyRepo,
     gcalWatchesRepo,
+    jobQueueRepo,
+    asanaWebhookSecretsRepo,
 } from '@xfund/shared';
 
 export const housekeepingRouter = Router();
@@ -25,6 +27,16 @@ housekeepingRouter.post('/housekeeping', async (_req: Request, res: Response) =>
         results.watchesDeleted = watchesDeleted;
         logger.info('Cleaned up expired watches', { count: watchesDeleted });
 
+        // Clean up finished Postgres queue jobs (>7 days); dead letters keep their own copy
+        const queueJobsDeleted = await jobQueueRepo.purgeFinished(7);
+        results.queueJobsDeleted = queueJobsDeleted;
+        logger.info('Cleaned up finished queue jobs', { count: queueJobsDeleted });
+
+        // Clean up retired and never-attached Asana webhook secrets (>7 days)
+        const secretsDeleted = await asanaWebhookSecretsRepo.purgeStaleSecrets(7);
+        results.asanaSecretsDeleted = secretsDeleted;
+        logger.info('Cleaned up stale Asana webhook secrets', { count: secretsDeleted });
+
         res.json({ status: 'ok', results });
     } catch (err: any) {
         logger.error('Housekeeping failed', { error: err.message });
@@ -0,0 +1,175 @@
+import { Router, Request, Response } from 'express';
+import {
+    logger,
+    jobsRepo,
+    createTasksEnqueuer,
+    type JobType,
+} from '@xfund/shared';
+
+export const jobsAdminRouter = Router();
+
+const tasksEnqueuer = createTasksEnqueuer();
+
+const DEAD_LETTER_STATUSES = ['pending', 'replayed', 'discarded'];
+const ATTEMPT_STATUSES = ['running', 'succeeded', 'failed', 'dead_lettered'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseLimit(value: unknown): number {
+    const n = parseInt(String(value ?? ''), 10);
+    return Number.isFinite(n) && n > 0 ? Math.min(n, 500) : 100;
+}
+
+/**
+ * GET /admin/jobs/dead-letters?status=pending&jobType=&limit=
+ * List dead-lettered jobs (pending by default).
+ */
+jobsAdminRouter.get('/dead-letters', async (req: Request, res: Response) => {
+    try {
+        const status = (req.query.status as string) || 'pending';
+        if (!DEAD_LETTER_STATUSES.includes(status)) {
+            res.status(400).json({ error: `status must be one of: ${DEAD_LETTER_STATUSES.join(', ')}` });
+            return;
+        }
+
+        const deadLetters = await jobsRepo.listDeadLetters({
+            status: status as jobsRepo.DeadLetter['status'],
+            jobType: req.query.jobType as string | undefined,
+            limit: parseLimit(req.query.limit),
+        });
+        res.json({ deadLetters });
+    } catch (err: any) {
+        logger.error('Failed to list dead letters', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * GET /admin/jobs/dead-letters/:id
+ * A dead-lettered job with its full attempt history.
+ */
+jobsAdminRouter.get('/dead-letters/:id', async (req: Request, res: Response) => {
+    try {
+        const deadLetter = UUID_PATTERN.test(req.params.id) ? await jobsRepo.getDeadLetter(req.params.id) : null;
+        if (!deadLetter) {
+            res.status(404).json({ error: 'Dead letter not found' });
+            return;
+        }
+
+        const attempts = await jobsRepo.getAttemptsForDeadLetter(deadLetter);
+        res.json({ deadLetter, attempts });
+    } catch (err: any) {
+        logger.error('Failed to fetch dead letter', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * POST /admin/jobs/dead-letters/:id/replay
+ * Re-enqueue the original job payload as a new task (with a fresh retry budget).
+ * Body: { payload? } — optional shallow override merged into the stored payload.
+ * The dead letter is marked replayed before enqueueing, so concurrent replays enqueue it once.
+ */
+jobsAdminRouter.post('/dead-letters/:id/replay', async (req: Request, res: Response) => {
+    try {
+        const deadLetter = UUID_PATTERN.test(req.params.id) ? await jobsRepo.getDeadLetter(req.params.id) : null;
+        if (!deadLetter) {
+            res.status(404).json({ error: 'Dead letter not found' });
+            return;
+        }
+        if (deadLetter.status !== 'pending') {
+            res.status(409).json({ error: `Dead letter already ${deadLetter.status}` });
+            return;
+        }
+        if (!deadLetter.tenant_id) {
+            res.status(400).json({ error: 'Dead letter has no tenant and cannot be replayed' });
+            return;
+        }
+
+        const override = req.body?.payload;
+        if (override !== undefined && (typeof override !== 'object' || override === null || Array.isArray(override))) {
+            res.status(400).json({ error: 'payload must be an object' });
+            return;
+        }
+
+        if (!(await jobsRepo.resolveDeadLetter(deadLetter.id, 'replayed'))) {
+            res.status(409).json({ error: 'Dead letter already resolved' });
+            return;
+        }
+
+        let taskName: string;
+        try {
+            taskName = await tasksEnqueuer.enqueue({
+                jobType: deadLetter.job_type as JobType,
+                tenantId: deadLetter.tenant_id,
+                payload: { ...deadLetter.payload, ...override },
+                // Fresh key: the original task name can't be reused in Cloud Tasks for a while
+                idempotencyKey: deadLetter.idempotency_key
+                    ? `${deadLetter.idempotency_key}:replay:${deadLetter.id}`
+                    : undefined,
+            });
+        } catch (err) {
+            // Nothing was enqueued: leave it pending so the replay can be retried
+            await jobsRepo.reopenDeadLetter(deadLetter.id);
+            throw err;
+        }
+        await jobsRepo.setReplayTaskName(deadLetter.id, taskName);
+
+        logger.info('Dead letter replayed', { deadLetterId: deadLetter.id, jobType: deadLetter.job_type, taskName });
+        res.json({ id: deadLetter.id, status: 'replayed', taskName });
+    } catch (err: any) {
+        logger.error('Failed to replay dead letter', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * POST /admin/jobs/dead-letters/:id/discard
+ * Mark a dead letter as handled without running it again.
+ */
+jobsAdminRouter.post('/dead-letters/:id/discard', async (req: Request, res: Response) => {
+    try {
+        if (!UUID_PATTERN.test(req.params.id)) {
+            res.status(404).json({ error: 'Dead letter not found' });
+            return;
+        }
+        const discarded = await jobsRepo.resolveDeadLetter(req.params.id, 'discarded');
+        if (!discarded) {
+            const existing = await jobsRepo.getDeadLetter(req.params.id);
+            res.status(existing ? 409 : 404).json({
+                error: existing ? `Dead letter already ${existing.status}` : 'Dead letter not found',
+            });
+            return;
+        }
+
+        logger.info('Dead letter discarded', { deadLetterId: req.params.id });
+        res.json({ id: req.params.id, status: 'discarded' });
+    } catch (err: any) {
+        logger.error('Failed to discard dead letter', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * GET /admin/jobs/attempts?jobType=&status=&taskName=&limit=
+ * Recent dispatch attempts, newest first.
+ */
+jobsAdminRouter.get('/attempts', async (req: Request, res: Response) => {
+    try {
+        const status = req.query.status as string | undefined;
+        if (status && !ATTEMPT_STATUSES.includes(status)) {
+            res.status(400).json({ error: `status must be one of: ${ATTEMPT_STATUSES.join(', ')}` });
+            return;
+        }
+
+        const attempts = await jobsRepo.listAttempts({
+            jobType: req.query.jobType as string | undefined,
+            status: status as jobsRepo.JobAttempt['status'] | undefined,
+            taskName: req.query.taskName as string | undefined,
+            limit: parseLimit(req.query.limit),
+        });
+        res.json({ attempts });
+    } catch (err: any) {
+        logger.error('Failed to list job attempts', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
@@ -0,0 +1,115 @@
+import { Router, Request, Response } from 'express';
+import { logger, llmUsageRepo, integrationsRepo, getLLMBudget } from '@xfund/shared';
+
+export const llmUsageRouter = Router();
+
+const DEFAULT_TENANT_ID = process.env.TENANT_ID || '00000000-0000-0000-0000-000000000001';
+
+/**
+ * GET /admin/llm-usage/report?tenantId=&from=&to=
+ * Spend report for a tenant: totals plus breakdowns by deal, research agent and month.
+ * `from`/`to` are ISO dates (from inclusive, to exclusive); both are optional.
+ */
+llmUsageRouter.get('/report', async (req: Request, res: Response) => {
+    try {
+        const tenantId = (req.query.tenantId as string) || DEFAULT_TENANT_ID;
+        const range: llmUsageRepo.DateRange = {};
+
+        for (const key of ['from', 'to'] as const) {
+            const value = req.query[key] as string | undefined;
+            if (!value) continue;
+            const date = new Date(value);
+            if (isNaN(date.getTime())) {
+                res.status(400).json({ error: `${key} must be an ISO date` });
+                return;
+            }
+            range[key] = date;
+        }
+
+        const [totals, byDeal, byAgent, byMonth] = await Promise.all([
+            llmUsageRepo.getTotalSpend(tenantId, range),
+            llmUsageRepo.getSpendByDeal(tenantId, range),
+            llmUsageRepo.getSpendByAgent(tenantId, range),
+            llmUsageRepo.getSpendByMonth(tenantId, range),
+        ]);
+
+        res.json({
+            tenantId,
+            from: range.from?.toISOString() ?? null,
+            to: range.to?.toISOString() ?? null,
+            totals,
+            byDeal,
+            byAgent,
+            byMonth,
+        });
+    } catch (err: any) {
+        logger.error('Failed to build LLM usage report', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * GET /admin/llm-usage/runs/:runId
+ * Per-call token usage and cost for a single workflow run.
+ */
+llmUsageRouter.get('/runs/:runId', async (req: Request, res: Response) => {
+    try {
+        const { runId } = req.params;
+        const calls = await llmUsageRepo.getUsageForRun(runId);
+        const totalCostUsd = calls.reduce((sum, c) => sum + Number(c.cost_usd ?? 0), 0);
+
+        res.json({ runId, totalCostUsd, calls });
+    } catch (err: any) {
+        logger.error('Failed to fetch run LLM usage', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * GET /admin/llm-usage/budget?tenantId=
+ * Current spend caps (null = uncapped).
+ */
+llmUsageRouter.get('/budget', async (req: Request, res: Response) => {
+    try {
+        const tenantId = (req.query.tenantId as string) || DEFAULT_TENANT_ID;
+        res.json({ tenantId, ...(await getLLMBudget(tenantId)) });
+    } catch (err: any) {
+        logger.error('Failed to fetch LLM budget', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * PUT /admin/llm-usage/budget
+ * Body: { monthlyBudgetUsd?, perDealBudgetUsd?, tenantId? }
+ * Stored in integrations.config (kind 'llm'); pass null to remove a cap.
+ */
+llmUsageRouter.put('/budget', async (req: Request, res: Response) => {
+    try {
+        const tenantId = req.body.tenantId || DEFAULT_TENANT_ID;
+        const patch: Record<string, number | null> = {};
+
+        for (const key of ['monthlyBudgetUsd', 'perDealBudgetUsd'] as const) {
+            const value = req.body[key];
+            if (value === undefined) continue;
+            if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+                res.status(400).json({ error: `${key} must be a non-negative number or null` });
+                return;
+            }
+            patch[key] = value;
+        }
+
+        if (Object.keys(patch).length === 0) {
+            res.status(400).json({ error: 'monthlyBudgetUsd or perDealBudgetUsd is required' });
+            return;
+        }
+
+        await integrationsRepo.upsertIntegration({ tenantId, kind: 'llm', config: patch });
+        logger.info('LLM budget updated', { tenantId, ...patch });
+
+        res.json({ tenantId, ...(await getLLMBudget(tenantId)) });
+    } catch (err: any) {
+        logger.error('Failed to update LLM budget', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
@@ -0,0 +1,102 @@
+import { Router, Request, Response } from 'express';
+import {
+    logger,
+    pipelineStagesRepo,
+    ensureDefaultStages,
+    STAGE_BEHAVIOURS,
+} from '@xfund/shared';
+
+export const pipelineStagesRouter = Router();
+
+const DEFAULT_TENANT_ID = process.env.TENANT_ID || '00000000-0000-0000-0000-000000000001';
+const STAGE_KEY_PATTERN = /^[A-Z][A-Z0-9_]{1,62}$/;
+
+/**
+ * GET /admin/pipeline-stages
+ * List the tenant's pipeline stages (built-ins are seeded on first access).
+ */
+pipelineStagesRouter.get('/', async (req: Request, res: Response) => {
+    try {
+        const tenantId = (req.query.tenantId as string) || DEFAULT_TENANT_ID;
+        await ensureDefaultStages(tenantId);
+        const stages = await pipelineStagesRepo.listStages(tenantId);
+        res.json({ stages, behaviours: STAGE_BEHAVIOURS });
+    } catch (err: any) {
+        logger.error('Failed to list pipeline stages', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * PUT /admin/pipeline-stages/:stageKey
+ * Create or update a stage.
+ * Body: { title, behaviours?, notionStatus?, cancelOnEnter?, cancelOnExit?, isEntry?, displayOrder?, enabled?, tenantId? }
+ */
+pipelineStagesRouter.put('/:stageKey', async (req: Request, res: Response) => {
+    try {
+        const { stageKey } = req.params;
+        const { title, behaviours, notionStatus, cancelOnEnter, cancelOnExit, isEntry, displayOrder, enabled } = req.body;
+        const tenantId = req.body.tenantId || DEFAULT_TENANT_ID;
+
+        if (!STAGE_KEY_PATTERN.test(stageKey)) {
+            res.status(400).json({ error: 'stageKey must be UPPER_SNAKE_CASE' });
+            return;
+        }
+        if (!title) {
+            res.status(400).json({ error: 'title is required' });
+            return;
+        }
+        if (
+            behaviours !== undefined &&
+            (!Array.isArray(behaviours) || behaviours.some((b) => !STAGE_BEHAVIOURS.includes(b)))
+        ) {
+            res.status(400).json({ error: `behaviours must be an array of: ${STAGE_BEHAVIOURS.join(', ')}` });
+            return;
+        }
+
+        // Make sure the built-ins exist so a custom stage doesn't suppress seeding
+        await ensureDefaultStages(tenantId);
+
+        const stage = await pipelineStagesRepo.upsertStage({
+            tenantId,
+            stageKey,
+            title,
+            behaviours,
+            notionStatus,
+            cancelOnEnter,
+            cancelOnExit,
+            isEntry,
+            displayOrder,
+            enabled,
+        });
+
+        logger.info('Pipeline stage saved', { tenantId, stageKey });
+        res.json({ stage });
+    } catch (err: any) {
+        logger.error('Failed to save pipeline stage', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * DELETE /admin/pipeline-stages/:stageKey
+ * Remove a stage. Sections still mapped to it stop triggering stage actions.
+ */
+pipelineStagesRouter.delete('/:stageKey', async (req: Request, res: Response) => {
+    try {
+        const { stageKey } = req.params;
+        const tenantId = (req.query.tenantId as string) || DEFAULT_TENANT_ID;
+
+        const deleted = await pipelineStagesRepo.deleteStage(tenantId, stageKey);
+        if (!deleted) {
+            res.status(404).json({ error: 'Pipeline stage not found' });
+            return;
+        }
+
+        logger.info('Pipeline stage deleted', { tenantId, stageKey });
+        res.json({ stageKey, status: 'deleted' });
+    } catch (err: any) {
+        logger.error('Failed to delete pipeline stage', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
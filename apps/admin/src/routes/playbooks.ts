@@ -0,0 +1,176 @@
+import { Router, Request, Response } from 'express';
+import {
+    logger,
+    stagePlaybooksRepo,
+    getPipelineStages,
+    parsePlaybook,
+    PlaybookValidationError,
+    DEFAULT_STAGE_PLAYBOOKS,
+    type PlaybookFormat,
+    type StagePlaybook,
+} from '@xfund/shared';
+
+export const playbooksRouter = Router();
+
+const DEFAULT_TENANT_ID = process.env.TENANT_ID || '00000000-0000-0000-0000-000000000001';
+
+/**
+ * Read a playbook from a request body: either `{ playbook: {...} }` or
+ * `{ source: "...", format: "yaml" | "json" }` (YAML keeps comments for later editing).
+ */
+function readPlaybookBody(body: any): { playbook: StagePlaybook; source: string; format: PlaybookFormat } {
+    if (body.source !== undefined) {
+        const format: PlaybookFormat = body.format === 'yaml' ? 'yaml' : 'json';
+        if (typeof body.source !== 'string') {
+            throw new PlaybookValidationError(['source must be a string']);
+        }
+        return { playbook: parsePlaybook(body.source, format), source: body.source, format };
+    }
+    if (body.playbook === undefined) {
+        throw new PlaybookValidationError(['playbook or source is required']);
+    }
+    const source = JSON.stringify(body.playbook, null, 2);
+    return { playbook: parsePlaybook(source, 'json'), source, format: 'json' };
+}
+
+/**
+ * GET /admin/playbooks
+ * The playbook in effect for each of the tenant's stages, and whether it is custom or built-in.
+ */
+playbooksRouter.get('/', async (req: Request, res: Response) => {
+    try {
+        const tenantId = (req.query.tenantId as string) || DEFAULT_TENANT_ID;
+        const stages = await getPipelineStages(tenantId);
+        const custom = new Map(
+            (await stagePlaybooksRepo.listPlaybooks(tenantId)).map((p) => [p.stage_key, p])
+        );
+
+        const playbooks = stages.map((stage) => {
+            const row = custom.get(stage.stage_key);
+            return {
+                stageKey: stage.stage_key,
+                title: stage.title,
+                origin: row ? 'custom' : DEFAULT_STAGE_PLAYBOOKS[stage.stage_key] ? 'built-in' : 'none',
+                playbook: row?.definition ?? DEFAULT_STAGE_PLAYBOOKS[stage.stage_key] ?? null,
+                updatedAt: row?.updated_at ?? null,
+            };
+        });
+
+        res.json({ playbooks });
+    } catch (err: any) {
+        logger.error('Failed to list playbooks', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * GET /admin/playbooks/:stageKey
+ * A stage's custom playbook with its original source, or the built-in one.
+ */
+playbooksRouter.get('/:stageKey', async (req: Request, res: Response) => {
+    try {
+        const { stageKey } = req.params;
+        const tenantId = (req.query.tenantId as string) || DEFAULT_TENANT_ID;
+
+        const row = await stagePlaybooksRepo.getPlaybook(tenantId, stageKey);
+        if (row) {
+            res.json({
+                stageKey,
+                origin: 'custom',
+                playbook: row.definition,
+                source: row.source,
+                format: row.source_format,
+            });
+            return;
+        }
+
+        const builtIn = DEFAULT_STAGE_PLAYBOOKS[stageKey];
+        if (!builtIn) {
+            res.status(404).json({ error: 'No playbook for this stage' });
+            return;
+        }
+        res.json({ stageKey, origin: 'built-in', playbook: builtIn });
+    } catch (err: any) {
+        logger.error('Failed to get playbook', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * POST /admin/playbooks/validate
+ * Check a playbook without saving it.
+ * Body: { playbook } or { source, format }
+ */
+playbooksRouter.post('/validate', async (req: Request, res: Response) => {
+    try {
+        const { playbook } = readPlaybookBody(req.body);
+        res.json({ valid: true, playbook });
+    } catch (err: any) {
+        if (err instanceof PlaybookValidationError) {
+            res.json({ valid: false, errors: err.errors });
+            return;
+        }
+        logger.error('Failed to validate playbook', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * PUT /admin/playbooks/:stageKey
+ * Create or replace a stage's playbook.
+ * Body: { playbook, tenantId? } or { source, format, tenantId? }
+ */
+playbooksRouter.put('/:stageKey', async (req: Request, res: Response) => {
+    try {
+        const { stageKey } = req.params;
+        const tenantId = req.body.tenantId || DEFAULT_TENANT_ID;
+
+        const stageKeys = (await getPipelineStages(tenantId)).map((s) => s.stage_key);
+        if (!stageKeys.includes(stageKey)) {
+            res.status(400).json({ error: `stageKey must be one of ${stageKeys.join(', ')}` });
+            return;
+        }
+
+        const { playbook, source, format } = readPlaybookBody(req.body);
+        const row = await stagePlaybooksRepo.upsertPlaybook({
+            tenantId,
+            stageKey,
+            definition: playbook,
+            source,
+            sourceFormat: format,
+        });
+
+        logger.info('Stage playbook saved', { tenantId, stageKey, format });
+        res.json({ stageKey, playbook: row.definition, format: row.source_format, updatedAt: row.updated_at });
+    } catch (err: any) {
+        if (err instanceof PlaybookValidationError) {
+            res.status(400).json({ error: 'Invalid playbook', errors: err.errors });
+            return;
+        }
+        logger.error('Failed to save playbook', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * DELETE /admin/playbooks/:stageKey
+ * Remove a custom playbook; the stage falls back to its built-in playbook, if any.
+ */
+playbooksRouter.delete('/:stageKey', async (req: Request, res: Response) => {
+    try {
+        const { stageKey } = req.params;
+        const tenantId = (req.query.tenantId as string) || DEFAULT_TENANT_ID;
+
+        const deleted = await stagePlaybooksRepo.deletePlaybook(tenantId, stageKey);
+        if (!deleted) {
+            res.status(404).json({ error: 'No custom playbook for this stage' });
+            return;
+        }
+
+        logger.info('Stage playbook deleted', { tenantId, stageKey });
+        res.json({ stageKey, status: 'deleted' });
+    } catch (err: any) {
+        logger.error('Failed to delete playbook', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
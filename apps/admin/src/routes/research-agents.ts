@@ -0,0 +1,106 @@
+import { Router, Request, Response } from 'express';
+import {
+    logger,
+    researchAgentsRepo,
+    ensureDefaultAgents,
+} from '@xfund/shared';
+
+export const researchAgentsRouter = Router();
+
+const DEFAULT_TENANT_ID = process.env.TENANT_ID || '00000000-0000-0000-0000-000000000001';
+const AGENT_KEY_PATTERN = /^[a-z][a-z0-9_]{1,62}$/;
+const CACHE_SCOPES = ['company', 'founder'];
+
+/**
+ * GET /admin/research-agents
+ * List the tenant's research agent registry (built-ins are seeded on first access).
+ */
+researchAgentsRouter.get('/', async (req: Request, res: Response) => {
+    try {
+        const tenantId = (req.query.tenantId as string) || DEFAULT_TENANT_ID;
+        await ensureDefaultAgents(tenantId);
+        const agents = await researchAgentsRepo.listAgents(tenantId);
+        res.json({ agents });
+    } catch (err: any) {
+        logger.error('Failed to list research agents', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * PUT /admin/research-agents/:agentKey
+ * Create or update an agent; fields omitted on update keep their stored values.
+ * Body: { title, prompt, tools?, model?, displayOrder?, enabled?, cacheScope?, tenantId? }
+ * title and prompt are required only when creating.
+ * cacheScope 'founder' caches results per founder instead of per company.
+ */
+researchAgentsRouter.put('/:agentKey', async (req: Request, res: Response) => {
+    try {
+        const { agentKey } = req.params;
+        const { title, prompt, tools, model, displayOrder, enabled, cacheScope } = req.body;
+        const tenantId = req.body.tenantId || DEFAULT_TENANT_ID;
+
+        if (!AGENT_KEY_PATTERN.test(agentKey)) {
+            res.status(400).json({ error: 'agentKey must be lowercase snake_case' });
+            return;
+        }
+        if (tools !== undefined && (!Array.isArray(tools) || tools.some((t) => typeof t !== 'string'))) {
+            res.status(400).json({ error: 'tools must be an array of tool type strings' });
+            return;
+        }
+        if (cacheScope !== undefined && !CACHE_SCOPES.includes(cacheScope)) {
+            res.status(400).json({ error: `cacheScope must be one of ${CACHE_SCOPES.join(', ')}` });
+            return;
+        }
+
+        // Seed the built-ins first so updating one merges with its stored definition
+        await ensureDefaultAgents(tenantId);
+        const existing = await researchAgentsRepo.getAgent(tenantId, agentKey);
+
+        if (!(title ?? existing?.title) || !(prompt ?? existing?.prompt)) {
+            res.status(400).json({ error: 'title and prompt are required' });
+            return;
+        }
+
+        const agent = await researchAgentsRepo.upsertAgent({
+            tenantId,
+            agentKey,
+            title: title ?? existing!.title,
+            prompt: prompt ?? existing!.prompt,
+            tools: tools ?? existing?.tools,
+            model: model !== undefined ? model : existing?.model,
+            displayOrder: displayOrder ?? existing?.display_order,
+            enabled: enabled ?? existing?.enabled,
+            cacheScope: cacheScope ?? existing?.cache_scope,
+        });
+
+        logger.info('Research agent saved', { tenantId, agentKey });
+        res.json({ agent });
+    } catch (err: any) {
+        logger.error('Failed to save research agent', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
+
+/**
+ * DELETE /admin/research-agents/:agentKey
+ * Remove an agent from the registry. Past research results are kept, and a deleted built-in is not re-seeded.
+ */
+researchAgentsRouter.delete('/:agentKey', async (req: Request, res: Response) => {
+    try {
+        const { agentKey } = req.params;
+        const tenantId = (req.query.tenantId as string) || DEFAULT_TENANT_ID;
+
+        const deleted = await researchAgentsRepo.deleteAgent(tenantId, agentKey);
+        if (!deleted) {
+            res.status(404).json({ error: 'Research agent not found' });
+            return;
+        }
+
+        logger.info('Research agent deleted', { tenantId, agentKey });
+        res.json({ agentKey, status: 'deleted' });
+    } catch (err: any) {
+        logger.error('Failed to delete research agent', { error: err.message });
+        res.status(500).json({ error: err.message });
+    }
+});
@@ -2,8 +2,16 @@ import 'dotenv/config';
 import express from 'express';
 import { logger, requestContext, requireAuth, runMigrations } from '@xfund/shared';
 import { gcalWatchRouter } from './routes/gcal-watch.js';
+import { gcalCalendarsRouter } from './routes/gcal-calendars.js';
 import { asanaWebhookAdminRouter } from './routes/asana-webhook-admin.js';
+import { asanaPipelinesRouter } from './routes/asana-pipelines.js';
 import { housekeepingRouter } from './routes/housekeeping.js';
+import { dealsAdminRouter } from './routes/deals.js';
+import { researchAgentsRouter } from './routes/research-agents.js';
+import { pipelineStagesRouter } from './routes/pipeline-stages.js';
+import { playbooksRouter } from './routes/playbooks.js';
+import { llmUsageRouter } from './routes/llm-usage.js';
+import { jobsAdminRouter } from './routes/jobs.js';
 
 const app = express();
 const PORT = parseInt(process.env.PORT || '8081', 10);
@@ -20,7 +28,15 @@ app.get('/admin/health', (_req, res) => {
 
 // Admin routes
 app.use('/admin/gcal/watch', gcalWatchRouter);
+app.use('/admin/gcal/calendars', gcalCalendarsRouter);
 app.use('/admin/asana/webhook', asanaWebhookAdminRouter);
+app.use('/admin/asana/pipelines', asanaPipelinesRouter);
+app.use('/admin/deals', dealsAdminRouter);
+app.use('/admin/research-agents', researchAgentsRouter);
+app.use('/admin/pipeline-stages', pipelineStagesRouter);
+app.use('/admin/playbooks', playbooksRouter);
+app.use('/admin/llm-usage', llmUsageRouter);
+app.use('/admin/jobs', jobsAdminRouter);
 app.use('/admin', housekeepingRouter);
 
 // Error handler
@@ -1,18 +1,39 @@
 import { Router, Request, Response } from 'express';
 import {
     logger,
-    integrationsRepo,
+    asanaPipelinesRepo,
+    asanaWebhookSecretsRepo,
+    idempotencyRepo,
     createTasksEnqueuer,
-    AsanaClient,
+    ensureDefaultPipeline,
+    resolveEventProject,
+    findWebhookSecret,
 } from '@xfund/shared';
 
 export const asanaWebhookRouter = Router();
 
 const tasksEnqueuer = createTasksEnqueuer();
 const DEFAULT_TENANT_ID = process.env.TENANT_ID || '00000000-0000-0000-0000-000000000001';
+/** Events for one task within this window share a single ASANA_PROCESS job (0 = per delivery) */
+const COALESCE_WINDOW_SECONDS = parseInt(process.env.ASANA_COALESCE_WINDOW_SECONDS || '5', 10);
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 /**
- * POST /webhooks/asana
+ * The pipeline a handshake is for: webhooks created per pipeline target
+ * /webhooks/asana/:pipelineId; the bare path is the tenant's default pipeline.
+ */
+async function findPipeline(pipelineId: string | undefined): Promise<asanaPipelinesRepo.AsanaPipeline | null> {
+    if (pipelineId) {
+        if (!UUID_PATTERN.test(pipelineId)) return null;
+        const pipeline = await asanaPipelinesRepo.getPipelineById(pipelineId);
+        return pipeline?.enabled ? pipeline : null;
+    }
+    await ensureDefaultPipeline(DEFAULT_TENANT_ID);
+    return asanaPipelinesRepo.getDefaultPipeline(DEFAULT_TENANT_ID);
+}
+
+/**
+ * POST /webhooks/asana[/:pipelineId]
  *
  * Handles two modes:
  * 1. HANDSHAKE: Asana sends X-Hook-Secret header. We must echo it back 200/204.
@@ -20,20 +41,33 @@ const DEFAULT_TENANT_ID = process.env.TENANT_ID || '00000000-0000-0000-0000-0000
  *
  * Raw body parsing is configured in server.ts for this route.
  */
-asanaWebhookRouter.post('/', async (req: Request, res: Response) => {
+asanaWebhookRouter.post(['/', '/:pipelineId'], async (req: Request, res: Response) => {
     const hookSecret = req.headers['x-hook-secret'] as string | undefined;
     const hookSignature = req.headers['x-hook-signature'] as string | undefined;
+    const pipelineId = req.params.pipelineId as string | undefined;
 
     // ---- HANDSHAKE MODE ----
     if (hookSecret) {
-        logger.info('Asana webhook: handshake received', { hookSecret: hookSecret.substring(0, 8) + '...' });
+        logger.info('Asana webhook: handshake received', {
+            pipelineId,
+            hookSecret: hookSecret.substring(0, 8) + '...',
+        });
 
         try {
-            // Store the X-Hook-Secret for future signature verification
-            await integrationsRepo.upsertIntegration({
-                tenantId: DEFAULT_TENANT_ID,
-                kind: 'asana',
-                config: { webhookSecret: hookSecret },
+            const pipeline = await findPipeline(pipelineId);
+            if (!pipeline) {
+                // Not echoing the secret makes Asana reject the subscription
+                logger.warn('Asana webhook: handshake for unknown pipeline', { pipelineId });
+                res.status(404).json({ error: 'Unknown pipeline' });
+                return;
+            }
+
+            // Store the X-Hook-Secret for future signature verification; the admin create
+            // call attaches the webhook GID once Asana returns it
+            await asanaWebhookSecretsRepo.addSecret({
+                tenantId: pipeline.tenant_id,
+                pipelineId: pipeline.id,
+                secret: hookSecret,
             });
 
             // Echo back the secret header — this completes the handshake
@@ -42,26 +76,14 @@ asanaWebhookRouter.post('/', async (req: Request, res: Response) => {
             return;
         } catch (err: any) {
             logger.error('Asana webhook: handshake storage error', { error: err.message });
-            // Still respond to complete handshake
-            res.setHeader('X-Hook-Secret', hookSecret);
-            res.status(200).send();
+            // Fail the handshake: a webhook whose secret wasn't stored could never be verified
+            res.status(500).json({ error: 'Failed to store webhook secret' });
             return;
         }
     }
 
     // ---- EVENTS MODE ----
     try {
-        // Get stored secret for signature verification
-        const integration = await integrationsRepo.getIntegration(DEFAULT_TENANT_ID, 'asana');
-        const storedSecret = integration?.config?.webhookSecret;
-
-        if (!storedSecret) {
-            logger.warn('Asana webhook: no stored secret found, cannot verify signature');
-            res.status(401).json({ error: 'Webhook not configured' });
-            return;
-        }
-
-        // Verify signature
         const rawBody = req.body as Buffer;
 
         if (!hookSignature) {
@@ -70,13 +92,39 @@ asanaWebhookRouter.post('/', async (req: Request, res: Response) => {
             return;
         }
 
-        const isValid = AsanaClient.verifySignature(rawBody, hookSignature, storedSecret);
-        if (!isValid) {
-            logger.warn('Asana webhook: invalid signature');
+        // Verify against the stored secrets; on the bare path the matching secret identifies the webhook
+        let tenantId = DEFAULT_TENANT_ID;
+        if (pipelineId) {
+            const target = UUID_PATTERN.test(pipelineId)
+                ? await asanaPipelinesRepo.getPipelineById(pipelineId)
+                : null;
+            if (!target) {
+                logger.warn('Asana webhook: delivery for unknown pipeline', { pipelineId });
+                res.status(401).json({ error: 'Webhook not configured' });
+                return;
+            }
+            tenantId = target.tenant_id;
+        }
+
+        const matched = await findWebhookSecret(tenantId, rawBody, hookSignature, pipelineId);
+        if (!matched) {
+            logger.warn('Asana webhook: invalid signature', { pipelineId });
             res.status(401).json({ error: 'Invalid signature' });
             return;
         }
 
+        const pipeline = matched.pipeline_id
+            ? await asanaPipelinesRepo.getPipelineById(matched.pipeline_id)
+            : null;
+        if (!pipeline?.enabled) {
+            logger.warn('Asana webhook: delivery for disabled or removed pipeline', {
+                webhookGid: matched.webhook_gid,
+                pipelineId: matched.pipeline_id,
+            });
+            res.status(200).send();
+            return;
+        }
+
         // Parse the body
         const body = JSON.parse(rawBody.toString());
         const events = body.events || [];
@@ -88,39 +136,110 @@ asanaWebhookRouter.post('/', async (req: Request, res: Response) => {
             return;
         }
 
-        // Process events: enqueue ASANA_PROCESS for each relevant task event
-        const projectGid = process.env.ASANA_PROJECT_GID || '';
-
-        for (const event of events) {
-            // We care about task changes (especially memberships/section changes)
-            if (event.resource?.resource_type !== 'task') {
-                continue;
+        // Drop events already seen (Asana redelivers on timeouts), then coalesce per project and task:
+        // handleAsanaProcess re-reads the task, so one job per task covers a whole drag-and-drop burst
+        const webhookGid = matched.webhook_gid || matched.id;
+
+        const taskEvents = events.filter(
+            (event: any) => event.resource?.resource_type === 'task' && event.resource?.gid
+        );
+        const eventKeys = taskEvents.map((event: any) =>
+            idempotencyRepo.asanaEventKey(webhookGid, event.resource.gid, event.action, event.created_at)
+        );
+        const fresh = await idempotencyRepo.claimKeys(eventKeys);
+
+        type TaskEntry = {
+            taskGid: string;
+            projectGid: string;
+            actions: Set<string>;
+            parentGid?: string;
+            latestAt: string;
+            eventKeys: string[];
+        };
+        // Claimed keys whose job isn't enqueued yet: released if enqueueing fails so Asana's redelivery isn't dropped
+        const unenqueued = new Set(fresh);
+        const byTask = new Map<string, TaskEntry>();
+        try {
+            for (let i = 0; i < taskEvents.length; i++) {
+                const event = taskEvents[i];
+                if (!fresh.has(eventKeys[i])) continue;
+
+                const projectGid = await resolveEventProject(tenantId, event, pipeline);
+                const groupKey = `${projectGid}:${event.resource.gid}`;
+                const entry: TaskEntry = byTask.get(groupKey) || {
+                    taskGid: event.resource.gid,
+                    projectGid,
+                    actions: new Set<string>(),
+                    latestAt: '',
+                    eventKeys: [],
+                };
+                entry.actions.add(event.action);
+                entry.parentGid = event.parent?.gid ?? entry.parentGid;
+                if ((event.created_at || '') > entry.latestAt) entry.latestAt = event.created_at || '';
+                entry.eventKeys.push(eventKeys[i]);
+                byTask.set(groupKey, entry);
             }
 
-            const taskGid = event.resource?.gid;
-            if (!taskGid) continue;
-
-            await tasksEnqueuer.enqueue({
-                jobType: 'ASANA_PROCESS',
-                tenantId: DEFAULT_TENANT_ID,
-                payload: {
-                    taskGid,
-                    projectGid,
-                    action: event.action,
-                    parentGid: event.parent?.gid,
-                },
+            const now = Date.now();
+            for (const entry of byTask.values()) {
+                const { taskGid, projectGid } = entry;
+                const task = {
+                    jobType: 'ASANA_PROCESS' as const,
+                    tenantId,
+                    payload: {
+                        taskGid,
+                        projectGid,
+                        action: [...entry.actions].join(','),
+                        parentGid: entry.parentGid,
+                    },
+                };
+
+                if (COALESCE_WINDOW_SECONDS > 0) {
+                    // Later deliveries in the same window hit the same key and are rejected at enqueue
+                    const windowMs = COALESCE_WINDOW_SECONDS * 1000;
+                    const windowEnd = (Math.floor(now / windowMs) + 1) * windowMs;
+                    await tasksEnqueuer.enqueueAt(
+                        { ...task, idempotencyKey: idempotencyRepo.asanaProcessKey(projectGid, taskGid, String(windowEnd)) },
+                        new Date(windowEnd)
+                    );
+                } else {
+                    await tasksEnqueuer.enqueue({
+                        ...task,
+                        idempotencyKey: idempotencyRepo.asanaProcessKey(projectGid, taskGid, entry.latestAt),
+                    });
+                }
+                for (const key of entry.eventKeys) unenqueued.delete(key);
+            }
+        } catch (err: any) {
+            logger.error('Asana webhook: failed to enqueue events', {
+                pipelineId: pipeline.id,
+                unenqueued: unenqueued.size,
+                error: err.message,
             });
-
-            logger.info('Asana webhook: ASANA_PROCESS task enqueued', {
-                taskGid,
-                action: event.action,
+            await idempotencyRepo.releaseKeys([...unenqueued]).catch((releaseErr) => {
+                logger.error('Asana webhook: failed to release event keys', { error: releaseErr.message });
             });
+            // Non-2xx makes Asana redeliver; events already enqueued are then skipped as duplicates
+            res.status(500).json({ error: 'Failed to enqueue events' });
+            return;
         }
 
+        logger.info('Asana webhook: events processed', {
+            pipelineId: pipeline.id,
+            received: events.length,
+            duplicates: taskEvents.length - fresh.size,
+            jobsEnqueued: byTask.size,
+        });
+
         res.status(200).send();
     } catch (err: any) {
         logger.error('Asana webhook handler error', { error: err.message });
-        // Always respond 200 to avoid Asana deactivating the webhook
-        res.status(200).send();
+        if (err instanceof SyntaxError) {
+            // A malformed body won't parse on redelivery either; 200 keeps Asana from deactivating the webhook
+            res.status(200).send();
+            return;
+        }
+        // Nothing was claimed yet (e.g. database unavailable): let Asana redeliver
+        res.status(500).json({ error: 'Failed to process events' });
     }
 });
@@ -71,16 +71,8 @@ gcalWebhookRouter.post('/', async (req: Request, res: Response) => {
             return;
         }
 
-        // Idempotency check
+        // Enqueue GCAL_SYNC task; a redelivered ping maps to the same task name and is rejected
         const idempotencyKey = idempotencyRepo.gcalPingKey(channelId, messageNumber);
-        const isNew = await idempotencyRepo.claimKey(idempotencyKey);
-        if (!isNew) {
-            log.info('GCal webhook: duplicate ping, skipping');
-            res.status(200).send();
-            return;
-        }
-
-        // Enqueue GCAL_SYNC task
         await tasksEnqueuer.enqueue({
             jobType: 'GCAL_SYNC',
             tenantId: watch.tenant_id,
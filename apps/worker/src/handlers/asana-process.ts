@@ -3,6 +3,7 @@ import {
     AsanaClient,
     asanaTaskStateRepo,
     pipelineSectionsRepo,
+    idempotencyRepo,
     createTasksEnqueuer,
     getSecret,
 } from '@xfund/shared';
@@ -12,6 +13,7 @@ const tasksEnqueuer = createTasksEnqueuer();
 /**
  * ASANA_PROCESS handler
  * Payload: { taskGid, projectGid, action, parentGid? }
+ * One job per task per coalescing window; `action` lists the distinct event actions, comma-separated.
  *
  * 1. Fetch task details from Asana (memberships → current section)
  * 2. Compare with asana_task_state → detect section change
@@ -84,7 +86,7 @@ export async function handleAsanaProcess(
         stageKey,
     });
 
-    // Enqueue STAGE_ACTION
+    // Enqueue STAGE_ACTION (deduplicated per task + section + modification time)
     await tasksEnqueuer.enqueue({
         jobType: 'STAGE_ACTION',
         tenantId,
@@ -95,6 +97,7 @@ export async function handleAsanaProcess(
             modifiedAt: modifiedAt.toISOString(),
             previousStage: changeResult.previousStage,
         },
+        idempotencyKey: idempotencyRepo.stageActionKey(taskGid, currentSectionGid, modifiedAt.toISOString()),
     });
 
     // Update triggered stage
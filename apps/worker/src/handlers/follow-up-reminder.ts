@@ -0,0 +1,52 @@
+import {
+    logger,
+    AsanaClient,
+    dealsRepo,
+    getSecret,
+} from '@xfund/shared';
+
+/**
+ * FOLLOW_UP_REMINDER handler
+ * Payload: { dealId, stageKey, days }
+ *
+ * Scheduled when a deal enters a stage with the first_meeting behaviour (one week later by default).
+ * If the deal is still sitting in that stage, add a follow-up subtask on its Asana task.
+ */
+export async function handleFollowUpReminder(
+    tenantId: string,
+    payload: {
+        dealId: string;
+        stageKey: string;
+        days: number;
+    }
+): Promise<void> {
+    const { dealId, stageKey, days } = payload;
+    const log = logger.child({ tenantId, dealId, stageKey, jobType: 'FOLLOW_UP_REMINDER' });
+
+    const deal = await dealsRepo.getDealById(dealId);
+    if (!deal || !deal.asana_task_gid) {
+        log.warn('Deal or Asana task not found, skipping reminder');
+        return;
+    }
+
+    if (deal.merged_into_deal_id) {
+        log.info('Deal was merged into another, reminder not needed', { mergedInto: deal.merged_into_deal_id });
+        return;
+    }
+
+    if (deal.current_stage !== stageKey) {
+        log.info('Deal has moved on, reminder not needed', { currentStage: deal.current_stage });
+        return;
+    }
+
+    const asana = new AsanaClient({ token: await getSecret('ASANA_TOKEN') });
+    const who = deal.founder_name || deal.company_name || 'the founder';
+    await asana.createSubtask(
+        deal.asana_task_gid,
+        `Follow up with ${who}`,
+        `${days} day${days === 1 ? '' : 's'} since the deal entered ${stageKey} and it is still there. ` +
+        'Send a follow-up or move the deal to the next stage.'
+    );
+
+    log.info('Follow-up reminder created');
+}
@@ -1,13 +1,19 @@
 import {
     logger,
-    GCalClient,
     gcalWatchesRepo,
+    watchedCalendarsRepo,
     dealsRepo,
-    getSecret,
+    dealMeetingsRepo,
+    getGCalClientForCalendar,
     parseCalendlyEvent,
     isDealEvent,
+    getExternalAttendeeDomains,
+    matchDealForMeeting,
+    checkForDuplicates,
 } from '@xfund/shared';
 import { createDealObject } from '../orchestrator/deal-creator.js';
+import { detectMeetingChange, applyMeetingChange } from '../orchestrator/meeting-changes.js';
+import { attachMeetingToDeal } from '../orchestrator/meeting-attacher.js';
 
 /**
  * GCAL_SYNC handler
@@ -16,7 +22,11 @@ import { createDealObject } from '../orchestrator/deal-creator.js';
  * 1. Load active watch row, get syncToken
  * 2. If syncToken exists: incremental sync
  * 3. If syncToken missing or 410 GONE: full sync
- * 4. For each changed event: upsert deal → create Asana task + Notion workspace
+ * 4. For each changed event: attach it to an existing deal if it matches one
+ *    ([deal:<id>] tag, attendee domain, company name); otherwise upsert deal → check for
+ *    duplicates (an auto-merged deal's meeting is attached to the surviving deal) → create
+ *    Asana task + Notion workspace, or propagate a reschedule/cancellation/restoration
+ *    of an existing deal's meeting
  * 5. Persist new syncToken
  */
 export async function handleGcalSync(
@@ -33,12 +43,9 @@ export async function handleGcalSync(
         return;
     }
 
-    // Initialize GCal client
-    const gcal = new GCalClient({
-        clientId: await getSecret('GCAL_OAUTH_CLIENT_ID'),
-        clientSecret: await getSecret('GCAL_OAUTH_CLIENT_SECRET'),
-        refreshToken: await getSecret('GCAL_REFRESH_TOKEN'),
-    });
+    // Initialize GCal client with the calendar's own credentials; its owner is the deal's partner
+    const calendar = await watchedCalendarsRepo.getCalendar(tenantId, calendarId);
+    const gcal = await getGCalClientForCalendar(calendar);
 
     let syncResult;
 
@@ -70,24 +77,74 @@ export async function handleGcalSync(
     for (const event of syncResult.events) {
         if (!event.id) continue;
 
-        // Skip cancelled events
-        if (event.status === 'cancelled') {
-            log.info('Skipping cancelled event', { eventId: event.id });
-            continue;
-        }
+        try {
+            // Cancelled events carry little more than their ID, so match them to a deal before the tag check
+            if (event.status === 'cancelled') {
+                const meeting = await dealMeetingsRepo.getMeetingByEvent(tenantId, calendarId, event.id);
+                if (meeting && meeting.status !== 'cancelled') {
+                    await dealMeetingsRepo.setMeetingStatus(meeting.id, 'cancelled');
+                }
+
+                // A merged deal's meetings belong to the deal it was merged into
+                const deal = await dealsRepo.getDealByGcalEvent(tenantId, calendarId, event.id);
+                const change = deal && !deal.merged_into_deal_id && detectMeetingChange(deal, true, null);
+                if (deal && change) {
+                    await applyMeetingChange(tenantId, deal, change, log);
+                } else if (meeting) {
+                    log.info('Attached meeting cancelled', { eventId: event.id, dealId: meeting.deal_id });
+                } else {
+                    log.info('Skipping cancelled event', { eventId: event.id });
+                }
+                continue;
+            }
 
-        // Only process events tagged with [deal]
-        if (!isDealEvent(event)) {
-            log.debug('Skipping non-deal event', { eventId: event.id, summary: event.summary });
-            continue;
-        }
+            // Only process events tagged with [deal] or [deal:<id>]
+            if (!isDealEvent(event)) {
+                log.debug('Skipping non-deal event', { eventId: event.id, summary: event.summary });
+                continue;
+            }
 
-        try {
             const parsed = parseCalendlyEvent(event);
 
-            // Strip [deal] tag from company name so Asana/Notion titles are clean
+            // Strip deal tags from company name so Asana/Notion titles are clean
             if (parsed.companyName) {
-                parsed.companyName = parsed.companyName.replace(/\s*\[deal\]\s*/gi, '').trim();
+                parsed.companyName = parsed.companyName.replace(/\s*\[deal(?::[^\]]*)?\]\s*/gi, '').trim();
+            }
+
+            const meeting = {
+                tenantId,
+                gcalCalendarId: calendarId,
+                gcalEventId: event.id,
+                gcalIcalUid: event.iCalUID || undefined,
+                summary: event.summary || undefined,
+                meetingTime: parsed.meetingTime,
+                attendees: parsed.attendees,
+                attendeeDomains: await getExternalAttendeeDomains(tenantId, event),
+            };
+
+            // A later meeting already attached to a deal: just refresh its details
+            const attached = await dealMeetingsRepo.getMeetingByEvent(tenantId, calendarId, event.id);
+            if (attached && attached.match_reason !== 'origin') {
+                await dealMeetingsRepo.upsertMeeting({
+                    ...meeting,
+                    dealId: attached.deal_id,
+                    matchReason: attached.match_reason,
+                });
+                log.info('Attached meeting updated', { eventId: event.id, dealId: attached.deal_id });
+                continue;
+            }
+
+            // A meeting we haven't seen: attach it to an existing deal if it matches one
+            if (!attached && !(await dealsRepo.getDealByGcalEvent(tenantId, calendarId, event.id))) {
+                const match = await matchDealForMeeting(tenantId, {
+                    event,
+                    companyName: parsed.companyName,
+                    attendeeDomains: meeting.attendeeDomains,
+                });
+                if (match) {
+                    await attachMeetingToDeal(match.deal, meeting, parsed, match.reason, log);
+                    continue;
+                }
             }
 
             // Upsert deal (idempotent by calendarId + eventId)
@@ -99,7 +156,10 @@ export async function handleGcalSync(
                 companyName: parsed.companyName || undefined,
                 founderName: parsed.founderName || undefined,
                 source: 'gcal',
+                ownerEmail: calendar?.owner_email || undefined,
+                ownerName: calendar?.owner_name || undefined,
             });
+            await dealMeetingsRepo.upsertMeeting({ ...meeting, dealId: deal.id, matchReason: 'origin' });
 
             // If this is a new deal (no Asana task yet), create the full deal object
             if (!deal.asana_task_gid) {
@@ -109,8 +169,40 @@ export async function handleGcalSync(
                     founder: parsed.founderName,
                 });
 
-                await createDealObject(tenantId, deal.id, parsed);
+                await dealsRepo.updateDealMeeting(deal.id, parsed.meetingTime, 'scheduled');
+
+                // Before anything is created for the deal, so an auto-merge leaves no task, pages or jobs behind
+                let survivor: dealsRepo.Deal | null = null;
+                try {
+                    const { flagged, mergedInto } = await checkForDuplicates(deal.id);
+                    if (flagged.length > 0) {
+                        log.info('Possible duplicate deals flagged', {
+                            dealId: deal.id,
+                            candidates: flagged.map((c) => ({ dealId: c.deal.id, score: c.score })),
+                            mergedInto: mergedInto?.id ?? null,
+                        });
+                    }
+                    survivor = mergedInto;
+                } catch (err: any) {
+                    log.warn('Duplicate check failed', { dealId: deal.id, error: err.message });
+                }
+
+                if (survivor) {
+                    await attachMeetingToDeal(survivor, meeting, parsed, 'merged', log);
+                    continue;
+                }
+
+                await createDealObject(tenantId, deal.id, parsed, { email: deal.owner_email, name: deal.owner_name });
+                continue;
+            }
+
+            const change = detectMeetingChange(deal, false, parsed.meetingTime);
+            if (change) {
+                await applyMeetingChange(tenantId, deal, change, log);
             } else {
+                if (!deal.meeting_time && parsed.meetingTime) {
+                    await dealsRepo.updateDealMeeting(deal.id, parsed.meetingTime, 'scheduled');
+                }
                 log.info('Existing deal updated', {
                     dealId: deal.id,
                     asanaTask: deal.asana_task_gid,
@@ -1,17 +1,33 @@
+import crypto from 'crypto';
 import {
     logger,
-    LLMClient,
+    createLLMClient,
     NotionClient,
     dealsRepo,
     workflowRunsRepo,
+    researchResultsRepo,
+    memosRepo,
+    researchAgentsRepo,
     getSecret,
+    recordLLMUsage,
+    checkLLMBudget,
+    PermanentJobError,
 } from '@xfund/shared';
+import { postBudgetExceededNotice } from '../orchestrator/budget-notice.js';
+
+/** Heading the memo page is created with; everything below it is the current memo */
+const MEMO_SECTION_HEADING = 'Investment Committee Memo';
 
 /**
  * MEMO_GENERATE handler
- * Payload: { runId, dealId, companyName, founderName }
+ * Payload: { runId, dealId, companyName, founderName, regenerate? }
  *
  * Takes research outputs + meeting notes + template, produces IC memo blocks into Notion.
+ * With `regenerate` (a delayed re-run scheduled at IC_REVIEW), the memo is only rebuilt if the
+ * deal is still in `regenerate.stageKey` and the meeting notes changed since the last memo.
+ * Skipped with a Notion callout + Asana comment when the tenant's LLM budget is exhausted.
+ * The memo is also stored in the memos table along with the research rows it was built from.
+ * On the Notion memo page it replaces the placeholder or previous memo rather than being appended.
  */
 export async function handleMemoGenerate(
     tenantId: string,
@@ -20,9 +36,10 @@ export async function handleMemoGenerate(
         dealId: string;
         companyName: string;
         founderName: string;
+        regenerate?: { stageKey: string };
     }
 ): Promise<void> {
-    const { runId, dealId, companyName, founderName } = payload;
+    const { runId, dealId, companyName, founderName, regenerate } = payload;
     const log = logger.child({ tenantId, runId, dealId, jobType: 'MEMO_GENERATE' });
 
     // Check cancellation before starting
@@ -36,28 +53,81 @@ export async function handleMemoGenerate(
 
     const deal = await dealsRepo.getDealById(dealId);
     if (!deal) {
-        log.error('Deal not found', { dealId });
+        // Retrying can't make the deal appear; dead-letter so the job stays visible
+        throw new PermanentJobError(`Deal not found: ${dealId}`);
+    }
+
+    if (regenerate && deal.current_stage !== regenerate.stageKey) {
+        log.info('Deal has left the stage, skipping memo regeneration', { stage: deal.current_stage });
         return;
     }
 
     // Initialize clients
-    const llm = new LLMClient({
-        apiKey: await getSecret('OPENAI_API_KEY'),
-        model: process.env.LLM_MODEL || 'gpt-4o',
-    });
+    const llm = await createLLMClient();
+    const model = llm.model;
 
     const notion = new NotionClient({
         token: await getSecret('NOTION_TOKEN'),
         parentPageId: process.env.NOTION_PARENT_PAGE_ID || '',
     });
 
-    // Gather research data from Notion (simplified: use deal metadata)
-    // In a full implementation, we'd read the research page blocks
-    const researchSections: Record<string, string> = {
-        'Company': `${companyName}, founded by ${founderName}`,
-        'Stage': deal.current_stage,
-        'Source': deal.source,
-    };
+    const notionUrls = typeof deal.notion_urls === 'string'
+        ? JSON.parse(deal.notion_urls)
+        : deal.notion_urls;
+
+    // Gather the latest output of each research agent for this deal
+    const research = await researchResultsRepo.getLatestResultsForDeal(dealId);
+    const agents = await researchAgentsRepo.listAgents(tenantId);
+    const titles = new Map(agents.map((a) => [a.agent_key, a.title]));
+    const researchSections = research.map((r) => ({
+        title: titles.get(r.agent_key) || r.agent_key,
+        research: {
+            summary: r.summary,
+            claims: r.claims,
+            risks: r.risks,
+            openQuestions: r.open_questions,
+            confidence: r.confidence_score ?? 0,
+        },
+    }));
+
+    if (research.length === 0) {
+        log.warn('No stored research found for deal, memo will rely on meeting notes only');
+    } else {
+        log.info('Loaded research for memo', { agentCount: research.length });
+    }
+
+    // Fetch meeting notes from Notion if available
+    let meetingNotes = '';
+    if (notionUrls?.meetingNotes) {
+        try {
+            meetingNotes = await notion.getPageContent(extractPageId(notionUrls.meetingNotes));
+            log.info('Fetched meeting notes for memo', { length: meetingNotes.length });
+        } catch (err: any) {
+            log.warn('Failed to fetch meeting notes', { error: err.message });
+        }
+    }
+
+    const meetingNotesHash = meetingNotes
+        ? crypto.createHash('sha256').update(meetingNotes.trim()).digest('hex')
+        : null;
+    if (regenerate) {
+        const [previous] = await memosRepo.getMemosForDeal(dealId);
+        if (previous && previous.meeting_notes_hash === meetingNotesHash) {
+            log.info('Meeting notes unchanged since last memo, skipping regeneration');
+            return;
+        }
+    }
+
+    const budget = await checkLLMBudget(tenantId, dealId);
+    if (!budget.allowed) {
+        log.warn('LLM budget exceeded, skipping memo generation', {
+            scope: budget.scope,
+            limitUsd: budget.limitUsd,
+            spentUsd: budget.spentUsd,
+        });
+        await postBudgetExceededNotice(deal, budget, 'IC memo generation');
+        return;
+    }
 
     // Generate the memo
     const abortController = new AbortController();
@@ -78,20 +148,31 @@ export async function handleMemoGenerate(
             companyName,
             founderName,
             researchSections,
-            '', // Meeting notes
+            meetingNotes,
             abortController.signal
         );
 
+        await recordLLMUsage({ tenantId, runId, dealId, callType: 'memo' }, memo.usage);
+
         log.info('Memo generated', {
             title: memo.title,
             sectionCount: memo.sections.length,
         });
 
-        // Write memo to Notion
-        const notionUrls = typeof deal.notion_urls === 'string'
-            ? JSON.parse(deal.notion_urls)
-            : deal.notion_urls;
+        await memosRepo.createMemo({
+            tenantId,
+            dealId,
+            runId,
+            title: memo.title,
+            sections: memo.sections,
+            researchResultIds: research.map((r) => r.id),
+            researchRunIds: [...new Set(research.map((r) => r.workflow_run_id))],
+            meetingNotesIncluded: meetingNotes.length > 0,
+            meetingNotesHash,
+            model,
+        });
 
+        // Write memo to Notion
         const memoPageUrl = notionUrls?.memo;
         if (memoPageUrl) {
             const memoPageId = extractPageId(memoPageUrl);
@@ -113,7 +194,7 @@ export async function handleMemoGenerate(
             blocks.push(notion.divider());
             blocks.push(notion.callout('This memo was AI-generated. Please review and edit before IC presentation.', '⚠️'));
 
-            await notion.appendBlocks(memoPageId, blocks);
+            await notion.replaceSection(memoPageId, MEMO_SECTION_HEADING, blocks, []);
             log.info('Memo written to Notion');
         } else {
             log.warn('No memo page URL found for deal');
@@ -1,20 +1,31 @@
 import {
     logger,
-    LLMClient,
+    createLLMClient,
     NotionClient,
     dealsRepo,
     workflowRunsRepo,
+    researchResultsRepo,
     getSecret,
+    getResearchAgents,
+    recordLLMUsage,
+    runResearchCached,
+    checkLLMBudget,
+    type ResearchCacheMode,
 } from '@xfund/shared';
+import { postBudgetExceededNotice } from '../orchestrator/budget-notice.js';
 
 /**
  * RESEARCH_AGENT handler
- * Payload: { runId, agentKey, dealId, companyName, founderName }
+ * Payload: { runId, agentKey, dealId, companyName, founderName, additionalContext?, cacheMode? }
  *
+ * Re-runs a single agent (enqueued from the admin service). The job owns its workflow run.
  * 1. Check cancel_requested → exit early if true
- * 2. Run LLM-powered research for the agent key
- * 3. Write results to Notion research page
- * 4. Periodically check cancel_requested
+ * 2. Load meeting notes from Notion if no context was supplied
+ * 3. Run LLM-powered research for the agent key (cacheMode defaults to 'refresh': a rerun
+ *    bypasses the research cache and records what changed since the cached result)
+ * 4. Persist the result to research_results and record token usage
+ * 5. Replace the agent's section on the Notion research page
+ * 6. Periodically check cancel_requested
  */
 export async function handleResearchAgent(
     tenantId: string,
@@ -25,18 +36,62 @@ export async function handleResearchAgent(
         companyName: string;
         founderName: string;
         additionalContext?: string;
+        cacheMode?: ResearchCacheMode;
     }
 ): Promise<void> {
-    const { runId, agentKey, dealId, companyName, founderName, additionalContext } = payload;
+    const { runId, agentKey, dealId, companyName, founderName, additionalContext, cacheMode = 'refresh' } = payload;
     const log = logger.child({ tenantId, runId, agentKey, dealId, jobType: 'RESEARCH_AGENT' });
 
     // Check cancellation before starting
     const isCancelled = await workflowRunsRepo.isCancelRequested(runId);
     if (isCancelled) {
         log.info('Research agent cancelled before start');
+        await workflowRunsRepo.completeRun(runId, 'canceled');
         return;
     }
 
+    const agents = await getResearchAgents(tenantId);
+    const agent = agents.find((a) => a.key === agentKey);
+    if (!agent) {
+        log.warn('Research agent is unknown or disabled, skipping');
+        await workflowRunsRepo.completeRun(runId, 'failed', { error: `Unknown research agent key: ${agentKey}` });
+        return;
+    }
+
+    const deal = await dealsRepo.getDealById(dealId);
+
+    const budget = await checkLLMBudget(tenantId, dealId);
+    if (!budget.allowed) {
+        log.warn('LLM budget exceeded, skipping research agent', {
+            scope: budget.scope,
+            limitUsd: budget.limitUsd,
+            spentUsd: budget.spentUsd,
+        });
+        if (deal) await postBudgetExceededNotice(deal, budget, `Research (${agent.title})`);
+        await workflowRunsRepo.completeRun(runId, 'canceled', { reason: 'llm_budget', scope: budget.scope });
+        return;
+    }
+
+    const notionUrls = deal?.notion_urls
+        ? (typeof deal.notion_urls === 'string' ? JSON.parse(deal.notion_urls) : deal.notion_urls)
+        : {};
+
+    const notion = new NotionClient({
+        token: await getSecret('NOTION_TOKEN'),
+        parentPageId: process.env.NOTION_PARENT_PAGE_ID || '',
+    });
+
+    // Fall back to the Meeting Notes page when the caller didn't supply context
+    let context = additionalContext;
+    if (context === undefined && notionUrls.meetingNotes) {
+        try {
+            const notes = await notion.getPageContent(extractPageId(notionUrls.meetingNotes));
+            context = notes ? `Meeting Notes:\n${notes}` : '';
+        } catch (err: any) {
+            log.warn('Failed to fetch meeting notes', { error: err.message });
+        }
+    }
+
     log.info('Starting research agent', { agentKey, companyName });
 
     // Create AbortController for cancellation
@@ -57,92 +112,83 @@ export async function handleResearchAgent(
     }, 5000); // Check every 5 seconds
 
     try {
-        // Initialize LLM client (uses OpenAI Responses API with web search)
-        const llm = new LLMClient({
-            apiKey: await getSecret('OPENAI_API_KEY'),
-            model: process.env.LLM_MODEL || 'gpt-4o',
-        });
+        // Initialize LLM client (provider selected by LLM_PROVIDER)
+        const llm = await createLLMClient();
 
         // Run research
-        const result = await llm.runResearch(
-            agentKey,
+        const outcome = await runResearchCached(llm, agent, {
+            tenantId,
             companyName,
             founderName,
-            additionalContext || '', // Pass meeting notes context
-            abortController.signal
-        );
+            additionalContext: context, // Pass meeting notes context
+            mode: cacheMode,
+            signal: abortController.signal,
+        });
+        const { result } = outcome;
+
+        if (outcome.usage) {
+            await recordLLMUsage({ tenantId, runId, dealId, callType: 'research', agentKey }, outcome.usage);
+        }
 
         log.info('Research completed', {
             agentKey,
-            summaryLength: result.summary.length,
+            fromCache: outcome.fromCache,
+            claimCount: result.claims.length,
             confidence: result.confidenceScore,
         });
 
-        // Write results to Notion
-        const deal = await dealsRepo.getDealById(dealId);
-        if (deal?.notion_urls) {
-            const notionUrls = typeof deal.notion_urls === 'string'
-                ? JSON.parse(deal.notion_urls)
-                : deal.notion_urls;
-
-            const researchPageId = notionUrls.research;
-            if (researchPageId) {
-                try {
-                    const notion = new NotionClient({
-                        token: await getSecret('NOTION_TOKEN'),
-                        parentPageId: process.env.NOTION_PARENT_PAGE_ID || '',
-                    });
-
-                    const pageId = extractPageId(researchPageId);
-
-                    const agentTitle = formatAgentTitle(agentKey);
-
-                    // Parse LLM markdown into proper Notion blocks
-                    const contentBlocks = notion.markdownToBlocks(result.summary);
-
-                    await notion.appendBlocks(pageId, [
-                        notion.heading2(`${agentTitle}`),
-                        ...contentBlocks,
-                        ...(result.citations.length > 0
-                            ? [
-                                notion.heading3('Sources'),
-                                ...result.citations.map((c) =>
-                                    notion.bulletedList(`${c.title}${c.url ? ` — ${c.url}` : ''}`)
-                                ),
-                            ]
-                            : []),
-                        notion.divider(),
-                    ]);
-
-                    log.info('Research written to Notion', { agentKey });
-                } catch (err: any) {
-                    log.warn('Failed to write research to Notion', { error: err.message });
-                }
+        await researchResultsRepo.saveResult({
+            tenantId,
+            dealId,
+            runId,
+            agentKey,
+            summary: result.summary,
+            claims: result.claims,
+            risks: result.risks,
+            openQuestions: result.openQuestions,
+            citations: result.citations,
+            confidenceScore: result.confidenceScore,
+            model: outcome.model ?? undefined,
+            fromCache: outcome.fromCache,
+            refreshDiff: outcome.diff,
+        });
+
+        // Replace this agent's section on the research page
+        const researchPageId = notionUrls.research;
+        if (researchPageId) {
+            try {
+                const pageId = extractPageId(researchPageId);
+
+                await notion.replaceSection(
+                    pageId,
+                    agent.title,
+                    notion.researchBlocks(result, outcome),
+                    agents.map((a) => a.title)
+                );
+
+                log.info('Research section replaced in Notion', { agentKey });
+            } catch (err: any) {
+                log.warn('Failed to write research to Notion', { error: err.message });
             }
         }
+
+        await workflowRunsRepo.completeRun(runId, 'succeeded');
     } catch (err: any) {
         if (err.name === 'AbortError') {
             log.info('Research agent aborted due to cancellation');
+            await workflowRunsRepo.completeRun(runId, 'canceled');
             return;
         }
+        if (err.usage) {
+            await recordLLMUsage({ tenantId, runId, dealId, callType: 'research', agentKey }, err.usage);
+        }
+        await workflowRunsRepo.completeRun(runId, 'failed', { error: err.message });
         throw err;
     } finally {
         clearInterval(cancelCheckInterval);
     }
 }
 
-function formatAgentTitle(agentKey: string): string {
-    const titles: Record<string, string> = {
-        market_tam: 'Market & TAM Analysis',
-        competitors: 'Competitive Landscape',
-        founder_background: 'Founder Background',
-        risks_redflags: 'Risks & Red Flags',
-        product_defensibility: 'Product & Defensibility',
-        traction_signals: 'Traction Signals',
-    };
-    return titles[agentKey] || agentKey;
-}
-
 function extractPageId(urlOrId: string): string {
     // If it's a Notion URL, extract the page ID
     const match = urlOrId.match(/([a-f0-9]{32})/);
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { db, dealsRepo, workflowRunsRepo, researchResultsRepo, recordLLMUsage, notion } = vi.hoisted(() => ({
+    // Research cache and integration lookups go straight to the database client: always a miss
+    db: {
+        query: vi.fn(async () => []),
+        queryOne: vi.fn(async () => null),
+        execute: vi.fn(async () => 0),
+    },
+    dealsRepo: { getDealById: vi.fn() },
+    workflowRunsRepo: { isCancelRequested: vi.fn() },
+    researchResultsRepo: { saveResult: vi.fn() },
+    recordLLMUsage: vi.fn(),
+    notion: {
+        appendBlocks: vi.fn(),
+        heading2: (text: string) => ({ type: 'heading_2', text }),
+        researchBlocks: (result: any) => [{ type: 'paragraph', text: result.summary }],
+    },
+}));
+
+vi.mock('../../../../packages/shared/src/db/client.js', async (importOriginal) => ({
+    ...(await importOriginal<object>()),
+    ...db,
+}));
+
+vi.mock('@xfund/shared', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('@xfund/shared')>();
+    const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    return {
+        ...actual,
+        logger: { ...log, child: () => log },
+        dealsRepo,
+        workflowRunsRepo,
+        researchResultsRepo,
+        recordLLMUsage,
+        getSecret: vi.fn(async () => 'secret'),
+        checkLLMBudget: vi.fn(async () => ({ allowed: true })),
+        getResearchAgents: vi.fn(async () => actual.DEFAULT_RESEARCH_AGENTS.slice(0, 2)),
+        NotionClient: vi.fn(() => notion),
+    };
+});
+
+import { handleResearchBatch } from './research-batch.js';
+
+describe('handleResearchBatch with the fake LLM provider', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.stubEnv('LLM_PROVIDER', 'fake');
+        workflowRunsRepo.isCancelRequested.mockResolvedValue(false);
+        dealsRepo.getDealById.mockResolvedValue({
+            id: 'deal-1',
+            notion_urls: { research: 'https://www.notion.so/Research-0123456789abcdef0123456789abcdef' },
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('researches, persists and writes every agent in order', async () => {
+        await handleResearchBatch('tenant-1', {
+            runId: 'run-1',
+            dealId: 'deal-1',
+            companyName: 'Acme Robotics',
+            founderName: 'Jane Doe',
+        });
+
+        // Looked up, missed, then filled the research cache for both agents
+        expect(db.queryOne).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO research_cache'), expect.anything());
+        expect(researchResultsRepo.saveResult).toHaveBeenCalledTimes(2);
+        const saved = researchResultsRepo.saveResult.mock.calls.map(([row]) => row);
+        expect(saved.map((r) => r.agentKey)).toEqual(['market_tam', 'competitors']);
+        for (const row of saved) {
+            expect(row).toMatchObject({ tenantId: 'tenant-1', dealId: 'deal-1', runId: 'run-1', fromCache: false });
+            expect(row.summary).toContain('Acme Robotics');
+            expect(row.claims).toHaveLength(2);
+            expect(row.risks).toEqual([{ category: 'Execution', rating: 'Medium', rationale: 'Canned risk rating' }]);
+        }
+
+        expect(recordLLMUsage).toHaveBeenCalledTimes(2);
+        expect(recordLLMUsage).toHaveBeenCalledWith(
+            expect.objectContaining({ callType: 'research', agentKey: 'market_tam' }),
+            expect.objectContaining({ provider: 'fake' })
+        );
+
+        const pageIds = notion.appendBlocks.mock.calls.map(([pageId]) => pageId);
+        expect(pageIds).toEqual(['0123456789abcdef0123456789abcdef', '0123456789abcdef0123456789abcdef']);
+        const headings = notion.appendBlocks.mock.calls.map(([, blocks]) => blocks[0].text);
+        expect(headings).toEqual(['Market & TAM Analysis', 'Competitive Landscape']);
+    });
+
+    it('does nothing once the run is cancelled', async () => {
+        workflowRunsRepo.isCancelRequested.mockResolvedValue(true);
+
+        await handleResearchBatch('tenant-1', {
+            runId: 'run-1',
+            dealId: 'deal-1',
+            companyName: 'Acme Robotics',
+            founderName: 'Jane Doe',
+        });
+
+        expect(researchResultsRepo.saveResult).not.toHaveBeenCalled();
+        expect(notion.appendBlocks).not.toHaveBeenCalled();
+    });
+});
@@ -1,28 +1,29 @@
 import {
     logger,
-    LLMClient,
+    createLLMClient,
     NotionClient,
     dealsRepo,
     workflowRunsRepo,
+    researchResultsRepo,
     getSecret,
+    getResearchAgents,
+    recordLLMUsage,
+    checkLLMBudget,
+    runResearchCached,
+    type ResearchCacheMode,
 } from '@xfund/shared';
-
-const RESEARCH_ORDER = [
-    'market_tam',
-    'competitors',
-    'founder_background',
-    'risks_redflags',
-    'product_defensibility',
-    'traction_signals',
-];
+import { postBudgetExceededNotice } from '../orchestrator/budget-notice.js';
 
 /**
  * RESEARCH_BATCH handler
- * Payload: { runId, dealId, companyName, founderName, additionalContext }
+ * Payload: { runId, dealId, companyName, founderName, additionalContext, cacheMode? }
  *
- * 1. Spawn all 6 research agents in PARALLEL
+ * 0. Skip the batch (and notify Notion + Asana) if the tenant's LLM budget is exhausted
+ * 1. Spawn the tenant's enabled research agents (from the registry) in PARALLEL,
+ *    reusing cached results for the same company/founder unless cacheMode is 'refresh'
  * 2. Wait for all to finish (Promise.allSettled)
- * 3. Write results to Notion in STRICT ORDER
+ * 3. Persist results to research_results (token usage is recorded per agent call)
+ * 4. Write results to Notion in STRICT ORDER
  */
 export async function handleResearchBatch(
     tenantId: string,
@@ -32,9 +33,10 @@ export async function handleResearchBatch(
         companyName: string;
         founderName: string;
         additionalContext?: string;
+        cacheMode?: ResearchCacheMode;
     }
 ): Promise<void> {
-    const { runId, dealId, companyName, founderName, additionalContext } = payload;
+    const { runId, dealId, companyName, founderName, additionalContext, cacheMode } = payload;
     const log = logger.child({ tenantId, runId, dealId, jobType: 'RESEARCH_BATCH' });
 
     // Check cancellation
@@ -44,7 +46,20 @@ export async function handleResearchBatch(
         return;
     }
 
-    log.info('Starting research batch (6 parallel agents)', { companyName });
+    const budget = await checkLLMBudget(tenantId, dealId);
+    if (!budget.allowed) {
+        log.warn('LLM budget exceeded, skipping research batch', {
+            scope: budget.scope,
+            limitUsd: budget.limitUsd,
+            spentUsd: budget.spentUsd,
+        });
+        const deal = await dealsRepo.getDealById(dealId);
+        if (deal) await postBudgetExceededNotice(deal, budget, 'Automated research');
+        return;
+    }
+
+    const agents = await getResearchAgents(tenantId);
+    log.info(`Starting research batch (${agents.length} parallel agents)`, { companyName });
 
     // Create AbortController
     const abortController = new AbortController();
@@ -60,33 +75,63 @@ export async function handleResearchBatch(
 
     try {
         // Initialize LLM client
-        const llm = new LLMClient({
-            apiKey: await getSecret('OPENAI_API_KEY'),
-            model: process.env.LLM_MODEL || 'gpt-4o',
-        });
+        const llm = await createLLMClient();
 
         // 1. Launch all agents in parallel
-        const promises = RESEARCH_ORDER.map(async (agentKey) => {
+        const promises = agents.map(async (agent) => {
+            const agentKey = agent.key;
             try {
-                const result = await llm.runResearch(
-                    agentKey,
+                const outcome = await runResearchCached(llm, agent, {
+                    tenantId,
                     companyName,
                     founderName,
-                    additionalContext || '',
-                    abortController.signal
-                );
-                return { agentKey, result, success: true };
+                    additionalContext,
+                    mode: cacheMode,
+                    signal: abortController.signal,
+                });
+                if (outcome.usage) {
+                    await recordLLMUsage({ tenantId, runId, dealId, callType: 'research', agentKey }, outcome.usage);
+                }
+                return { agent, outcome, success: true };
             } catch (err: any) {
                 log.error(`Agent failed: ${agentKey}`, { error: err.message });
-                return { agentKey, error: err, success: false };
+                // Output that failed validation was still billed
+                if (err.usage) {
+                    await recordLLMUsage({ tenantId, runId, dealId, callType: 'research', agentKey }, err.usage);
+                }
+                return { agent, error: err, success: false };
             }
         });
 
         // 2. Wait for all
         const results = await Promise.all(promises);
-        log.info('All research agents finished');
+        log.info('All research agents finished', {
+            cacheHits: results.filter((r) => r.outcome?.fromCache).length,
+        });
+
+        // 3. Persist successful results
+        for (const item of results) {
+            if (item.success && item.outcome) {
+                const { result } = item.outcome;
+                await researchResultsRepo.saveResult({
+                    tenantId,
+                    dealId,
+                    runId,
+                    agentKey: item.agent.key,
+                    summary: result.summary,
+                    claims: result.claims,
+                    risks: result.risks,
+                    openQuestions: result.openQuestions,
+                    citations: result.citations,
+                    confidenceScore: result.confidenceScore,
+                    model: item.outcome.model ?? undefined,
+                    fromCache: item.outcome.fromCache,
+                    refreshDiff: item.outcome.diff,
+                });
+            }
+        }
 
-        // 3. Write to Notion in strict order
+        // 4. Write to Notion in strict order
         const deal = await dealsRepo.getDealById(dealId);
         if (deal?.notion_urls) {
             const notionUrls = typeof deal.notion_urls === 'string'
@@ -104,26 +149,16 @@ export async function handleResearchBatch(
 
                 // Write each successful result in order
                 for (const item of results) {
-                    if (item.success && item.result) {
-                        const agentTitle = formatAgentTitle(item.agentKey!);
-                        const contentBlocks = notion.markdownToBlocks(item.result.summary);
+                    if (item.success && item.outcome) {
+                        const agentTitle = item.agent.title;
 
                         try {
                             await notion.appendBlocks(pageId, [
                                 notion.heading2(`${agentTitle}`),
-                                ...contentBlocks,
-                                ...(item.result.citations.length > 0
-                                    ? [
-                                        notion.heading3('Sources'),
-                                        ...item.result.citations.map((c) =>
-                                            notion.bulletedList(`${c.title}${c.url ? ` — ${c.url}` : ''}`)
-                                        ),
-                                    ]
-                                    : []),
-                                notion.divider(),
+                                ...notion.researchBlocks(item.outcome.result, item.outcome),
                             ]);
                         } catch (err: any) {
-                            log.warn(`Failed to write section ${item.agentKey}`, { error: err.message });
+                            log.warn(`Failed to write section ${item.agent.key}`, { error: err.message });
                         }
                     }
                 }
@@ -139,18 +174,6 @@ export async function handleResearchBatch(
     }
 }
 
-function formatAgentTitle(agentKey: string): string {
-    const titles: Record<string, string> = {
-        market_tam: 'Market & TAM Analysis',
-        competitors: 'Competitive Landscape',
-        founder_background: 'Founder Background',
-        risks_redflags: 'Risks & Red Flags',
-        product_defensibility: 'Product & Defensibility',
-        traction_signals: 'Traction Signals',
-    };
-    return titles[agentKey] || agentKey;
-}
-
 function extractPageId(urlOrId: string): string {
     const match = urlOrId.match(/([a-f0-9]{32})/);
     return match ? match[1] : urlOrId;
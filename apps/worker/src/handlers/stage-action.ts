@@ -7,20 +7,45 @@ import {
     AsanaClient,
     NotionClient,
     getSecret,
-    type StageKey,
+    getResearchAgents,
+    getPipelineStage,
+    getStagePlaybook,
+    pipelineStagesRepo,
+    type StageBehaviour,
 } from '@xfund/shared';
+import { runStagePlaybook } from '../orchestrator/playbook-runner.js';
+import { buildResearchContext } from '../orchestrator/research-context.js';
 
 const tasksEnqueuer = createTasksEnqueuer();
 
+/** Days after entering a first_meeting stage before a follow-up subtask is added (0 disables) */
+const FOLLOW_UP_REMINDER_DAYS = parseFloat(process.env.FOLLOW_UP_REMINDER_DAYS || '7');
+/** Hours after entering an ic_review stage to rebuild the memo if meeting notes changed (0 disables) */
+const MEMO_REGEN_DELAY_HOURS = parseFloat(process.env.MEMO_REGEN_DELAY_HOURS || '24');
+/** Seconds between per-agent research jobs; 0 runs all agents in one parallel batch */
+const RESEARCH_STAGGER_SECONDS = parseFloat(process.env.RESEARCH_STAGGER_SECONDS || '0');
+
+type PipelineStage = pipelineStagesRepo.PipelineStage;
+type BehaviourHandler = (
+    tenantId: string,
+    deal: any,
+    taskGid: string,
+    runId: string,
+    stage: PipelineStage,
+    log: any
+) => Promise<void>;
+
 /**
  * STAGE_ACTION handler
  * Payload: { taskGid, stageKey, sectionGid, modifiedAt, previousStage? }
+ * Duplicate deliveries are dropped by the dispatcher (idempotencyRepo.stageActionKey).
  *
- * Dispatches to stage-specific automation:
- * - FIRST_MEETING: Notion pages, prep subtasks
- * - IN_DILIGENCE: parallel research agents, human subtasks
- * - IC_REVIEW: memo draft, checklist
- * - PASS: cancel running workflows, finalize
+ * Runs the behaviours configured on the tenant's stage (pipeline_stages), in order:
+ * - first_meeting: task notes, follow-up reminder a week later
+ * - diligence: parallel (or staggered) research agents
+ * - ic_review: memo draft (re-generated later if notes land)
+ * - close_out: cancel running workflows, complete the task
+ * then applies the stage's playbook (subtasks, Notion callouts, jobs; see stage_playbooks).
  */
 export async function handleStageAction(
     tenantId: string,
@@ -35,20 +60,24 @@ export async function handleStageAction(
     const { taskGid, stageKey, sectionGid, modifiedAt, previousStage } = payload;
     const log = logger.child({ tenantId, taskGid, stageKey, jobType: 'STAGE_ACTION' });
 
-    // Idempotency check
-    const idemKey = idempotencyRepo.stageActionKey(taskGid, sectionGid, modifiedAt);
-    const isNew = await idempotencyRepo.claimKey(idemKey);
-    if (!isNew) {
-        log.info('Duplicate stage action, skipping');
-        return;
-    }
-
     // Find the deal by Asana task GID
     const deal = await dealsRepo.getDealByAsanaTask(taskGid);
     if (!deal) {
         log.warn('No deal found for task, skipping stage action');
         return;
     }
+    if (deal.merged_into_deal_id) {
+        log.info('Deal was merged into another, skipping stage action', { mergedInto: deal.merged_into_deal_id });
+        return;
+    }
+
+    const stage = await getPipelineStage(tenantId, stageKey);
+    if (!stage) {
+        log.warn('Stage is not configured or is disabled, skipping stage action');
+        return;
+    }
+
+    const playbook = await getStagePlaybook(tenantId, stageKey);
 
     // Update deal stage
     await dealsRepo.updateDealStage(deal.id, stageKey);
@@ -61,30 +90,19 @@ export async function handleStageAction(
                 parentPageId: process.env.NOTION_PARENT_PAGE_ID || '',
             });
 
-            const statusMap: Record<string, string> = {
-                FIRST_MEETING: 'Idle',
-                IN_DILIGENCE: 'Active',
-                IC_REVIEW: 'Reviewing',
-                PASS: 'Passed',
-                ARCHIVE: 'Archived',
-            };
-
             await notion.updateDealStatus(
                 deal.notion_deal_page_id,
                 stageKey,
-                statusMap[stageKey] || 'Unknown'
+                playbook.statusLabel || stage.notion_status
             );
         } catch (err: any) {
             log.warn('Failed to sync status to Notion', { error: err.message });
         }
     }
 
-    // If leaving IN_DILIGENCE or entering PASS, cancel any running workflows
-    if (
-        previousStage === 'IN_DILIGENCE' ||
-        stageKey === 'PASS' ||
-        stageKey === 'ARCHIVE'
-    ) {
+    // Cancel running workflows when leaving a stage that owns them (e.g. diligence) or entering a terminal one
+    const previous = previousStage ? await pipelineStagesRepo.getStage(tenantId, previousStage) : null;
+    if (previous?.cancel_on_exit || stage.cancel_on_enter) {
         const cancelledCount = await workflowRunsRepo.requestCancellation(deal.id);
         if (cancelledCount > 0) {
             log.info('Cancelled running workflows', { cancelledCount });
@@ -102,26 +120,26 @@ export async function handleStageAction(
     log.info('Workflow run created', { runId: run.id, stageKey });
 
     try {
-        switch (stageKey as StageKey) {
-            case 'FIRST_MEETING':
-                await handleFirstMeeting(tenantId, deal, taskGid, run.id, log);
-                break;
-            case 'IN_DILIGENCE':
-                await handleInDiligence(tenantId, deal, taskGid, run.id, log);
-                break;
-            case 'IC_REVIEW':
-                await handleICReview(tenantId, deal, taskGid, run.id, log);
-                break;
-            case 'PASS':
-                await handlePass(tenantId, deal, taskGid, run.id, log);
-                break;
-            case 'ARCHIVE':
-                await handlePass(tenantId, deal, taskGid, run.id, log); // Same as PASS
-                break;
-            default:
-                log.warn('Unknown stage key', { stageKey });
+        for (const behaviour of stage.behaviours) {
+            const handler = STAGE_BEHAVIOUR_HANDLERS[behaviour as StageBehaviour];
+            if (!handler) {
+                log.warn('Unknown stage behaviour', { behaviour });
+                continue;
+            }
+            await handler(tenantId, deal, taskGid, run.id, stage, log);
         }
 
+        await runStagePlaybook({
+            tenantId,
+            deal,
+            taskGid,
+            runId: run.id,
+            stageKey,
+            playbook,
+            researchStarted: stage.behaviours.includes('diligence'),
+            log,
+        });
+
         await workflowRunsRepo.completeRun(run.id, 'succeeded');
         log.info('Workflow run completed', { runId: run.id });
     } catch (err: any) {
@@ -135,6 +153,7 @@ async function handleFirstMeeting(
     deal: any,
     taskGid: string,
     runId: string,
+    stage: PipelineStage,
     log: any
 ): Promise<void> {
     const asana = new AsanaClient({ token: await getSecret('ASANA_TOKEN') });
@@ -144,32 +163,29 @@ async function handleFirstMeeting(
         log.warn('No Notion workspace for deal — it should have been created on deal insert');
     }
 
-    // Create prep subtasks in Asana
-    const subtasks = [
-        'Review company website & product',
-        'Research founder background',
-        'Prepare meeting agenda & questions',
-        'Check for existing portfolio conflicts',
-    ];
-
-    for (const name of subtasks) {
-        try {
-            await asana.createSubtask(taskGid, name);
-        } catch (err: any) {
-            log.warn('Failed to create subtask', { name, error: err.message });
-        }
-    }
-
     // Update Asana task status
     try {
         await asana.updateTask(taskGid, {
-            notes: `${deal.company_name || 'Deal'} — First Meeting\n\nNotion: ${deal.notion_urls?.dealHome || 'N/A'}`,
+            notes: `${deal.company_name || 'Deal'} — ${stage.title}\n\nNotion: ${deal.notion_urls?.dealHome || 'N/A'}`,
         });
     } catch (err: any) {
         log.warn('Failed to update task notes', { error: err.message });
     }
 
-    log.info('FIRST_MEETING stage actions completed');
+    if (FOLLOW_UP_REMINDER_DAYS > 0) {
+        await tasksEnqueuer.enqueueAfter(
+            {
+                jobType: 'FOLLOW_UP_REMINDER',
+                tenantId,
+                payload: { dealId: deal.id, stageKey: stage.stage_key, days: FOLLOW_UP_REMINDER_DAYS },
+                idempotencyKey: idempotencyRepo.runJobKey('FOLLOW_UP_REMINDER', runId),
+            },
+            FOLLOW_UP_REMINDER_DAYS * 86400
+        );
+        log.info('Follow-up reminder scheduled', { days: FOLLOW_UP_REMINDER_DAYS });
+    }
+
+    log.info('first_meeting stage behaviour completed');
 }
 
 async function handleInDiligence(
@@ -177,40 +193,11 @@ async function handleInDiligence(
     deal: any,
     taskGid: string,
     runId: string,
+    stage: PipelineStage,
     log: any
 ): Promise<void> {
-    const asana = new AsanaClient({ token: await getSecret('ASANA_TOKEN') });
-
-    // Fetch meeting notes from Notion if available
-    let additionalContext = '';
-    if (deal.notion_urls) {
-        try {
-            const notionUrls = typeof deal.notion_urls === 'string'
-                ? JSON.parse(deal.notion_urls)
-                : deal.notion_urls;
-
-            const meetingNotesUrl = notionUrls.meetingNotes;
-            if (meetingNotesUrl) {
-                const notion = new NotionClient({
-                    token: await getSecret('NOTION_TOKEN'),
-                    parentPageId: process.env.NOTION_PARENT_PAGE_ID || '',
-                });
-
-                // Extract page ID from URL
-                const match = meetingNotesUrl.match(/([a-f0-9]{32})/);
-                if (match) {
-                    const pageId = match[1];
-                    const notes = await notion.getPageContent(pageId);
-                    if (notes) {
-                        additionalContext = `Meeting Notes:\n${notes}`;
-                        log.info('Fetched meeting notes for context', { length: notes.length });
-                    }
-                }
-            }
-        } catch (err: any) {
-            log.warn('Failed to fetch meeting notes', { error: err.message });
-        }
-    }
+    // Meeting notes from Notion, if available
+    const additionalContext = await buildResearchContext(deal, log);
 
     // Clear the research page before spawning agents (remove placeholders)
     if (deal.notion_urls) {
@@ -236,39 +223,59 @@ async function handleInDiligence(
         }
     }
 
-    // Spawn parallel research batch
-    await tasksEnqueuer.enqueue({
-        jobType: 'RESEARCH_BATCH',
-        tenantId,
-        payload: {
-            runId,
-            dealId: deal.id,
-            companyName: deal.company_name || 'Unknown Company',
-            founderName: deal.founder_name || 'Unknown Founder',
-            additionalContext, // Pass notes to agent
-        },
-    });
-
-    log.info('Research batch spawned');
-
-    // Create human diligence subtasks
-    const humanSubtasks = [
-        'Deep-dive product demo / trial',
-        'Customer reference calls (2-3)',
-        'Financial model review',
-        'Legal / IP review',
-        'Technical architecture review',
-    ];
-
-    for (const name of humanSubtasks) {
-        try {
-            await asana.createSubtask(taskGid, name);
-        } catch (err: any) {
-            log.warn('Failed to create human subtask', { name, error: err.message });
+    if (RESEARCH_STAGGER_SECONDS > 0) {
+        // One job per agent, spaced out to stay under provider rate limits.
+        // Each gets its own workflow run, like an admin rerun.
+        const agents = await getResearchAgents(tenantId);
+        for (const [i, agent] of agents.entries()) {
+            const agentRun = await workflowRunsRepo.createRun({
+                tenantId,
+                dealId: deal.id,
+                taskGid,
+                stageKey: stage.stage_key,
+                meta: { trigger: 'staggered_research', parentRunId: runId, agentKey: agent.key },
+            });
+            await tasksEnqueuer.enqueueAfter(
+                {
+                    jobType: 'RESEARCH_AGENT',
+                    tenantId,
+                    payload: {
+                        runId: agentRun.id,
+                        agentKey: agent.key,
+                        dealId: deal.id,
+                        companyName: deal.company_name || 'Unknown Company',
+                        founderName: deal.founder_name || 'Unknown Founder',
+                        additionalContext,
+                        cacheMode: 'reuse',
+                    },
+                    idempotencyKey: idempotencyRepo.runJobKey('RESEARCH_AGENT', agentRun.id),
+                },
+                i * RESEARCH_STAGGER_SECONDS
+            );
         }
+        log.info('Staggered research jobs scheduled', {
+            agentCount: agents.length,
+            staggerSeconds: RESEARCH_STAGGER_SECONDS,
+        });
+    } else {
+        // Spawn parallel research batch
+        await tasksEnqueuer.enqueue({
+            jobType: 'RESEARCH_BATCH',
+            tenantId,
+            payload: {
+                runId,
+                dealId: deal.id,
+                companyName: deal.company_name || 'Unknown Company',
+                founderName: deal.founder_name || 'Unknown Founder',
+                additionalContext, // Pass notes to agent
+            },
+            idempotencyKey: idempotencyRepo.runJobKey('RESEARCH_BATCH', runId),
+        });
+
+        log.info('Research batch spawned');
     }
 
-    log.info('IN_DILIGENCE stage actions completed');
+    log.info('diligence stage behaviour completed');
 }
 
 async function handleICReview(
@@ -276,40 +283,38 @@ async function handleICReview(
     deal: any,
     taskGid: string,
     runId: string,
+    stage: PipelineStage,
     log: any
 ): Promise<void> {
-    const asana = new AsanaClient({ token: await getSecret('ASANA_TOKEN') });
-
     // Generate IC memo
+    const memoPayload = {
+        runId,
+        dealId: deal.id,
+        companyName: deal.company_name || 'Unknown Company',
+        founderName: deal.founder_name || 'Unknown Founder',
+    };
     await tasksEnqueuer.enqueue({
         jobType: 'MEMO_GENERATE',
         tenantId,
-        payload: {
-            runId,
-            dealId: deal.id,
-            companyName: deal.company_name || 'Unknown Company',
-            founderName: deal.founder_name || 'Unknown Founder',
-        },
+        payload: memoPayload,
+        idempotencyKey: idempotencyRepo.runJobKey('MEMO_GENERATE', runId),
     });
 
-    // Create checklist subtasks
-    const checklistItems = [
-        'IC Memo draft completed',
-        'All research sections reviewed',
-        'Financial model finalized',
-        'Term sheet draft (if proceed)',
-        'IC presentation prepared',
-    ];
-
-    for (const name of checklistItems) {
-        try {
-            await asana.createSubtask(taskGid, name);
-        } catch (err: any) {
-            log.warn('Failed to create checklist subtask', { name, error: err.message });
-        }
+    // Notes from the IC discussion usually land after the first draft: rebuild once they do
+    if (MEMO_REGEN_DELAY_HOURS > 0) {
+        await tasksEnqueuer.enqueueAfter(
+            {
+                jobType: 'MEMO_GENERATE',
+                tenantId,
+                payload: { ...memoPayload, regenerate: { stageKey: stage.stage_key } },
+                idempotencyKey: idempotencyRepo.runJobKey('MEMO_GENERATE', runId, 'regenerate'),
+            },
+            MEMO_REGEN_DELAY_HOURS * 3600
+        );
+        log.info('Memo regeneration scheduled', { delayHours: MEMO_REGEN_DELAY_HOURS });
     }
 
-    log.info('IC_REVIEW stage actions completed');
+    log.info('ic_review stage behaviour completed');
 }
 
 async function handlePass(
@@ -317,6 +322,7 @@ async function handlePass(
     deal: any,
     taskGid: string,
     runId: string,
+    stage: PipelineStage,
     log: any
 ): Promise<void> {
     const asana = new AsanaClient({ token: await getSecret('ASANA_TOKEN') });
@@ -324,23 +330,6 @@ async function handlePass(
     // Cancel any running workflows (already done above, but double-check)
     await workflowRunsRepo.requestCancellation(deal.id);
 
-    // Update Notion status
-    if (deal.notion_deal_page_id) {
-        try {
-            const notion = new NotionClient({
-                token: await getSecret('NOTION_TOKEN'),
-                parentPageId: process.env.NOTION_PARENT_PAGE_ID || '',
-            });
-
-            await notion.appendBlocks(deal.notion_deal_page_id, [
-                notion.divider(),
-                notion.callout('This deal has been PASSED.', '🛑'),
-            ]);
-        } catch (err: any) {
-            log.warn('Failed to update Notion', { error: err.message });
-        }
-    }
-
     // Mark Asana task as completed
     try {
         await asana.updateTask(taskGid, { completed: true });
@@ -348,5 +337,12 @@ async function handlePass(
         log.warn('Failed to complete Asana task', { error: err.message });
     }
 
-    log.info('PASS stage actions completed');
+    log.info('close_out stage behaviour completed');
 }
+
+const STAGE_BEHAVIOUR_HANDLERS: Record<StageBehaviour, BehaviourHandler> = {
+    first_meeting: handleFirstMeeting,
+    diligence: handleInDiligence,
+    ic_review: handleICReview,
+    close_out: handlePass,
+};
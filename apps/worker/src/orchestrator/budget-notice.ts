@@ -0,0 +1,43 @@
+import {
+    logger,
+    AsanaClient,
+    NotionClient,
+    dealsRepo,
+    getSecret,
+    type LLMBudgetCheck,
+} from '@xfund/shared';
+
+/**
+ * Tell the deal team that LLM work was skipped because a spend cap was hit:
+ * a callout on the Notion deal page and a comment on the Asana task.
+ * Both are best-effort; failures are logged and swallowed.
+ */
+export async function postBudgetExceededNotice(
+    deal: dealsRepo.Deal,
+    check: Extract<LLMBudgetCheck, { allowed: false }>,
+    skipped: string
+): Promise<void> {
+    const log = logger.child({ tenantId: deal.tenant_id, dealId: deal.id, budgetScope: check.scope });
+    const text = `${skipped} was skipped. ${check.message} Raise the limit in the LLM integration settings and re-run to continue.`;
+
+    if (deal.notion_deal_page_id) {
+        try {
+            const notion = new NotionClient({
+                token: await getSecret('NOTION_TOKEN'),
+                parentPageId: process.env.NOTION_PARENT_PAGE_ID || '',
+            });
+            await notion.appendBlocks(deal.notion_deal_page_id, [notion.callout(text, '💸')]);
+        } catch (err: any) {
+            log.warn('Failed to post budget notice to Notion', { error: err.message });
+        }
+    }
+
+    if (deal.asana_task_gid) {
+        try {
+            const asana = new AsanaClient({ token: await getSecret('ASANA_TOKEN') });
+            await asana.addComment(deal.asana_task_gid, text);
+        } catch (err: any) {
+            log.warn('Failed to post budget notice to Asana', { error: err.message });
+        }
+    }
+}
@@ -4,6 +4,8 @@ import {
     NotionClient,
     dealsRepo,
     pipelineSectionsRepo,
+    selectPipelineForDeal,
+    getEntryStage,
     getSecret,
 } from '@xfund/shared';
 
@@ -18,19 +20,24 @@ interface ParsedEvent {
 
 /**
  * Creates a full "Deal Object":
- * 1. Asana task in the FIRST_MEETING section with template fields
+ * 1. Asana task in the entry stage's section of the selected pipeline project
  * 2. Notion deal workspace (Deal Home + 5 child pages)
  * 3. Cross-links: Notion URL in Asana notes, all IDs stored in deals table
+ * The owning partner (from the watched calendar), if known, is shown on both.
  */
 export async function createDealObject(
     tenantId: string,
     dealId: string,
-    parsed: ParsedEvent
+    parsed: ParsedEvent,
+    owner?: { email: string | null; name: string | null }
 ): Promise<void> {
     const log = logger.child({ tenantId, dealId, jobType: 'DEAL_CREATE' });
     const company = parsed.companyName || 'Unknown Company';
     const founder = parsed.founderName || 'Unknown Founder';
     const taskName = `${company} — ${founder}`;
+    const partner = owner?.name && owner.email
+        ? `${owner.name} (${owner.email})`
+        : owner?.name || owner?.email || undefined;
 
     log.info('Creating deal object', { company, founder });
 
@@ -47,6 +54,7 @@ export async function createDealObject(
             meetingLink: parsed.meetingLink || undefined,
             attendees: parsed.attendees,
             source: 'GCal / Calendly',
+            partner,
         });
 
         log.info('Notion workspace created', {
@@ -70,14 +78,23 @@ export async function createDealObject(
             token: await getSecret('ASANA_TOKEN'),
         });
 
-        const projectGid = process.env.ASANA_PIPELINE_PROJECT_GID || process.env.ASANA_PROJECT_GID || '';
-
-        // Find FIRST_MEETING section
-        const firstMeetingSection = await pipelineSectionsRepo.getSectionForStage(
+        const pipeline = await selectPipelineForDeal(
             tenantId,
-            projectGid,
-            'FIRST_MEETING'
+            [parsed.companyName, parsed.description].filter(Boolean).join('\n')
         );
+        if (!pipeline) {
+            throw new Error('No Asana pipeline configured for tenant');
+        }
+        const projectGid = pipeline.project_gid;
+
+        // Find the entry stage's section (FIRST_MEETING unless the tenant configured otherwise)
+        const entryStage = await getEntryStage(tenantId);
+        const entrySection = entryStage
+            ? await pipelineSectionsRepo.getSectionForStage(tenantId, projectGid, entryStage.stage_key)
+            : null;
+        if (entryStage) {
+            await dealsRepo.updateDealStage(dealId, entryStage.stage_key);
+        }
 
         // Build task notes
         const noteLines = [
@@ -86,6 +103,9 @@ export async function createDealObject(
             `📅 Source: GCal / Calendly`,
         ];
 
+        if (partner) {
+            noteLines.push(`🤝 Partner: ${partner}`);
+        }
         if (parsed.meetingTime) {
             noteLines.push(`🕐 Meeting: ${parsed.meetingTime}`);
         }
@@ -111,15 +131,15 @@ export async function createDealObject(
 
         const task = await asana.createTask({
             projectGid,
-            sectionGid: firstMeetingSection || undefined,
+            sectionGid: entrySection || undefined,
             name: taskName,
             notes: noteLines.join('\n'),
         });
 
-        log.info('Asana task created', { taskGid: task.gid });
+        log.info('Asana task created', { taskGid: task.gid, pipeline: pipeline.name });
 
         // Store Asana task GID in deals table
-        await dealsRepo.updateDealAsana(dealId, task.gid);
+        await dealsRepo.updateDealAsana(dealId, task.gid, projectGid);
     } catch (err: any) {
         log.error('Failed to create Asana task', { error: err.message });
     }
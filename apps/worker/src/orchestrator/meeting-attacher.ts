@@ -0,0 +1,71 @@
+import {
+    AsanaClient,
+    NotionClient,
+    dealsRepo,
+    dealMeetingsRepo,
+    getSecret,
+} from '@xfund/shared';
+
+const MEETING_NOTES_TITLE = '📝 Meeting Notes';
+
+/**
+ * Attach a later calendar meeting to an existing deal instead of creating a new one:
+ * record it in deal_meetings, append it to the deal's Meeting Notes page and comment on the Asana task.
+ * The row is written first, so a retried sync sees the meeting as attached and doesn't append it twice.
+ * Notion and Asana failures are logged and skipped.
+ */
+export async function attachMeetingToDeal(
+    deal: dealsRepo.Deal,
+    meeting: Omit<dealMeetingsRepo.UpsertMeetingInput, 'dealId' | 'matchReason'>,
+    details: { meetingLink: string | null; description: string },
+    reason: dealMeetingsRepo.MeetingMatchReason,
+    log: any
+): Promise<void> {
+    await dealMeetingsRepo.upsertMeeting({ ...meeting, dealId: deal.id, matchReason: reason });
+    log.info('Meeting attached to existing deal', {
+        dealId: deal.id,
+        eventId: meeting.gcalEventId,
+        reason,
+    });
+
+    const when = meeting.meetingTime || 'time not set';
+    const title = meeting.summary || 'Meeting';
+
+    if (deal.notion_deal_page_id) {
+        try {
+            const notion = new NotionClient({
+                token: await getSecret('NOTION_TOKEN'),
+                parentPageId: process.env.NOTION_PARENT_PAGE_ID || '',
+            });
+            const notesPageId = await notion.findChildPage(deal.notion_deal_page_id, MEETING_NOTES_TITLE);
+            if (!notesPageId) {
+                log.warn('Deal has no Meeting Notes page, not appending meeting', { dealId: deal.id });
+            } else {
+                const description = details.description.length > 1000
+                    ? details.description.substring(0, 1000) + '...'
+                    : details.description;
+                await notion.appendBlocks(notesPageId, [
+                    notion.divider(),
+                    notion.heading3(`📅 ${when} — ${title}`),
+                    ...(meeting.attendees.length > 0
+                        ? [notion.bulletedList(`Attendees: ${meeting.attendees.join(', ')}`)]
+                        : []),
+                    ...(details.meetingLink ? [notion.bulletedList(`Link: ${details.meetingLink}`)] : []),
+                    ...(description ? notion.createParagraphBlocks(description) : []),
+                    notion.paragraph('_Add meeting notes here..._'),
+                ]);
+            }
+        } catch (err: any) {
+            log.warn('Failed to append meeting to Notion', { dealId: deal.id, error: err.message });
+        }
+    }
+
+    if (deal.asana_task_gid) {
+        try {
+            const asana = new AsanaClient({ token: await getSecret('ASANA_TOKEN') });
+            await asana.addComment(deal.asana_task_gid, `📅 New meeting: ${title} (${when})`);
+        } catch (err: any) {
+            log.warn('Failed to comment meeting on Asana task', { dealId: deal.id, error: err.message });
+        }
+    }
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import type { dealsRepo } from '@xfund/shared';
+import { detectMeetingChange } from './meeting-changes.js';
+
+function deal(meetingTime: string | null, status: 'scheduled' | 'cancelled' = 'scheduled'): dealsRepo.Deal {
+    return {
+        meeting_time: meetingTime ? new Date(meetingTime) : null,
+        meeting_status: status,
+    } as dealsRepo.Deal;
+}
+
+describe('detectMeetingChange', () => {
+    const booked = '2026-03-02T15:00:00.000Z';
+
+    it('reports nothing when the meeting is unchanged', () => {
+        expect(detectMeetingChange(deal(booked), false, '2026-03-02T10:00:00-05:00')).toBeNull();
+    });
+
+    it('detects a reschedule', () => {
+        expect(detectMeetingChange(deal(booked), false, '2026-03-04T15:00:00Z')).toEqual({
+            kind: 'rescheduled',
+            meetingTime: '2026-03-04T15:00:00Z',
+            previousTime: booked,
+        });
+    });
+
+    it('detects a cancellation once', () => {
+        expect(detectMeetingChange(deal(booked), true, null)).toEqual({
+            kind: 'cancelled',
+            meetingTime: null,
+            previousTime: booked,
+        });
+        expect(detectMeetingChange(deal(booked, 'cancelled'), true, null)).toBeNull();
+    });
+
+    it('detects a restored meeting, even at a new time', () => {
+        expect(detectMeetingChange(deal(booked, 'cancelled'), false, '2026-03-09T15:00:00Z')).toEqual({
+            kind: 'restored',
+            meetingTime: '2026-03-09T15:00:00Z',
+            previousTime: booked,
+        });
+    });
+
+    it('treats the first sync of a deal without a stored time as no change', () => {
+        expect(detectMeetingChange(deal(null), false, '2026-03-02T15:00:00Z')).toBeNull();
+    });
+});
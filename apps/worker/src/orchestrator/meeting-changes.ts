@@ -0,0 +1,177 @@
+import {
+    AsanaClient,
+    NotionClient,
+    dealsRepo,
+    integrationsRepo,
+    asanaPipelinesRepo,
+    pipelineSectionsRepo,
+    getEntryStage,
+    getPipelineStage,
+    getSecret,
+} from '@xfund/shared';
+
+export type MeetingChangeKind = 'rescheduled' | 'cancelled' | 'restored';
+
+export interface MeetingChange {
+    kind: MeetingChangeKind;
+    /** New start (ISO dateTime or all-day date); null for cancellations */
+    meetingTime: string | null;
+    previousTime: string | null;
+}
+
+const MEETING_LINE = /^🕐 Meeting: .*$/m;
+const CANCELLED_LINE = /^⚠️ Meeting cancelled.*\n?/m;
+
+/**
+ * Work out what happened to a deal's originating meeting, or null if nothing did.
+ * Deals created before meeting tracking have no stored time; their first sync just records it.
+ */
+export function detectMeetingChange(
+    deal: dealsRepo.Deal,
+    cancelled: boolean,
+    meetingTime: string | null
+): MeetingChange | null {
+    const previousTime = deal.meeting_time ? deal.meeting_time.toISOString() : null;
+
+    if (cancelled) {
+        return deal.meeting_status === 'cancelled' ? null : { kind: 'cancelled', meetingTime: null, previousTime };
+    }
+    if (deal.meeting_status === 'cancelled') {
+        return { kind: 'restored', meetingTime, previousTime };
+    }
+    if (previousTime && meetingTime && new Date(meetingTime).getTime() !== deal.meeting_time!.getTime()) {
+        return { kind: 'rescheduled', meetingTime, previousTime };
+    }
+    return null;
+}
+
+/**
+ * Stage a cancelled first meeting moves to: the gcal integration's `cancelledMeetingStage`,
+ * else GCAL_CANCELLED_MEETING_STAGE. Unset means cancelled deals stay where they are.
+ */
+async function getCancelledMeetingStage(tenantId: string): Promise<string | null> {
+    const integration = await integrationsRepo.getIntegration(tenantId, 'gcal');
+    return integration?.config.cancelledMeetingStage || process.env.GCAL_CANCELLED_MEETING_STAGE || null;
+}
+
+/** Asana due fields for a meeting start: timed events set due_at, all-day events due_on */
+function dueFields(meetingTime: string | null): { due_at?: string | null; due_on?: string | null } {
+    if (!meetingTime) return { due_at: null, due_on: null };
+    return meetingTime.includes('T') ? { due_at: meetingTime } : { due_on: meetingTime };
+}
+
+/** Rewrite the meeting lines deal-creator wrote into the task notes */
+function updateNotes(notes: string, change: MeetingChange): string {
+    let updated = notes.replace(CANCELLED_LINE, '');
+
+    if (change.meetingTime) {
+        const line = `🕐 Meeting: ${change.meetingTime}`;
+        updated = MEETING_LINE.test(updated) ? updated.replace(MEETING_LINE, line) : `${line}\n${updated}`;
+    }
+    if (change.kind === 'cancelled') {
+        updated = `⚠️ Meeting cancelled (${new Date().toISOString()})\n${updated}`;
+    }
+    return updated;
+}
+
+function describeChange(change: MeetingChange): string {
+    switch (change.kind) {
+        case 'rescheduled':
+            return `📅 Meeting rescheduled: ${change.previousTime} → ${change.meetingTime}`;
+        case 'cancelled':
+            return '⚠️ Meeting cancelled in Google Calendar';
+        case 'restored':
+            return `📅 Meeting restored${change.meetingTime ? `: ${change.meetingTime}` : ''}`;
+    }
+}
+
+/**
+ * Move the deal's task to `stageKey`'s section in its pipeline project.
+ * The Asana webhook then runs the stage action as for a manual move.
+ */
+async function moveToStage(
+    asana: AsanaClient,
+    tenantId: string,
+    deal: dealsRepo.Deal,
+    stageKey: string,
+    log: any
+): Promise<void> {
+    const projectGid =
+        deal.asana_project_gid || (await asanaPipelinesRepo.getDefaultPipeline(tenantId))?.project_gid;
+    const sectionGid = projectGid
+        ? await pipelineSectionsRepo.getSectionForStage(tenantId, projectGid, stageKey)
+        : null;
+    if (!sectionGid) {
+        log.warn('No section mapped for stage, not moving deal', { stageKey, projectGid });
+        return;
+    }
+
+    await asana.addTaskToSection(deal.asana_task_gid!, sectionGid);
+    log.info('Deal moved after meeting change', { stageKey, sectionGid });
+}
+
+/**
+ * Record a meeting change on the deal and propagate it:
+ * Asana task due date, notes and a comment; the Notion Deal Overview's meeting time;
+ * and, if configured, a cancelled first meeting is moved to the cancellation stage
+ * (and back to the entry stage when the meeting is restored).
+ * Asana and Notion failures are logged and skipped.
+ */
+export async function applyMeetingChange(
+    tenantId: string,
+    deal: dealsRepo.Deal,
+    change: MeetingChange,
+    log: any
+): Promise<void> {
+    await dealsRepo.updateDealMeeting(
+        deal.id,
+        change.meetingTime,
+        change.kind === 'cancelled' ? 'cancelled' : 'scheduled'
+    );
+    log.info('Meeting change recorded', { dealId: deal.id, ...change });
+
+    if (deal.asana_task_gid) {
+        try {
+            const asana = new AsanaClient({ token: await getSecret('ASANA_TOKEN') });
+            const task = await asana.getTask(deal.asana_task_gid);
+
+            await asana.updateTask(deal.asana_task_gid, {
+                notes: updateNotes(task.notes || '', change),
+                ...dueFields(change.meetingTime),
+            });
+            await asana.addComment(deal.asana_task_gid, describeChange(change));
+
+            const cancelledStage = await getCancelledMeetingStage(tenantId);
+            if (cancelledStage) {
+                const entryStage = await getEntryStage(tenantId);
+                if (change.kind === 'cancelled' && entryStage && deal.current_stage === entryStage.stage_key) {
+                    if (await getPipelineStage(tenantId, cancelledStage)) {
+                        await moveToStage(asana, tenantId, deal, cancelledStage, log);
+                    } else {
+                        log.warn('Cancelled meeting stage is not configured or is disabled', { cancelledStage });
+                    }
+                } else if (change.kind === 'restored' && entryStage && deal.current_stage === cancelledStage) {
+                    await moveToStage(asana, tenantId, deal, entryStage.stage_key, log);
+                }
+            }
+        } catch (err: any) {
+            log.warn('Failed to sync meeting change to Asana', { error: err.message });
+        }
+    }
+
+    if (deal.notion_deal_page_id) {
+        try {
+            const notion = new NotionClient({
+                token: await getSecret('NOTION_TOKEN'),
+                parentPageId: process.env.NOTION_PARENT_PAGE_ID || '',
+            });
+            const line =
+                change.kind === 'cancelled'
+                    ? `${change.previousTime || 'unknown'} (cancelled)`
+                    : change.meetingTime || 'unknown';
+            await notion.updateMeetingTime(deal.notion_deal_page_id, line);
+        } catch (err: any) {
+            log.warn('Failed to sync meeting change to Notion', { error: err.message });
+        }
+    }
+}
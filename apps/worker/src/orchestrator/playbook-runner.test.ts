@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { enqueuer, buildResearchContext } = vi.hoisted(() => ({
+    enqueuer: { enqueue: vi.fn(), enqueueAfter: vi.fn() },
+    buildResearchContext: vi.fn(),
+}));
+
+vi.mock('@xfund/shared', () => ({
+    createTasksEnqueuer: () => enqueuer,
+    idempotencyRepo: {
+        runJobKey: (jobType: string, runId: string, variant?: string) =>
+            `job:${jobType}:${runId}${variant ? `:${variant}` : ''}`,
+    },
+}));
+vi.mock('./research-context.js', () => ({ buildResearchContext }));
+
+import { runStagePlaybook } from './playbook-runner.js';
+import type { StagePlaybook } from '@xfund/shared';
+
+const log = { info: vi.fn(), warn: vi.fn() };
+const deal = { id: 'deal-1', company_name: 'Acme', founder_name: 'Jane Doe' } as any;
+
+function playbook(jobs: StagePlaybook['jobs']): StagePlaybook {
+    return { subtasks: [], notionCallouts: [], jobs } as unknown as StagePlaybook;
+}
+
+function run(jobs: StagePlaybook['jobs'], researchStarted = false) {
+    return runStagePlaybook({
+        tenantId: 'tenant-1',
+        deal,
+        taskGid: 'task-1',
+        runId: 'run-1',
+        stageKey: 'IN_DILIGENCE',
+        playbook: playbook(jobs),
+        researchStarted,
+        log,
+    });
+}
+
+describe('runStagePlaybook research jobs', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        buildResearchContext.mockResolvedValue('Meeting Notes:\nStrong team');
+    });
+
+    it('passes the deal meeting notes to a playbook research batch', async () => {
+        await run([{ type: 'RESEARCH_BATCH' }]);
+
+        expect(enqueuer.enqueue).toHaveBeenCalledWith({
+            jobType: 'RESEARCH_BATCH',
+            tenantId: 'tenant-1',
+            payload: {
+                runId: 'run-1',
+                dealId: 'deal-1',
+                companyName: 'Acme',
+                founderName: 'Jane Doe',
+                additionalContext: 'Meeting Notes:\nStrong team',
+            },
+            idempotencyKey: 'job:RESEARCH_BATCH:run-1:playbook:0',
+        });
+    });
+
+    it('skips an immediate research batch when the diligence behaviour already started research', async () => {
+        await run([{ type: 'RESEARCH_BATCH' }, { type: 'MEMO_GENERATE' }], true);
+
+        expect(buildResearchContext).not.toHaveBeenCalled();
+        expect(enqueuer.enqueue).toHaveBeenCalledTimes(1);
+        expect(enqueuer.enqueue).toHaveBeenCalledWith(expect.objectContaining({ jobType: 'MEMO_GENERATE' }));
+    });
+
+    it('still schedules a delayed research batch after the diligence behaviour', async () => {
+        await run([{ type: 'RESEARCH_BATCH', delayHours: 48 }], true);
+
+        expect(enqueuer.enqueueAfter).toHaveBeenCalledWith(
+            expect.objectContaining({
+                jobType: 'RESEARCH_BATCH',
+                payload: expect.objectContaining({ additionalContext: 'Meeting Notes:\nStrong team' }),
+            }),
+            48 * 3600
+        );
+    });
+});
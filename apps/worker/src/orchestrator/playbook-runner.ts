@@ -0,0 +1,186 @@
+import {
+    AsanaClient,
+    NotionClient,
+    dealsRepo,
+    idempotencyRepo,
+    playbookSubtasksRepo,
+    createTasksEnqueuer,
+    getSecret,
+    type StagePlaybook,
+    type TaskPayload,
+} from '@xfund/shared';
+import { buildResearchContext } from './research-context.js';
+
+const tasksEnqueuer = createTasksEnqueuer();
+
+/** YYYY-MM-DD `days` from now (UTC), for Asana's due_on */
+function dueOnAfter(days: number): string {
+    return new Date(Date.now() + days * 86400 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Create the playbook's subtasks that the task doesn't already have. A subtask counts as present
+ * if the one we recorded for this deal and stage still exists, or (for untracked entries, e.g.
+ * created before tracking or by hand) the task has a subtask with the same name, which is adopted.
+ * Completed ones are reopened only if the playbook asks for it.
+ */
+async function reconcileSubtasks(
+    tenantId: string,
+    deal: dealsRepo.Deal,
+    taskGid: string,
+    stageKey: string,
+    playbook: StagePlaybook,
+    log: any
+): Promise<void> {
+    const asana = new AsanaClient({ token: await getSecret('ASANA_TOKEN') });
+
+    let existing;
+    try {
+        existing = await asana.getSubtasks(taskGid);
+    } catch (err: any) {
+        // Without the current subtasks we can't tell what's missing; creating blindly would duplicate
+        log.warn('Failed to list subtasks, skipping playbook subtasks', { error: err.message });
+        return;
+    }
+    const byGid = new Map(existing.map((t) => [t.gid, t]));
+    const byName = new Map(existing.map((t) => [t.name.trim().toLowerCase(), t]));
+    const tracked = new Map(
+        (await playbookSubtasksRepo.listForDealStage(deal.id, stageKey)).map((r) => [r.subtask_name, r])
+    );
+
+    let created = 0;
+    let reopened = 0;
+    for (const subtask of playbook.subtasks) {
+        const trackedGid = tracked.get(subtask.name)?.subtask_gid;
+        const current = (trackedGid && byGid.get(trackedGid)) || byName.get(subtask.name.toLowerCase());
+
+        try {
+            if (current) {
+                if (current.gid !== trackedGid) {
+                    await playbookSubtasksRepo.recordSubtask({
+                        tenantId,
+                        dealId: deal.id,
+                        stageKey,
+                        subtaskName: subtask.name,
+                        subtaskGid: current.gid,
+                    });
+                }
+                if (current.completed && playbook.reopenCompletedSubtasks) {
+                    await asana.updateTask(current.gid, { completed: false });
+                    reopened++;
+                }
+                continue;
+            }
+
+            const { gid } = await asana.createSubtask(taskGid, subtask.name, subtask.notes, {
+                assignee: subtask.assignee,
+                dueOn: subtask.dueInDays !== undefined ? dueOnAfter(subtask.dueInDays) : undefined,
+            });
+            await playbookSubtasksRepo.recordSubtask({
+                tenantId,
+                dealId: deal.id,
+                stageKey,
+                subtaskName: subtask.name,
+                subtaskGid: gid,
+            });
+            created++;
+        } catch (err: any) {
+            log.warn('Failed to reconcile playbook subtask', { name: subtask.name, error: err.message });
+        }
+    }
+
+    log.info('Playbook subtasks reconciled', {
+        created,
+        reopened,
+        present: playbook.subtasks.length - created,
+    });
+}
+
+/**
+ * Apply a stage playbook to a deal that just entered the stage:
+ * create its missing subtasks, post its Notion callouts and enqueue its jobs.
+ * An immediate RESEARCH_BATCH job is skipped when the stage's diligence behaviour already
+ * started research for the run (researchStarted); delayed ones still run.
+ * Subtask and Notion failures are logged and skipped; enqueue failures throw so the stage action retries.
+ */
+export async function runStagePlaybook(input: {
+    tenantId: string;
+    deal: dealsRepo.Deal;
+    taskGid: string;
+    runId: string;
+    stageKey: string;
+    playbook: StagePlaybook;
+    researchStarted?: boolean;
+    log: any;
+}): Promise<void> {
+    const { tenantId, deal, taskGid, runId, stageKey, playbook, researchStarted = false, log } = input;
+
+    if (playbook.subtasks.length > 0) {
+        await reconcileSubtasks(tenantId, deal, taskGid, stageKey, playbook, log);
+    }
+
+    if (playbook.notionCallouts.length > 0 && deal.notion_deal_page_id) {
+        try {
+            const notion = new NotionClient({
+                token: await getSecret('NOTION_TOKEN'),
+                parentPageId: process.env.NOTION_PARENT_PAGE_ID || '',
+            });
+            await notion.appendBlocks(deal.notion_deal_page_id, [
+                notion.divider(),
+                ...playbook.notionCallouts.map((c) => notion.callout(c.text, c.emoji || '📌')),
+            ]);
+        } catch (err: any) {
+            log.warn('Failed to post playbook callouts to Notion', { error: err.message });
+        }
+    }
+
+    const companyName = deal.company_name || 'Unknown Company';
+    const founderName = deal.founder_name || 'Unknown Founder';
+    // Same context the diligence behaviour gives its agents, fetched only if a research job needs it
+    let researchContext: string | undefined;
+
+    for (const [i, job] of playbook.jobs.entries()) {
+        let task: TaskPayload;
+        switch (job.type) {
+            case 'RESEARCH_BATCH':
+                if (researchStarted && !job.delayHours) {
+                    log.info('Research already started for this run, skipping playbook research job', { job: i });
+                    continue;
+                }
+                if (researchContext === undefined) researchContext = await buildResearchContext(deal, log);
+                task = {
+                    jobType: 'RESEARCH_BATCH',
+                    tenantId,
+                    payload: { runId, dealId: deal.id, companyName, founderName, additionalContext: researchContext },
+                };
+                break;
+            case 'MEMO_GENERATE':
+                task = {
+                    jobType: 'MEMO_GENERATE',
+                    tenantId,
+                    payload: { runId, dealId: deal.id, companyName, founderName },
+                };
+                break;
+            case 'FOLLOW_UP_REMINDER':
+                task = {
+                    jobType: 'FOLLOW_UP_REMINDER',
+                    tenantId,
+                    payload: { dealId: deal.id, stageKey, days: (job.delayHours ?? 0) / 24 },
+                };
+                break;
+        }
+        task.idempotencyKey = idempotencyRepo.runJobKey(job.type, runId, `playbook:${i}`);
+
+        if (job.delayHours) {
+            await tasksEnqueuer.enqueueAfter(task, job.delayHours * 3600);
+        } else {
+            await tasksEnqueuer.enqueue(task);
+        }
+    }
+
+    log.info('Stage playbook applied', {
+        subtasks: playbook.subtasks.length,
+        callouts: playbook.notionCallouts.length,
+        jobs: playbook.jobs.length,
+    });
+}
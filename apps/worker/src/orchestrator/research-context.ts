@@ -0,0 +1,35 @@
+import { NotionClient, getSecret } from '@xfund/shared';
+
+/**
+ * Context for a deal's research agents: the deal's Meeting Notes page, or '' if it has none.
+ * Best-effort; a failed fetch is logged and yields ''.
+ */
+export async function buildResearchContext(deal: any, log: any): Promise<string> {
+    if (!deal.notion_urls) return '';
+
+    try {
+        const notionUrls = typeof deal.notion_urls === 'string'
+            ? JSON.parse(deal.notion_urls)
+            : deal.notion_urls;
+
+        const meetingNotesUrl = notionUrls.meetingNotes;
+        if (!meetingNotesUrl) return '';
+
+        // Extract page ID from URL
+        const match = meetingNotesUrl.match(/([a-f0-9]{32})/);
+        if (!match) return '';
+
+        const notion = new NotionClient({
+            token: await getSecret('NOTION_TOKEN'),
+            parentPageId: process.env.NOTION_PARENT_PAGE_ID || '',
+        });
+        const notes = await notion.getPageContent(match[1]);
+        if (!notes) return '';
+
+        log.info('Fetched meeting notes for context', { length: notes.length });
+        return `Meeting Notes:\n${notes}`;
+    } catch (err: any) {
+        log.warn('Failed to fetch meeting notes', { error: err.message });
+        return '';
+    }
+}
@@ -0,0 +1,134 @@
+import os from 'os';
+import {
+    logger,
+    jobQueueRepo,
+    retryBackoffSeconds,
+    postgresTaskName,
+    QUEUE_POLICIES,
+    type JobType,
+} from '@xfund/shared';
+import { runJob } from './run-job.js';
+
+export interface PollerOptions {
+    pollIntervalMs?: number;
+    /** A running job whose lock is older than this is assumed lost and re-queued */
+    leaseSeconds?: number;
+}
+
+/**
+ * Drains the job_queue table (TASKS_BACKEND=postgres).
+ * Each queue in QUEUE_POLICIES is polled with its own concurrency limit (per worker process),
+ * failures are retried with the queue's backoff, and the final outcome matches Cloud Tasks dispatch.
+ */
+export class PostgresQueuePoller {
+    private readonly workerId = `${os.hostname()}:${process.pid}`;
+    private readonly pollIntervalMs: number;
+    private readonly leaseSeconds: number;
+    private readonly running = new Map<string, number>();
+    private readonly inFlight = new Set<Promise<void>>();
+    private timer: NodeJS.Timeout | null = null;
+    private polling = false;
+    private lastLeaseCheck = 0;
+
+    constructor(options: PollerOptions = {}) {
+        this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+        this.leaseSeconds = options.leaseSeconds ?? 30 * 60;
+    }
+
+    start(): void {
+        if (this.timer) return;
+        logger.info('Postgres queue poller started', { workerId: this.workerId, queues: Object.keys(QUEUE_POLICIES) });
+        this.timer = setInterval(() => {
+            this.poll().catch((err) => logger.error('Queue poll failed', { error: err.message }));
+        }, this.pollIntervalMs);
+    }
+
+    /**
+     * Stop claiming new jobs and wait (up to timeoutMs) for in-flight jobs to finish.
+     * Jobs still running after that are recovered by another worker once their lease expires.
+     */
+    async stop(timeoutMs: number = 30_000): Promise<void> {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+        await Promise.race([
+            Promise.allSettled([...this.inFlight]),
+            new Promise((resolve) => setTimeout(resolve, timeoutMs)),
+        ]);
+        logger.info('Postgres queue poller stopped', { abandoned: this.inFlight.size });
+    }
+
+    private async poll(): Promise<void> {
+        if (this.polling) return;
+        this.polling = true;
+        try {
+            if (Date.now() - this.lastLeaseCheck > 60_000) {
+                this.lastLeaseCheck = Date.now();
+                const released = await jobQueueRepo.releaseExpiredLocks(this.leaseSeconds);
+                if (released > 0) logger.warn('Released expired queue job locks', { count: released });
+            }
+
+            for (const [queue, policy] of Object.entries(QUEUE_POLICIES)) {
+                if (!this.timer) return;
+                const free = policy.maxConcurrent - (this.running.get(queue) ?? 0);
+                if (free <= 0) continue;
+
+                const jobs = await jobQueueRepo.claimJobs(queue, free, this.workerId);
+                for (const job of jobs) {
+                    this.running.set(queue, (this.running.get(queue) ?? 0) + 1);
+                    const promise = this.execute(job).finally(() => {
+                        this.running.set(queue, (this.running.get(queue) ?? 1) - 1);
+                        this.inFlight.delete(promise);
+                    });
+                    this.inFlight.add(promise);
+                }
+            }
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    private async execute(job: jobQueueRepo.QueuedJob): Promise<void> {
+        const log = logger.child({ queueJobId: job.id, jobType: job.job_type, attempt: job.attempts });
+
+        try {
+            const outcome = await runJob(
+                {
+                    jobType: job.job_type as JobType,
+                    tenantId: job.tenant_id,
+                    payload: job.payload,
+                    idempotencyKey: job.idempotency_key || undefined,
+                },
+                {
+                    taskName: postgresTaskName(job.id),
+                    attempt: job.attempts,
+                    maxAttempts: job.max_attempts,
+                }
+            );
+
+            switch (outcome.status) {
+                case 'ok':
+                case 'duplicate':
+                    await jobQueueRepo.markSucceeded(job.id);
+                    break;
+                case 'invalid':
+                case 'dead_lettered':
+                    await jobQueueRepo.markDead(job.id, outcome.error);
+                    break;
+                case 'retry': {
+                    if (job.attempts >= job.max_attempts) {
+                        // Only reachable when the failure couldn't be recorded as a dead letter
+                        await jobQueueRepo.markDead(job.id, outcome.error);
+                        break;
+                    }
+                    const delaySeconds = retryBackoffSeconds(job.queue, job.attempts);
+                    await jobQueueRepo.scheduleRetry(job.id, delaySeconds, outcome.error);
+                    log.info('Queue job scheduled for retry', { delaySeconds });
+                    break;
+                }
+            }
+        } catch (err: any) {
+            // Leave the lock in place; lease expiry will re-queue the job
+            log.error('Failed to update queue job state', { error: err.message });
+        }
+    }
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { handler, idempotencyRepo, jobsRepo } = vi.hoisted(() => ({
+    handler: vi.fn(),
+    idempotencyRepo: {
+        claimJobKey: vi.fn(),
+        completeKey: vi.fn(),
+        releaseKey: vi.fn(),
+    },
+    jobsRepo: {
+        startAttempt: vi.fn(),
+        finishAttempt: vi.fn(),
+        addDeadLetter: vi.fn(),
+    },
+}));
+
+vi.mock('@xfund/shared', () => {
+    const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    return {
+        logger: { ...log, child: () => log },
+        idempotencyRepo,
+        jobsRepo,
+        classifyJobError: (err: any) => (err.permanent ? 'permanent' : 'transient'),
+    };
+});
+vi.mock('../handlers/gcal-sync.js', () => ({ handleGcalSync: handler }));
+vi.mock('../handlers/asana-process.js', () => ({ handleAsanaProcess: handler }));
+vi.mock('../handlers/stage-action.js', () => ({ handleStageAction: handler }));
+vi.mock('../handlers/research-agent.js', () => ({ handleResearchAgent: handler }));
+vi.mock('../handlers/research-batch.js', () => ({ handleResearchBatch: handler }));
+vi.mock('../handlers/memo-generate.js', () => ({ handleMemoGenerate: handler }));
+vi.mock('../handlers/follow-up-reminder.js', () => ({ handleFollowUpReminder: handler }));
+
+import { runJob } from './run-job.js';
+
+const task = {
+    jobType: 'MEMO_GENERATE' as const,
+    tenantId: 'tenant-1',
+    payload: { dealId: 'deal-1' },
+    idempotencyKey: 'job:MEMO_GENERATE:run-1',
+};
+const delivery = { taskName: 'pg:1', attempt: 1, maxAttempts: 3 };
+
+describe('runJob', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        idempotencyRepo.claimJobKey.mockResolvedValue('claimed');
+        idempotencyRepo.completeKey.mockResolvedValue(undefined);
+        idempotencyRepo.releaseKey.mockResolvedValue(undefined);
+        jobsRepo.startAttempt.mockResolvedValue({ id: 'attempt-1' });
+        jobsRepo.finishAttempt.mockResolvedValue(undefined);
+        jobsRepo.addDeadLetter.mockResolvedValue({ id: 'dead-1' });
+        handler.mockResolvedValue(undefined);
+    });
+
+    it('marks the key completed only after the handler succeeds', async () => {
+        handler.mockImplementation(async () => {
+            expect(idempotencyRepo.completeKey).not.toHaveBeenCalled();
+        });
+
+        await expect(runJob(task, delivery)).resolves.toEqual({ status: 'ok' });
+        expect(handler).toHaveBeenCalledWith('tenant-1', task.payload);
+        expect(idempotencyRepo.completeKey).toHaveBeenCalledWith(task.idempotencyKey);
+        expect(idempotencyRepo.releaseKey).not.toHaveBeenCalled();
+    });
+
+    it('skips a job whose key already completed', async () => {
+        idempotencyRepo.claimJobKey.mockResolvedValue('completed');
+
+        await expect(runJob(task, delivery)).resolves.toEqual({ status: 'duplicate' });
+        expect(handler).not.toHaveBeenCalled();
+        expect(jobsRepo.startAttempt).not.toHaveBeenCalled();
+    });
+
+    it('retries, rather than acknowledges, a job another delivery is still running', async () => {
+        idempotencyRepo.claimJobKey.mockResolvedValue('in_progress');
+
+        const outcome = await runJob(task, delivery);
+        expect(outcome.status).toBe('retry');
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('releases the key when the handler fails so a retry can run', async () => {
+        handler.mockRejectedValue(new Error('boom'));
+
+        await expect(runJob(task, delivery)).resolves.toEqual({ status: 'retry', error: 'boom' });
+        expect(idempotencyRepo.releaseKey).toHaveBeenCalledWith(task.idempotencyKey);
+        expect(idempotencyRepo.completeKey).not.toHaveBeenCalled();
+        expect(jobsRepo.finishAttempt).toHaveBeenCalledWith('attempt-1', 'failed', expect.anything());
+    });
+
+    it('releases the key and dead-letters on the last attempt', async () => {
+        handler.mockRejectedValue(new Error('still broken'));
+
+        const outcome = await runJob(task, { ...delivery, attempt: 3 });
+        expect(outcome).toEqual({ status: 'dead_lettered', deadLetterId: 'dead-1', error: 'still broken' });
+        expect(idempotencyRepo.releaseKey).toHaveBeenCalledWith(task.idempotencyKey);
+    });
+
+    it('dead-letters a retryable failure from local dispatch, which has no retries', async () => {
+        handler.mockRejectedValue(new Error('boom'));
+
+        const outcome = await runJob(task, { attempt: 1, maxAttempts: 3 });
+        expect(outcome).toEqual({ status: 'dead_lettered', deadLetterId: 'dead-1', error: 'boom' });
+        expect(jobsRepo.addDeadLetter).toHaveBeenCalledWith(expect.objectContaining({ taskName: undefined }));
+    });
+
+    it('retries when the key cannot be claimed', async () => {
+        idempotencyRepo.claimJobKey.mockRejectedValue(new Error('db down'));
+
+        await expect(runJob(task, delivery)).resolves.toEqual({ status: 'retry', error: 'db down' });
+        expect(handler).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,166 @@
+import {
+    logger,
+    jobsRepo,
+    idempotencyRepo,
+    classifyJobError,
+    type JobType,
+    type TaskPayload,
+} from '@xfund/shared';
+import { handleGcalSync } from '../handlers/gcal-sync.js';
+import { handleAsanaProcess } from '../handlers/asana-process.js';
+import { handleStageAction } from '../handlers/stage-action.js';
+import { handleResearchAgent } from '../handlers/research-agent.js';
+import { handleResearchBatch } from '../handlers/research-batch.js';
+import { handleMemoGenerate } from '../handlers/memo-generate.js';
+import { handleFollowUpReminder } from '../handlers/follow-up-reminder.js';
+
+type Handler = (tenantId: string, payload: any) => Promise<void>;
+
+/** Longer than any handler can run (Cloud Run request timeout, poller lease) */
+const KEY_LEASE_SECONDS = 30 * 60;
+
+const HANDLERS: Record<JobType, Handler> = {
+    GCAL_SYNC: handleGcalSync,
+    ASANA_PROCESS: handleAsanaProcess,
+    STAGE_ACTION: handleStageAction,
+    RESEARCH_AGENT: handleResearchAgent,
+    RESEARCH_BATCH: handleResearchBatch,
+    MEMO_GENERATE: handleMemoGenerate,
+    FOLLOW_UP_REMINDER: handleFollowUpReminder,
+};
+
+export interface JobDelivery {
+    /** Stable across retries (Cloud Tasks task name or "pg:<id>"); absent for local HTTP dispatch */
+    taskName?: string;
+    /** 1-based attempt number */
+    attempt: number;
+    maxAttempts: number;
+}
+
+export type JobOutcome =
+    | { status: 'ok' }
+    | { status: 'duplicate' }
+    | { status: 'invalid'; error: string }
+    | { status: 'retry'; error: string }
+    | { status: 'dead_lettered'; deadLetterId: string; error: string };
+
+/**
+ * Run one delivery of a job: claim its idempotency key, record the attempt, call the handler,
+ * and decide between retrying and dead-lettering on failure.
+ * Shared by the HTTP dispatcher and the Postgres queue poller.
+ *
+ * The key is held 'in_progress' under a lease while the handler runs and marked completed only
+ * once it succeeds; a failure releases it so a retry (or a dead-letter replay) can run. If the worker
+ * dies mid-handler the lease expires and the redelivery claims the key again.
+ */
+export async function runJob(task: TaskPayload, delivery: JobDelivery): Promise<JobOutcome> {
+    const { jobType, tenantId, payload, idempotencyKey } = task;
+    const { taskName, attempt, maxAttempts } = delivery;
+    const log = logger.child({ jobType, tenantId, idempotencyKey });
+
+    if (!jobType || !tenantId || !payload) {
+        log.warn('Invalid task dispatch request');
+        return { status: 'invalid', error: 'jobType, tenantId, and payload are required' };
+    }
+
+    const handler = HANDLERS[jobType];
+    if (!handler) {
+        log.warn('Unknown job type', { jobType });
+        return { status: 'invalid', error: `Unknown job type: ${jobType}` };
+    }
+
+    if (idempotencyKey) {
+        try {
+            const claim = await idempotencyRepo.claimJobKey(idempotencyKey, KEY_LEASE_SECONDS);
+            if (claim === 'completed') {
+                log.info(`Duplicate task skipped: ${jobType}`, { taskName });
+                return { status: 'duplicate' };
+            }
+            if (claim === 'in_progress') {
+                // Another delivery is running it; retry later rather than acknowledge work that may still fail
+                log.info(`Task already in progress: ${jobType}`, { taskName });
+                return { status: 'retry', error: 'Job with this idempotency key is already in progress' };
+            }
+        } catch (err: any) {
+            log.error('Failed to claim idempotency key', { error: err.message });
+            return { status: 'retry', error: err.message };
+        }
+    }
+
+    log.info(`Processing task: ${jobType}`, { taskName, attempt });
+
+    let attemptId: string | undefined;
+    try {
+        const record = await jobsRepo.startAttempt({
+            tenantId,
+            jobType,
+            taskName,
+            idempotencyKey,
+            payload,
+            attempt,
+        });
+        attemptId = record.id;
+
+        await handler(tenantId, payload);
+
+        await jobsRepo.finishAttempt(attemptId, 'succeeded');
+        if (idempotencyKey) {
+            await idempotencyRepo.completeKey(idempotencyKey).catch((completeErr) => {
+                // The lease still expires, so at worst a redelivery runs the job again
+                log.error('Failed to complete idempotency key', { error: completeErr.message });
+            });
+        }
+        log.info(`Task completed: ${jobType}`);
+        return { status: 'ok' };
+    } catch (err: any) {
+        if (idempotencyKey) {
+            await idempotencyRepo.releaseKey(idempotencyKey).catch((releaseErr) => {
+                log.error('Failed to release idempotency key', { error: releaseErr.message });
+            });
+        }
+
+        const errorKind = classifyJobError(err);
+        // Local dispatch (no task name) gets a single attempt, so its failures are final too
+        const deadLetter = errorKind === 'permanent' || attempt >= maxAttempts || taskName === undefined;
+        log.error(`Task failed: ${jobType}`, {
+            error: err.message,
+            stack: err.stack,
+            errorKind,
+            attempt,
+            maxAttempts,
+            deadLetter,
+        });
+
+        if (!attemptId) {
+            // Couldn't even record the attempt (database unavailable): retry
+            return { status: 'retry', error: err.message };
+        }
+
+        try {
+            await jobsRepo.finishAttempt(attemptId, deadLetter ? 'dead_lettered' : 'failed', {
+                error: err.message,
+                errorKind,
+            });
+
+            if (deadLetter) {
+                const entry = await jobsRepo.addDeadLetter({
+                    tenantId,
+                    jobType,
+                    taskName,
+                    idempotencyKey,
+                    payload,
+                    attempts: attempt,
+                    lastAttemptId: attemptId,
+                    lastError: err.message,
+                    errorKind,
+                });
+                log.warn(`Task dead-lettered: ${jobType}`, { deadLetterId: entry.id });
+                return { status: 'dead_lettered', deadLetterId: entry.id, error: err.message };
+            }
+        } catch (recordErr: any) {
+            log.error('Failed to record task failure', { error: recordErr.message });
+        }
+
+        return { status: 'retry', error: err.message };
+    }
+}
@@ -2,6 +2,7 @@ import 'dotenv/config';
 import express from 'express';
 import { logger, requestContext, requireAuth, runMigrations } from '@xfund/shared';
 import { dispatchRouter } from './routes/dispatch.js';
+import { PostgresQueuePoller } from './queue/postgres-poller.js';
 
 const app = express();
 const PORT = parseInt(process.env.PORT || '8082', 10);
@@ -33,6 +34,16 @@ async function start() {
         app.listen(PORT, () => {
             logger.info(`diligence-worker listening on port ${PORT}`);
         });
+
+        // Self-hosted / local: drain the Postgres job queue in-process
+        if (process.env.TASKS_BACKEND === 'postgres') {
+            const poller = new PostgresQueuePoller();
+            poller.start();
+            process.on('SIGTERM', async () => {
+                await poller.stop();
+                process.exit(0);
+            });
+        }
     } catch (err: any) {
         logger.error('Failed to start worker service', { error: err.message });
         process.exit(1);
@@ -132,6 +132,14 @@ resource "google_cloud_run_v2_service" "admin" {
         name  = "INGRESS_PUBLIC_BASE_URL"
         value = google_cloud_run_v2_service.ingress.uri
       }
+      env {
+        name  = "WORKER_URL"
+        value = google_cloud_run_v2_service.worker.uri
+      }
+      env {
+        name  = "TASKS_INVOKER_SA_EMAIL"
+        value = google_service_account.sa_tasks_invoker.email
+      }
       env {
         name  = "TENANT_ID"
         value = "00000000-0000-0000-0000-000000000001"
@@ -219,9 +227,13 @@ resource "google_cloud_run_v2_service" "worker" {
         name  = "NOTION_PARENT_PAGE_ID"
         value = ""
       }
+      env {
+        name  = "LLM_PROVIDER"
+        value = var.llm_provider
+      }
       env {
         name  = "LLM_MODEL"
-        value = "gpt-4o"
+        value = var.llm_model
       }
       env {
         name  = "TENANT_ID"
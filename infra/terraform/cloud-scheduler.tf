@@ -1,15 +1,16 @@
 # ─── Cloud Scheduler Jobs ───
 
-# Replace GCal watch every 12 hours (Google doesn't auto-renew channels)
-resource "google_cloud_scheduler_job" "replace_gcal_watch" {
-  name      = "replace-gcal-watch"
+# Renew GCal watches hourly (Google doesn't auto-renew channels): replaces watches nearing
+# expiration and recreates missing or errored ones for every registered calendar
+resource "google_cloud_scheduler_job" "renew_gcal_watches" {
+  name      = "renew-gcal-watches"
   region    = var.region
-  schedule  = "0 */12 * * *"
+  schedule  = "0 * * * *"
   time_zone = "America/Chicago"
 
   http_target {
     http_method = "POST"
-    uri         = "${google_cloud_run_v2_service.admin.uri}/admin/gcal/watch/replace"
+    uri         = "${google_cloud_run_v2_service.admin.uri}/admin/gcal/watch/renew"
     body        = base64encode("{}")
 
     headers = {
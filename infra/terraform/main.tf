@@ -53,6 +53,13 @@ variable "gcal_refresh_token" {
   default     = ""
 }
 
+variable "gcal_service_account_key" {
+  description = "Service account key (JSON) with domain-wide delegation, for calendars registered with authMode 'delegation'"
+  type        = string
+  sensitive   = true
+  default     = ""
+}
+
 variable "asana_token" {
   description = "Asana Personal Access Token"
   type        = string
@@ -74,6 +81,25 @@ variable "openai_api_key" {
   default     = ""
 }
 
+variable "anthropic_api_key" {
+  description = "Anthropic API Key (only needed when llm_provider = \"anthropic\")"
+  type        = string
+  sensitive   = true
+  default     = ""
+}
+
+variable "llm_provider" {
+  description = "LLM provider for research and memos: openai, anthropic or fake"
+  type        = string
+  default     = "openai"
+}
+
+variable "llm_model" {
+  description = "Model name passed to the LLM provider (empty = the provider's default)"
+  type        = string
+  default     = ""
+}
+
 variable "ingress_image" {
   description = "Docker image for ingress service"
   type        = string
@@ -5,9 +5,11 @@ locals {
     GCAL_OAUTH_CLIENT_ID     = var.gcal_oauth_client_id
     GCAL_OAUTH_CLIENT_SECRET = var.gcal_oauth_client_secret
     GCAL_REFRESH_TOKEN       = var.gcal_refresh_token
+    GCAL_SERVICE_ACCOUNT_KEY = var.gcal_service_account_key
     ASANA_TOKEN              = var.asana_token
     NOTION_TOKEN             = var.notion_token
     OPENAI_API_KEY           = var.openai_api_key
+    ANTHROPIC_API_KEY        = var.anthropic_api_key
     DB_PASSWORD              = var.db_password
   }
 }
@@ -81,6 +81,20 @@ resource "google_project_iam_member" "admin_logging" {
   member  = "serviceAccount:${google_service_account.sa_admin.email}"
 }
 
+# Cloud Tasks enqueuer (manual research re-runs)
+resource "google_project_iam_member" "admin_tasks_enqueuer" {
+  project = var.project_id
+  role    = "roles/cloudtasks.enqueuer"
+  member  = "serviceAccount:${google_service_account.sa_admin.email}"
+}
+
+# Allow sa-admin to "actAs" sa-tasks-invoker for OIDC tokens on tasks
+resource "google_service_account_iam_member" "admin_actas_tasks_invoker" {
+  service_account_id = google_service_account.sa_tasks_invoker.name
+  role               = "roles/iam.serviceAccountUser"
+  member             = "serviceAccount:${google_service_account.sa_admin.email}"
+}
+
 # ─── IAM: sa-worker ───
 
 resource "google_project_iam_member" "worker_secrets" {
@@ -25,6 +25,12 @@ export interface AsanaTask {
     completed: boolean;
 }
 
+export interface AsanaSubtask {
+    gid: string;
+    name: string;
+    completed: boolean;
+}
+
 export interface AsanaSection {
     gid: string;
     name: string;
@@ -37,6 +43,16 @@ export interface AsanaWebhookResponse {
     active: boolean;
 }
 
+export class AsanaApiError extends Error {
+    readonly status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = 'AsanaApiError';
+        this.status = status;
+    }
+}
+
 export class AsanaClient {
     private token: string;
     private baseUrl: string;
@@ -69,7 +85,7 @@ export class AsanaClient {
 
         if (!res.ok) {
             const errBody = await res.text();
-            throw new Error(`Asana API ${method} ${path} failed (${res.status}): ${errBody}`);
+            throw new AsanaApiError(`Asana API ${method} ${path} failed (${res.status}): ${errBody}`, res.status);
         }
 
         const json = (await res.json()) as { data: T };
@@ -126,24 +142,57 @@ export class AsanaClient {
 
     /**
      * Update task fields.
+     * `due_on` is YYYY-MM-DD and `due_at` an ISO timestamp; pass null to clear the due date.
      */
     async updateTask(
         taskGid: string,
-        updates: { name?: string; notes?: string; completed?: boolean; custom_fields?: Record<string, string> }
+        updates: {
+            name?: string;
+            notes?: string;
+            completed?: boolean;
+            due_on?: string | null;
+            due_at?: string | null;
+            custom_fields?: Record<string, string>;
+        }
     ): Promise<void> {
         await this.request('PUT', `/tasks/${taskGid}`, updates);
     }
 
     /**
      * Create a subtask under a parent task.
+     * `assignee` is a user GID or email; `dueOn` is YYYY-MM-DD.
      */
-    async createSubtask(parentTaskGid: string, name: string, notes?: string): Promise<{ gid: string }> {
+    async createSubtask(
+        parentTaskGid: string,
+        name: string,
+        notes?: string,
+        opts: { assignee?: string; dueOn?: string } = {}
+    ): Promise<{ gid: string }> {
         return this.request<{ gid: string }>('POST', `/tasks/${parentTaskGid}/subtasks`, {
             name,
             notes: notes || '',
+            ...(opts.assignee ? { assignee: opts.assignee } : {}),
+            ...(opts.dueOn ? { due_on: opts.dueOn } : {}),
         });
     }
 
+    /**
+     * List a task's direct subtasks.
+     */
+    async getSubtasks(parentTaskGid: string): Promise<AsanaSubtask[]> {
+        return this.request<AsanaSubtask[]>('GET', `/tasks/${parentTaskGid}/subtasks`, undefined, {
+            opt_fields: 'name,completed',
+            limit: '100',
+        });
+    }
+
+    /**
+     * Add a comment (story) to a task.
+     */
+    async addComment(taskGid: string, text: string): Promise<{ gid: string }> {
+        return this.request<{ gid: string }>('POST', `/tasks/${taskGid}/stories`, { text });
+    }
+
     /**
      * Get all sections for a project (used for pipeline mapping).
      */
@@ -185,9 +234,10 @@ export class AsanaClient {
             .createHmac('sha256', secret)
             .update(rawBody)
             .digest('hex');
-        return crypto.timingSafeEqual(
-            Buffer.from(computed, 'hex'),
-            Buffer.from(signature, 'hex')
-        );
+        const expected = Buffer.from(computed, 'hex');
+        const received = Buffer.from(signature, 'hex');
+        // timingSafeEqual throws on length mismatch; a malformed signature is simply invalid
+        if (received.length !== expected.length) return false;
+        return crypto.timingSafeEqual(expected, received);
     }
 }
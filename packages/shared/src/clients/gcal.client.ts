@@ -1,10 +1,14 @@
 import { google, calendar_v3 } from 'googleapis';
 
-export interface GCalConfig {
-    clientId: string;
-    clientSecret: string;
-    refreshToken: string;
-}
+/**
+ * OAuth credentials for the calendar owner's account, or a service account key (JSON)
+ * with domain-wide delegation that impersonates `subject`.
+ */
+export type GCalConfig =
+    | { clientId: string; clientSecret: string; refreshToken: string }
+    | { serviceAccountKey: string; subject: string };
+
+const CALENDAR_SCOPE = 'https://www.googleapis.com/auth/calendar';
 
 export interface WatchResult {
     channelId: string;
@@ -22,6 +26,18 @@ export class GCalClient {
     private calendar: calendar_v3.Calendar;
 
     constructor(config: GCalConfig) {
+        if ('serviceAccountKey' in config) {
+            const key = JSON.parse(config.serviceAccountKey);
+            const auth = new google.auth.JWT({
+                email: key.client_email,
+                key: key.private_key,
+                scopes: [CALENDAR_SCOPE],
+                subject: config.subject,
+            });
+            this.calendar = google.calendar({ version: 'v3', auth });
+            return;
+        }
+
         const auth = new google.auth.OAuth2(
             config.clientId,
             config.clientSecret
@@ -192,20 +208,21 @@ export function parseCalendlyEvent(event: calendar_v3.Schema$Event): {
  * The deal tag that marks a calendar event for pipeline processing.
  * Add "[deal]" anywhere in the event title or description.
  * Works for both Calendly-scheduled and manually-created events.
+ * "[deal:<deal id>]" also marks the event, and attaches it to that existing deal.
  */
 const DEAL_TAG = '[deal]';
+const DEAL_ID_TAG_PREFIX = '[deal:';
 
 /**
  * Check if a calendar event should enter the deal pipeline.
  * Returns true if:
- *   - The event title or description contains "[deal]" (case-insensitive)
+ *   - The event title or description contains "[deal]" or "[deal:<id>]" (case-insensitive)
  */
 export function isDealEvent(event: calendar_v3.Schema$Event): boolean {
     const summary = (event.summary || '').toLowerCase();
     const desc = (event.description || '').toLowerCase();
-    const tag = DEAL_TAG.toLowerCase();
 
-    return summary.includes(tag) || desc.includes(tag);
+    return [DEAL_TAG, DEAL_ID_TAG_PREFIX].some((tag) => summary.includes(tag) || desc.includes(tag));
 }
 
 /**
@@ -0,0 +1,58 @@
+import type { LLMProviderName } from './llm-providers/types.js';
+
+export interface ModelPricing {
+    /** USD per million input tokens */
+    inputPerMTok: number;
+    /** USD per million output tokens */
+    outputPerMTok: number;
+}
+
+/**
+ * List prices per model family. Dated model IDs (e.g. gpt-4o-2024-08-06) match
+ * the longest family prefix. Update when vendors change pricing; costs are stored
+ * at record time so history is not rewritten.
+ */
+const MODEL_PRICING: Record<string, ModelPricing> = {
+    'gpt-4o': { inputPerMTok: 2.5, outputPerMTok: 10 },
+    'gpt-4o-mini': { inputPerMTok: 0.15, outputPerMTok: 0.6 },
+    'gpt-4.1': { inputPerMTok: 2, outputPerMTok: 8 },
+    'gpt-4.1-mini': { inputPerMTok: 0.4, outputPerMTok: 1.6 },
+    'claude-sonnet-4': { inputPerMTok: 3, outputPerMTok: 15 },
+    'claude-opus-4': { inputPerMTok: 15, outputPerMTok: 75 },
+    'claude-haiku-4': { inputPerMTok: 1, outputPerMTok: 5 },
+    'fake-model': { inputPerMTok: 0, outputPerMTok: 0 },
+};
+
+/** USD per web search tool call */
+const WEB_SEARCH_COST: Record<LLMProviderName, number> = {
+    openai: 0.025,
+    anthropic: 0.01,
+    fake: 0,
+};
+
+export function getModelPricing(model: string): ModelPricing | null {
+    const family = Object.keys(MODEL_PRICING)
+        .filter((key) => model === key || model.startsWith(`${key}-`))
+        .sort((a, b) => b.length - a.length)[0];
+    return family ? MODEL_PRICING[family] : null;
+}
+
+/**
+ * Estimate the USD cost of one call. Returns null when the model has no known pricing.
+ */
+export function estimateCostUsd(usage: {
+    provider: LLMProviderName;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    webSearchCalls: number;
+}): number | null {
+    const pricing = getModelPricing(usage.model);
+    if (!pricing) return null;
+
+    return (
+        (usage.inputTokens / 1_000_000) * pricing.inputPerMTok +
+        (usage.outputTokens / 1_000_000) * pricing.outputPerMTok +
+        usage.webSearchCalls * (WEB_SEARCH_COST[usage.provider] ?? 0)
+    );
+}
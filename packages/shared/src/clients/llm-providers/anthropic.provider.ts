@@ -0,0 +1,118 @@
+import type {
+    LLMProvider,
+    ResearchRequest,
+    ResearchResponse,
+    CompletionRequest,
+    CompletionResponse,
+    ProviderUsage,
+} from './types.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const RESEARCH_MAX_TOKENS = 4000;
+
+/**
+ * Anthropic provider using the Messages API over fetch.
+ * 'web_search_preview' is mapped to Anthropic's server-side web search tool.
+ */
+export class AnthropicProvider implements LLMProvider {
+    readonly name = 'anthropic' as const;
+    readonly defaultModel = 'claude-sonnet-4-5';
+    private apiKey: string;
+    private baseUrl: string;
+
+    constructor(apiKey: string, baseUrl: string = 'https://api.anthropic.com/v1') {
+        this.apiKey = apiKey;
+        this.baseUrl = baseUrl;
+    }
+
+    private async createMessage(body: Record<string, any>, signal?: AbortSignal): Promise<any> {
+        const res = await fetch(`${this.baseUrl}/messages`, {
+            method: 'POST',
+            headers: {
+                'x-api-key': this.apiKey,
+                'anthropic-version': ANTHROPIC_VERSION,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body),
+            signal,
+        });
+
+        if (!res.ok) {
+            const errBody = await res.text();
+            throw new Error(`Anthropic API POST /messages failed (${res.status}): ${errBody}`);
+        }
+
+        return res.json();
+    }
+
+    private mapTools(tools: string[]): Array<Record<string, any>> {
+        return tools.flatMap((type) => {
+            if (type === 'web_search_preview' || type === 'web_search') {
+                return [{ type: 'web_search_20250305', name: 'web_search', max_uses: 5 }];
+            }
+            return [];
+        });
+    }
+
+    async research(request: ResearchRequest, signal?: AbortSignal): Promise<ResearchResponse> {
+        const tools = this.mapTools(request.tools);
+        const response = await this.createMessage(
+            {
+                model: request.model,
+                system: request.instructions,
+                messages: [{ role: 'user', content: request.input }],
+                max_tokens: RESEARCH_MAX_TOKENS,
+                temperature: request.temperature,
+                ...(tools.length > 0 ? { tools } : {}),
+            },
+            signal
+        );
+
+        let text = '';
+        const citations: ResearchResponse['citations'] = [];
+
+        for (const block of response.content || []) {
+            if (block.type !== 'text') continue;
+            text += block.text || '';
+            for (const citation of block.citations || []) {
+                if (citation.type === 'web_search_result_location') {
+                    citations.push({
+                        title: citation.title || 'Source',
+                        url: citation.url,
+                        quote: citation.cited_text,
+                    });
+                }
+            }
+        }
+
+        return { text, citations, usage: this.toUsage(response) };
+    }
+
+    async complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse> {
+        const response = await this.createMessage(
+            {
+                model: request.model,
+                system: request.system,
+                messages: [{ role: 'user', content: request.user }],
+                max_tokens: request.maxTokens,
+                temperature: request.temperature,
+            },
+            signal
+        );
+
+        const text = (response.content || [])
+            .filter((block: any) => block.type === 'text')
+            .map((block: any) => block.text)
+            .join('');
+
+        return { text, usage: this.toUsage(response) };
+    }
+
+    private toUsage(response: any): ProviderUsage {
+        return {
+            inputTokens: response.usage?.input_tokens ?? 0,
+            outputTokens: response.usage?.output_tokens ?? 0,
+            webSearchCalls: response.usage?.server_tool_use?.web_search_requests ?? 0,
+        };
+    }
+}
@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import type {
+    LLMProvider,
+    ResearchRequest,
+    ResearchResponse,
+    CompletionRequest,
+    CompletionResponse,
+    ProviderUsage,
+} from './types.js';
+
+/**
+ * Fixture file shape for the fake provider. `{company}` and `{founder}` placeholders
+ * are substituted from the request input. Agents without a fixture fall back to `research.default`.
+ * Research `text` must be the structured JSON agents are asked to return.
+ */
+export interface FakeLLMFixtures {
+    research?: Record<string, Omit<ResearchResponse, 'usage'>>;
+    memo?: string;
+}
+
+const DEFAULT_RESEARCH: Omit<ResearchResponse, 'usage'> = {
+    text: JSON.stringify({
+        summary: '{company} is researched offline by the fake LLM provider; no web search was performed.',
+        claims: [
+            {
+                statement: '{company} operates in a growing market segment',
+                kind: 'fact',
+                source: 'fake provider',
+                evidenceUrl: 'https://example.com/fake-source',
+                confidence: 0.5,
+            },
+            {
+                statement: '{founder} is well placed to lead the company',
+                kind: 'assessment',
+                source: 'fake provider',
+                evidenceUrl: null,
+                confidence: 0.4,
+            },
+        ],
+        risks: [
+            { category: 'Execution', rating: 'Medium', rationale: 'Canned risk rating' },
+        ],
+        openQuestions: ['What is the current revenue run rate?'],
+        confidence: 0.5,
+    }),
+    citations: [
+        { title: 'Fake Source', url: 'https://example.com/fake-source' },
+    ],
+};
+
+const DEFAULT_MEMO = `## Executive Summary
+{company} is a canned memo generated offline by the fake LLM provider.
+
+## Company Overview
+- {company}, founded by {founder}
+
+## Market Opportunity
+- Canned market analysis
+
+## Competitive Landscape
+- Canned competitor analysis
+
+## Team Assessment
+- Canned team assessment
+
+## Product & Defensibility
+- Canned product analysis
+
+## Traction & Metrics
+- Canned traction summary
+
+## Key Risks
+- Canned risk summary
+
+## Investment Thesis
+- Canned thesis
+
+## Recommendation
+- More Info Needed (fake provider)`;
+
+/**
+ * Deterministic provider for tests and offline runs. Never touches the network.
+ * Responses come from a JSON fixtures file (LLM_FAKE_FIXTURES) or built-in defaults.
+ */
+export class FakeLLMProvider implements LLMProvider {
+    readonly name = 'fake' as const;
+    readonly defaultModel = 'fake-model';
+    private fixtures: FakeLLMFixtures;
+
+    constructor(fixtures: FakeLLMFixtures = {}) {
+        this.fixtures = fixtures;
+    }
+
+    static fromFile(filePath: string): FakeLLMProvider {
+        const fixtures = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as FakeLLMFixtures;
+        return new FakeLLMProvider(fixtures);
+    }
+
+    async research(request: ResearchRequest, signal?: AbortSignal): Promise<ResearchResponse> {
+        signal?.throwIfAborted();
+
+        const fixture = this.fixtures.research?.[request.agentKey]
+            ?? this.fixtures.research?.default
+            ?? DEFAULT_RESEARCH;
+        // Research text is JSON, so substituted values are escaped as JSON string content
+        const vars = Object.fromEntries(
+            Object.entries(parseInputVars(request.input)).map(([k, v]) => [k, JSON.stringify(v).slice(1, -1)])
+        );
+
+        const text = substitute(fixture.text, vars);
+        return {
+            text,
+            citations: fixture.citations.map((c) => ({ ...c })),
+            usage: estimateUsage(request.instructions + request.input, text, request.tools.length > 0 ? 1 : 0),
+        };
+    }
+
+    async complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse> {
+        signal?.throwIfAborted();
+        const text = substitute(this.fixtures.memo ?? DEFAULT_MEMO, parseInputVars(request.user));
+        return { text, usage: estimateUsage(request.system + request.user, text, 0) };
+    }
+}
+
+/**
+ * Rough, deterministic token counts (~4 chars per token) so usage accounting can be exercised offline.
+ */
+function estimateUsage(input: string, output: string, webSearchCalls: number): ProviderUsage {
+    return {
+        inputTokens: Math.ceil(input.length / 4),
+        outputTokens: Math.ceil(output.length / 4),
+        webSearchCalls,
+    };
+}
+
+function parseInputVars(input: string): Record<string, string> {
+    return {
+        company: input.match(/^Company:\s*(.+)$/m)?.[1]?.trim() || 'Unknown Company',
+        founder: input.match(/^Founder\(s\):\s*(.+)$/m)?.[1]?.trim() || 'Unknown Founder',
+    };
+}
+
+function substitute(template: string, vars: Record<string, string>): string {
+    return template.replace(/\{(\w+)\}/g, (match, name) => vars[name] ?? match);
+}
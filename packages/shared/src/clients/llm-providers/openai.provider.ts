@@ -0,0 +1,107 @@
+import type {
+    LLMProvider,
+    ResearchRequest,
+    ResearchResponse,
+    CompletionRequest,
+    CompletionResponse,
+} from './types.js';
+
+/**
+ * OpenAI provider: Responses API for research (web search tool), Chat Completions for synthesis.
+ */
+export class OpenAIProvider implements LLMProvider {
+    readonly name = 'openai' as const;
+    readonly defaultModel = 'gpt-4o';
+    private apiKey: string;
+    private clientPromise: Promise<any> | null = null;
+
+    constructor(apiKey: string) {
+        this.apiKey = apiKey;
+    }
+
+    private async getClient(): Promise<any> {
+        if (!this.clientPromise) {
+            this.clientPromise = import('openai').then(
+                (mod) => new mod.default({ apiKey: this.apiKey })
+            );
+        }
+        return this.clientPromise;
+    }
+
+    async research(request: ResearchRequest, signal?: AbortSignal): Promise<ResearchResponse> {
+        const openai = await this.getClient();
+
+        const response = await openai.responses.create(
+            {
+                model: request.model,
+                instructions: request.instructions,
+                input: request.input,
+                tools: request.tools.map((type) => ({ type })),
+                temperature: request.temperature,
+            },
+            { signal }
+        );
+
+        // Extract text content from the response output items
+        let text = '';
+        let webSearchCalls = 0;
+        const citations: ResearchResponse['citations'] = [];
+
+        for (const item of response.output || []) {
+            if (item.type === 'web_search_call') {
+                webSearchCalls++;
+            } else if (item.type === 'message') {
+                for (const block of item.content || []) {
+                    if (block.type === 'output_text') {
+                        text += block.text || '';
+                        // Extract inline citations/annotations if present
+                        for (const annotation of block.annotations || []) {
+                            if (annotation.type === 'url_citation') {
+                                citations.push({
+                                    title: annotation.title || 'Source',
+                                    url: annotation.url,
+                                });
+                            }
+                        }
+                    }
+                }
+            }
+        }
+
+        return {
+            text,
+            citations,
+            usage: {
+                inputTokens: response.usage?.input_tokens ?? 0,
+                outputTokens: response.usage?.output_tokens ?? 0,
+                webSearchCalls,
+            },
+        };
+    }
+
+    async complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse> {
+        const openai = await this.getClient();
+
+        const response = await openai.chat.completions.create(
+            {
+                model: request.model,
+                messages: [
+                    { role: 'system', content: request.system },
+                    { role: 'user', content: request.user },
+                ],
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+            },
+            { signal }
+        );
+
+        return {
+            text: response.choices[0]?.message?.content || '',
+            usage: {
+                inputTokens: response.usage?.prompt_tokens ?? 0,
+                outputTokens: response.usage?.completion_tokens ?? 0,
+                webSearchCalls: 0,
+            },
+        };
+    }
+}
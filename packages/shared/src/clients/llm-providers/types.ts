@@ -0,0 +1,52 @@
+export type LLMProviderName = 'openai' | 'anthropic' | 'fake';
+
+export interface ProviderUsage {
+    inputTokens: number;
+    outputTokens: number;
+    webSearchCalls: number;
+}
+
+export interface ProviderCitation {
+    title: string;
+    url?: string;
+    quote?: string;
+}
+
+/**
+ * A single research call: system instructions + user input, with optional tools.
+ * Tool names use the OpenAI vocabulary ('web_search_preview'); other providers map them.
+ */
+export interface ResearchRequest {
+    agentKey: string;
+    model: string;
+    instructions: string;
+    input: string;
+    tools: string[];
+    temperature: number;
+}
+
+export interface ResearchResponse {
+    text: string;
+    citations: ProviderCitation[];
+    usage: ProviderUsage;
+}
+
+export interface CompletionRequest {
+    model: string;
+    system: string;
+    user: string;
+    temperature: number;
+    maxTokens: number;
+}
+
+export interface CompletionResponse {
+    text: string;
+    usage: ProviderUsage;
+}
+
+export interface LLMProvider {
+    readonly name: LLMProviderName;
+    readonly defaultModel: string;
+    research(request: ResearchRequest, signal?: AbortSignal): Promise<ResearchResponse>;
+    complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse>;
+}
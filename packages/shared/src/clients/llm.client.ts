@@ -1,10 +1,39 @@
+import crypto from 'crypto';
+import { getSecret } from '../helpers/secrets.js';
+import type { LLMProvider, LLMProviderName } from './llm-providers/types.js';
+import { OpenAIProvider } from './llm-providers/openai.provider.js';
+import { AnthropicProvider } from './llm-providers/anthropic.provider.js';
+import { FakeLLMProvider } from './llm-providers/fake.provider.js';
+import {
+    parseStructuredResearch,
+    ResearchOutputError,
+    RESEARCH_OUTPUT_INSTRUCTIONS,
+    type ResearchClaim,
+    type RiskRating,
+    type StructuredResearch,
+} from './research-output.js';
+
 export interface LLMConfig {
-    apiKey: string;
+    /** OpenAI API key, used when no provider is given. */
+    apiKey?: string;
     model?: string;
+    provider?: LLMProvider;
+}
+
+export interface LLMUsage {
+    provider: LLMProviderName;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    webSearchCalls: number;
+    latencyMs: number;
 }
 
 export interface ResearchResult {
     summary: string;
+    claims: ResearchClaim[];
+    risks: RiskRating[];
+    openQuestions: string[];
     citations: Array<{
         title: string;
         url?: string;
@@ -12,6 +41,21 @@ export interface ResearchResult {
         confidence: number;
     }>;
     confidenceScore: number;
+    usage: LLMUsage;
+}
+
+/** What an agent researches, and so what its cached results are keyed on */
+export type ResearchCacheScope = 'company' | 'founder';
+
+export interface ResearchAgentDefinition {
+    key: string;
+    title: string;
+    prompt: string;
+    tools: string[];
+    model?: string | null;
+    displayOrder: number;
+    /** Default 'company'; 'founder' results are reused across every company the founder appears with */
+    cacheScope?: ResearchCacheScope;
 }
 
 export interface MemoResult {
@@ -20,14 +64,12 @@ export interface MemoResult {
         heading: string;
         content: string;
     }>;
+    usage: LLMUsage;
 }
 
 const BASE_ANALYST_PROMPT = `Act as a venture capital analyst preparing an investment diligence report.
 Instructions:
-- Format your output in markdown: use ### for section headings, - for bullet points, and **bold** for emphasis.
-- Write in concise, analytical bullet points (no paragraphs).
 - Quantify claims wherever possible (metrics, growth rates, market size, pricing, headcount, traction, etc.).
-- After each bullet, include the source in parentheses (e.g., (meeting notes), (company website), (Crunchbase), (news: outlet, date), (LinkedIn)).
 - Separate facts from interpretation (label opinions as "Assessment").
 - Highlight key risks, open questions, and diligence gaps.
 - Call out red flags and assumptions explicitly.
@@ -36,167 +78,229 @@ Instructions:
 - When using your general knowledge, note it as (general knowledge) to distinguish from verified sources.
 - No fluff. Prioritize investor-relevant signals over narrative.`;
 
-const RESEARCH_PROMPTS: Record<string, string> = {
-    market_tam: `${BASE_ANALYST_PROMPT}
-
-Analyze the market opportunity and Total Addressable Market (TAM). Provide:
+const MARKDOWN_OUTPUT_RULES = `- Format your output in markdown: use ### for section headings, - for bullet points, and **bold** for emphasis.
+- Write in concise, analytical bullet points (no paragraphs).
+- After each bullet, include the source in parentheses (e.g., (meeting notes), (company website), (Crunchbase), (news: outlet, date), (LinkedIn)).`;
+
+/**
+ * Built-in research agents. Seeded into each tenant's research_agents registry on first use;
+ * after that the database copy is authoritative and can be edited per tenant.
+ * Prompts are appended to BASE_ANALYST_PROMPT at run time.
+ */
+export const DEFAULT_RESEARCH_AGENTS: ResearchAgentDefinition[] = [
+    {
+        key: 'market_tam',
+        title: 'Market & TAM Analysis',
+        displayOrder: 10,
+        tools: ['web_search_preview'],
+        prompt: `Analyze the market opportunity and Total Addressable Market (TAM). Provide:
 1. Market size estimates with sources
 2. Growth rate and trends
 3. Key market drivers
 4. TAM/SAM/SOM breakdown`,
-
-    competitors: `${BASE_ANALYST_PROMPT}
-
-Analyze the competitive landscape. Provide:
+    },
+    {
+        key: 'competitors',
+        title: 'Competitive Landscape',
+        displayOrder: 20,
+        tools: ['web_search_preview'],
+        prompt: `Analyze the competitive landscape. Provide:
 1. Direct competitors and their funding/stage
 2. Indirect competitors
 3. Competitive advantages/disadvantages
 4. Market positioning map`,
-
-    founder_background: `${BASE_ANALYST_PROMPT}
-
-Research the founder(s) background. Provide:
+    },
+    {
+        key: 'founder_background',
+        title: 'Founder Background',
+        displayOrder: 30,
+        cacheScope: 'founder',
+        tools: ['web_search_preview'],
+        prompt: `Research the founder(s) background. Provide:
 1. Educational background
 2. Previous work experience
 3. Previous startups or exits
 4. Domain expertise relevance
 5. Notable achievements or connections`,
-
-    risks_redflags: `${BASE_ANALYST_PROMPT}
-
-Identify potential risks and red flags. Provide:
+    },
+    {
+        key: 'risks_redflags',
+        title: 'Risks & Red Flags',
+        displayOrder: 40,
+        tools: ['web_search_preview'],
+        prompt: `Identify potential risks and red flags. Provide:
 1. Market risks
 2. Execution risks
 3. Regulatory risks
 4. Technology risks
 5. Team risks
 6. Financial/business model risks
-Rate each risk as Low/Medium/High.`,
-
-    product_defensibility: `${BASE_ANALYST_PROMPT}
-
-Analyze the product and defensibility. Provide:
+Rate each risk as Low/Medium/High in the "risks" array.`,
+    },
+    {
+        key: 'product_defensibility',
+        title: 'Product & Defensibility',
+        displayOrder: 50,
+        tools: ['web_search_preview'],
+        prompt: `Analyze the product and defensibility. Provide:
 1. Product description and value proposition
 2. Technical moat (if any)
 3. Network effects
 4. Switching costs
 5. IP/patents
 6. Data advantages`,
-
-    traction_signals: `${BASE_ANALYST_PROMPT}
-
-Analyze traction signals. Look for:
+    },
+    {
+        key: 'traction_signals',
+        title: 'Traction Signals',
+        displayOrder: 60,
+        tools: ['web_search_preview'],
+        prompt: `Analyze traction signals. Look for:
 1. Revenue or growth metrics
 2. User/customer counts
 3. Press coverage and media mentions
 4. App store rankings
 5. Social media presence
 6. Partnership announcements`,
-};
+    },
+];
 
 export class LLMClient {
     private config: LLMConfig;
-    private clientPromise: Promise<any> | null = null;
+    private provider: LLMProvider;
 
     constructor(config: LLMConfig) {
         this.config = config;
+        this.provider = config.provider ?? new OpenAIProvider(config.apiKey || '');
     }
 
-    private async getClient(): Promise<any> {
-        if (!this.clientPromise) {
-            this.clientPromise = import('openai').then(
-                (mod) => new mod.default({ apiKey: this.config.apiKey })
-            );
-        }
-        return this.clientPromise;
+    /**
+     * Default model for calls that don't override it (agents may set their own).
+     */
+    get model(): string {
+        return this.config.model || this.provider.defaultModel;
+    }
+
+    get providerName(): LLMProviderName {
+        return this.provider.name;
     }
 
     /**
-     * Run a research agent using OpenAI Responses API with web search.
-     * The model will search the web in real-time for current information.
+     * Run a research agent with the agent's tools (web search by default).
+     * The model will search the web in real-time for current information and must answer
+     * with the structured JSON described by RESEARCH_OUTPUT_INSTRUCTIONS.
+     * Throws ResearchOutputError if the response does not validate.
      */
     async runResearch(
-        agentKey: string,
+        agent: ResearchAgentDefinition,
         companyName: string,
         founderName: string,
         additionalContext: string = '',
         signal?: AbortSignal
     ): Promise<ResearchResult> {
-        const systemPrompt = RESEARCH_PROMPTS[agentKey];
-        if (!systemPrompt) {
-            throw new Error(`Unknown research agent key: ${agentKey}`);
-        }
+        const systemPrompt = this.researchSystemPrompt(agent);
 
         const userPrompt = `Company: ${companyName}\nFounder(s): ${founderName}\n${additionalContext ? `\nPrimary Source Material (Meeting Notes):\n${additionalContext}\n(Prioritize these notes alongside web search results)` : ''}`;
 
-        const openai = await this.getClient();
-
-        // Use the Responses API with web_search_preview tool
-        const response = await openai.responses.create(
+        const model = agent.model || this.model;
+        const startedAt = Date.now();
+        const response = await this.provider.research(
             {
-                model: this.config.model || 'gpt-4o',
+                agentKey: agent.key,
+                model,
                 instructions: systemPrompt,
                 input: userPrompt,
-                tools: [{ type: 'web_search_preview' }],
+                tools: agent.tools,
                 temperature: 0.3,
             },
-            { signal }
+            signal
         );
 
-        // Extract text content from the response output items
-        let content = '';
-        const citations: ResearchResult['citations'] = [];
-
-        for (const item of response.output || []) {
-            if (item.type === 'message') {
-                for (const block of item.content || []) {
-                    if (block.type === 'output_text') {
-                        content += block.text || '';
-                        // Extract inline citations/annotations if present
-                        for (const annotation of block.annotations || []) {
-                            if (annotation.type === 'url_citation') {
-                                citations.push({
-                                    title: annotation.title || 'Source',
-                                    url: annotation.url,
-                                    confidence: 0.85,
-                                });
-                            }
-                        }
-                    }
-                }
+        const usage: LLMUsage = {
+            provider: this.provider.name,
+            model,
+            ...response.usage,
+            latencyMs: Date.now() - startedAt,
+        };
+
+        let structured: StructuredResearch;
+        try {
+            structured = parseStructuredResearch(response.text);
+        } catch (err) {
+            if (err instanceof ResearchOutputError) err.usage = usage;
+            throw err;
+        }
+
+        // Tool citations first, then any claim evidence URLs the tool didn't already cite
+        const citations: ResearchResult['citations'] = response.citations.map((c) => ({
+            ...c,
+            confidence: structured.claims.find((claim) => claim.evidenceUrl === c.url)?.confidence
+                ?? structured.confidence,
+        }));
+        for (const claim of structured.claims) {
+            if (claim.evidenceUrl && !citations.some((c) => c.url === claim.evidenceUrl)) {
+                citations.push({
+                    title: claim.source || claim.evidenceUrl,
+                    url: claim.evidenceUrl,
+                    quote: claim.statement,
+                    confidence: claim.confidence,
+                });
             }
         }
 
         return {
-            summary: content,
+            summary: structured.summary,
+            claims: structured.claims,
+            risks: structured.risks,
+            openQuestions: structured.openQuestions,
             citations,
-            confidenceScore: 0.85,
+            confidenceScore: structured.confidence,
+            usage,
         };
     }
 
+    /**
+     * Content hash of everything that shapes an agent's output apart from the company/founder:
+     * system prompt, output schema, tools and model. Changing any of them invalidates cached research.
+     */
+    promptVersion(agent: ResearchAgentDefinition): string {
+        return crypto
+            .createHash('sha256')
+            .update(JSON.stringify([
+                this.researchSystemPrompt(agent),
+                [...agent.tools].sort(),
+                this.provider.name,
+                agent.model || this.model,
+            ]))
+            .digest('hex')
+            .slice(0, 16);
+    }
+
+    private researchSystemPrompt(agent: ResearchAgentDefinition): string {
+        return `${BASE_ANALYST_PROMPT}\n\n${agent.prompt}\n\n${RESEARCH_OUTPUT_INSTRUCTIONS}`;
+    }
+
     /**
      * Generate an IC memo from research results and meeting notes.
-     * Uses standard Chat Completions API (no web search needed for synthesis).
+     * Uses a plain completion (no web search needed for synthesis).
      */
     async generateMemo(
         companyName: string,
         founderName: string,
-        researchSections: Record<string, string>,
+        research: Array<{ title: string; research: StructuredResearch }>,
         meetingNotes: string = '',
         signal?: AbortSignal
     ): Promise<MemoResult> {
-        const researchContext = Object.entries(researchSections)
-            .map(([key, content]) => `## ${key}\n${content}`)
+        const researchContext = research
+            .map(({ title, research: r }) => formatResearchForMemo(title, r))
             .join('\n\n');
 
-        const openai = await this.getClient();
-        const response = await openai.chat.completions.create(
+        const startedAt = Date.now();
+        const response = await this.provider.complete(
             {
-                model: this.config.model || 'gpt-4o',
-                messages: [
-                    {
-                        role: 'system',
-                        content: `${BASE_ANALYST_PROMPT}
+                model: this.model,
+                system: `${BASE_ANALYST_PROMPT}
+${MARKDOWN_OUTPUT_RULES}
 
 Prepare an Investment Committee (IC) memo. 
 
@@ -218,19 +322,20 @@ Materials to Use (in priority order):
 1. Meeting Notes (provided by user)
 2. Research Results (provided by user)
 3. General Knowledge`,
-                    },
-                    {
-                        role: 'user',
-                        content: `Company: ${companyName}\nFounder(s): ${founderName}\n\n${meetingNotes ? `Meeting Notes (High Priority):\n${meetingNotes}\n\n` : ''}Research Results:\n${researchContext}`,
-                    },
-                ],
+                user: `Company: ${companyName}\nFounder(s): ${founderName}\n\n${meetingNotes ? `Meeting Notes (High Priority):\n${meetingNotes}\n\n` : ''}Research Results:\n${researchContext}`,
                 temperature: 0.4,
-                max_tokens: 4000,
+                maxTokens: 4000,
             },
-            { signal }
+            signal
         );
 
-        const content = response.choices[0]?.message?.content || '';
+        const content = response.text;
+        const usage: LLMUsage = {
+            provider: this.provider.name,
+            model: this.model,
+            ...response.usage,
+            latencyMs: Date.now() - startedAt,
+        };
 
         // Parse sections from the memo
         const sections: MemoResult['sections'] = [];
@@ -265,6 +370,69 @@ Materials to Use (in priority order):
         return {
             title: `IC Memo — ${companyName}`,
             sections,
+            usage,
         };
     }
 }
+
+/**
+ * Render one agent's structured research as compact memo context.
+ */
+function formatResearchForMemo(title: string, research: StructuredResearch): string {
+    const lines = [`## ${title}`, `Summary: ${research.summary}`, `Confidence: ${research.confidence.toFixed(2)}`];
+
+    if (research.claims.length > 0) {
+        lines.push('Claims:');
+        for (const c of research.claims) {
+            const evidence = c.evidenceUrl ? `; ${c.evidenceUrl}` : '';
+            lines.push(`- [${c.kind.toUpperCase()}] ${c.statement} (${c.source || 'unsourced'}${evidence}; confidence ${c.confidence.toFixed(2)})`);
+        }
+    }
+    if (research.risks.length > 0) {
+        lines.push('Risk ratings:');
+        for (const r of research.risks) {
+            lines.push(`- ${r.category}: ${r.rating} — ${r.rationale}`);
+        }
+    }
+    if (research.openQuestions.length > 0) {
+        lines.push('Open questions:');
+        for (const q of research.openQuestions) {
+            lines.push(`- ${q}`);
+        }
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Factory: builds an LLMClient for the provider named by LLM_PROVIDER (default: openai).
+ * - openai: OPENAI_API_KEY secret
+ * - anthropic: ANTHROPIC_API_KEY secret
+ * - fake: canned responses from LLM_FAKE_FIXTURES (JSON file) or built-in defaults
+ */
+export async function createLLMClient(): Promise<LLMClient> {
+    const providerName = (process.env.LLM_PROVIDER || 'openai') as LLMProviderName;
+    const model = process.env.LLM_MODEL || undefined;
+
+    switch (providerName) {
+        case 'openai':
+            return new LLMClient({
+                provider: new OpenAIProvider(await getSecret('OPENAI_API_KEY')),
+                model,
+            });
+        case 'anthropic':
+            return new LLMClient({
+                provider: new AnthropicProvider(await getSecret('ANTHROPIC_API_KEY')),
+                model,
+            });
+        case 'fake':
+            return new LLMClient({
+                provider: process.env.LLM_FAKE_FIXTURES
+                    ? FakeLLMProvider.fromFile(process.env.LLM_FAKE_FIXTURES)
+                    : new FakeLLMProvider(),
+                model,
+            });
+        default:
+            throw new Error(`Unknown LLM provider: ${providerName}`);
+    }
+}
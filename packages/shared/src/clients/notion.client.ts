@@ -3,6 +3,8 @@ import type {
     BlockObjectRequest,
     CreatePageResponse,
 } from '@notionhq/client/build/src/api-endpoints.js';
+import type { ResearchResult } from './llm.client.js';
+import type { ResearchDiff } from './research-output.js';
 
 export interface NotionConfig {
     token: string;
@@ -48,6 +50,7 @@ export class NotionClient {
             meetingLink?: string;
             attendees?: string[];
             source?: string;
+            partner?: string;
         }
     ): Promise<DealWorkspace> {
         const title = `${companyName} — ${founderName}`;
@@ -58,6 +61,9 @@ export class NotionClient {
             this.paragraph(`**Company:** ${companyName}`),
             this.paragraph(`**Founder:** ${founderName}`),
             this.paragraph(`**Source:** ${metadata?.source || 'GCal'}`),
+            ...(metadata?.partner
+                ? [this.paragraph(`**Partner:** ${metadata.partner}`)]
+                : []),
             ...(metadata?.meetingTime
                 ? [this.paragraph(`**Meeting Time:** ${metadata.meetingTime}`)]
                 : []),
@@ -176,6 +182,46 @@ export class NotionClient {
         await Promise.all(updates);
     }
 
+    /**
+     * Update the '**Meeting Time:**' line in the deal page's Deal Overview.
+     * If the page has no such line (the event had no start time), it is inserted after the Source line.
+     */
+    async updateMeetingTime(dealPageId: string, meetingTime: string): Promise<void> {
+        const pageBlocks = await this.listAllBlocks(dealPageId);
+        const textOf = (block: any): string =>
+            block.type === 'paragraph'
+                ? block.paragraph.rich_text.map((t: any) => t.plain_text).join('')
+                : '';
+        const content = `**Meeting Time:** ${meetingTime}`;
+
+        const existing = pageBlocks.find((b) => textOf(b).startsWith('**Meeting Time:**'));
+        if (existing) {
+            await this.client.blocks.update({
+                block_id: existing.id,
+                paragraph: {
+                    rich_text: [{ type: 'text', text: { content } }],
+                },
+            });
+            return;
+        }
+
+        const anchor = pageBlocks.find((b) => textOf(b).startsWith('**Source:**'));
+        await this.client.blocks.children.append({
+            block_id: dealPageId,
+            children: [this.paragraph(content)],
+            ...(anchor ? { after: anchor.id } : {}),
+        });
+    }
+
+    /**
+     * Find a child page of `parentPageId` by its title (e.g. '📝 Meeting Notes' under a deal page).
+     */
+    async findChildPage(parentPageId: string, title: string): Promise<string | null> {
+        const pageBlocks = await this.listAllBlocks(parentPageId);
+        const page = pageBlocks.find((b) => b.type === 'child_page' && b.child_page.title === title);
+        return page?.id ?? null;
+    }
+
     /**
      * Archive (soft-delete) a page.
      */
@@ -237,6 +283,70 @@ export class NotionClient {
         }
     }
 
+    /**
+     * Replace the body of a heading_2 section on a page in place.
+     * The body runs from just after the heading matching `heading` up to (not including)
+     * the next heading_2 listed in `boundaryHeadings`, or the end of the page.
+     * The heading block itself is kept as the insertion anchor. If no matching heading
+     * exists, the heading and body are appended at the end of the page.
+     */
+    async replaceSection(
+        pageId: string,
+        heading: string,
+        body: BlockObjectRequest[],
+        boundaryHeadings: string[]
+    ): Promise<void> {
+        const pageBlocks = await this.listAllBlocks(pageId);
+        const headingText = (block: any): string | null =>
+            block.type === 'heading_2'
+                ? block.heading_2.rich_text.map((t: any) => t.plain_text).join('')
+                : null;
+
+        const start = pageBlocks.findIndex((b) => headingText(b) === heading);
+        if (start === -1) {
+            await this.appendBlocks(pageId, [this.heading2(heading), ...body]);
+            return;
+        }
+
+        let end = pageBlocks.length;
+        for (let i = start + 1; i < pageBlocks.length; i++) {
+            const text = headingText(pageBlocks[i]);
+            if (text !== null && boundaryHeadings.includes(text)) {
+                end = i;
+                break;
+            }
+        }
+
+        for (const block of pageBlocks.slice(start + 1, end)) {
+            await this.client.blocks.delete({ block_id: block.id });
+        }
+
+        await this.client.blocks.children.append({
+            block_id: pageId,
+            children: body,
+            after: pageBlocks[start].id,
+        });
+    }
+
+    /**
+     * List every top-level block on a page (handles pagination).
+     */
+    private async listAllBlocks(pageId: string): Promise<any[]> {
+        const blocks: any[] = [];
+        let cursor: string | undefined = undefined;
+
+        do {
+            const response = await this.client.blocks.children.list({
+                block_id: pageId,
+                start_cursor: cursor,
+            });
+            blocks.push(...response.results);
+            cursor = response.has_more ? response.next_cursor || undefined : undefined;
+        } while (cursor);
+
+        return blocks;
+    }
+
     /**
      * Parse inline markdown (bold, italic) into Notion rich_text objects.
      */
@@ -364,6 +474,101 @@ export class NotionClient {
         return blocks;
     }
 
+    /**
+     * Render a structured research result as the body of an agent section
+     * (everything after the agent heading, ending with a divider).
+     * `cachedAt` marks a result reused from the research cache; `diff` lists changes on refresh.
+     */
+    researchBlocks(
+        result: Omit<ResearchResult, 'usage'>,
+        provenance: { cachedAt?: Date | null; diff?: ResearchDiff | null } = {}
+    ): BlockObjectRequest[] {
+        const RISK_EMOJI: Record<string, string> = { Low: '🟢', Medium: '🟡', High: '🔴' };
+        const percent = (n: number) => `${Math.round(n * 100)}%`;
+        const blocks: BlockObjectRequest[] = [
+            ...this.createParagraphBlocks(result.summary),
+            this.paragraph(`Confidence: ${percent(result.confidenceScore)}`),
+        ];
+        if (provenance.cachedAt) {
+            blocks.push(this.richParagraph(
+                `*Reused cached research from ${new Date(provenance.cachedAt).toLocaleDateString()}.*`
+            ));
+        }
+
+        const claimBullet = (claim: ResearchResult['claims'][number]): BlockObjectRequest => {
+            const label = `(${claim.source || 'unsourced'}, ${percent(claim.confidence)})`;
+            return {
+                object: 'block',
+                type: 'bulleted_list_item',
+                bulleted_list_item: {
+                    rich_text: [
+                        { type: 'text', text: { content: `${claim.statement.substring(0, 1900)} ` } },
+                        {
+                            type: 'text',
+                            text: {
+                                content: label,
+                                ...(claim.evidenceUrl ? { link: { url: claim.evidenceUrl } } : {}),
+                            },
+                            annotations: { italic: true },
+                        },
+                    ],
+                },
+            } as BlockObjectRequest;
+        };
+
+        const facts = result.claims.filter((c) => c.kind === 'fact');
+        const assessments = result.claims.filter((c) => c.kind === 'assessment');
+
+        if (facts.length > 0) {
+            blocks.push(this.heading3('Facts'), ...facts.map(claimBullet));
+        }
+        if (assessments.length > 0) {
+            blocks.push(this.heading3('Assessments'), ...assessments.map(claimBullet));
+        }
+        if (result.risks.length > 0) {
+            blocks.push(
+                this.heading3('Risk Ratings'),
+                ...result.risks.map((r) =>
+                    this.richBullet(`${RISK_EMOJI[r.rating] || ''} **${r.rating}** — ${r.category}: ${r.rationale}`)
+                )
+            );
+        }
+        if (result.openQuestions.length > 0) {
+            blocks.push(this.heading3('Open Questions'), ...result.openQuestions.map((q) => this.bulletedList(q)));
+        }
+        if (result.citations.length > 0) {
+            blocks.push(
+                this.heading3('Sources'),
+                ...result.citations.map((c) =>
+                    this.bulletedList(`${c.title}${c.url ? ` — ${c.url}` : ''}`)
+                )
+            );
+        }
+
+        const diff = provenance.diff;
+        if (diff) {
+            const changes = [
+                ...diff.addedClaims.map((c) => `➕ ${c.statement}`),
+                ...diff.removedClaims.map((c) => `➖ ${c.statement}`),
+                ...diff.riskChanges.map((r) => `${r.category}: ${r.previous ?? 'none'} → ${r.current ?? 'none'}`),
+                ...diff.addedOpenQuestions.map((q) => `New question: ${q}`),
+                ...diff.resolvedOpenQuestions.map((q) => `No longer open: ${q}`),
+            ];
+            blocks.push(this.heading3('Changes Since Last Run'));
+            if (changes.length === 0) {
+                blocks.push(this.paragraph('No material changes.'));
+            }
+            blocks.push(...changes.map((c) => this.bulletedList(c)));
+            if (Math.abs(diff.confidenceDelta) >= 0.01) {
+                const sign = diff.confidenceDelta > 0 ? '+' : '';
+                blocks.push(this.paragraph(`Confidence change: ${sign}${Math.round(diff.confidenceDelta * 100)} pts`));
+            }
+        }
+
+        blocks.push(this.divider());
+        return blocks;
+    }
+
     // ---- Block builders ----
 
     private async createPage(
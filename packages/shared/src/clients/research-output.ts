@@ -0,0 +1,191 @@
+import type { LLMUsage } from './llm.client.js';
+
+/**
+ * Structured research agent output: the JSON shape agents are instructed to return,
+ * plus the validator that turns raw model text into it.
+ */
+
+export type ClaimKind = 'fact' | 'assessment';
+export type RiskLevel = 'Low' | 'Medium' | 'High';
+
+export interface ResearchClaim {
+    statement: string;
+    kind: ClaimKind;
+    /** Where the claim came from, e.g. "meeting notes", "company website", "general knowledge". */
+    source: string;
+    evidenceUrl: string | null;
+    confidence: number;
+}
+
+export interface RiskRating {
+    category: string;
+    rating: RiskLevel;
+    rationale: string;
+}
+
+export interface StructuredResearch {
+    summary: string;
+    claims: ResearchClaim[];
+    risks: RiskRating[];
+    openQuestions: string[];
+    confidence: number;
+}
+
+export class ResearchOutputError extends Error {
+    /** Usage of the call that produced the invalid output (set by LLMClient), so it can still be billed. */
+    usage?: LLMUsage;
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'ResearchOutputError';
+    }
+}
+
+export const RESEARCH_OUTPUT_INSTRUCTIONS = `Output format:
+Respond with ONLY a single JSON object (no markdown, no code fences, no commentary) matching:
+{
+  "summary": string,              // 2-3 sentence overview of your findings
+  "claims": [                     // one entry per finding
+    {
+      "statement": string,        // concise, quantified where possible
+      "kind": "fact" | "assessment",  // "fact" = sourced, "assessment" = your interpretation
+      "source": string,           // e.g. "meeting notes", "company website", "Crunchbase", "news: outlet, date", "general knowledge"
+      "evidenceUrl": string | null,   // URL backing the claim, null if none
+      "confidence": number        // 0-1, how well supported the claim is
+    }
+  ],
+  "risks": [                      // only when asked to rate risks, otherwise []
+    { "category": string, "rating": "Low" | "Medium" | "High", "rationale": string }
+  ],
+  "openQuestions": string[],      // diligence gaps and follow-up questions
+  "confidence": number            // 0-1, overall confidence in this section
+}`;
+
+/**
+ * Parse and validate model output into StructuredResearch.
+ * Tolerates surrounding code fences or prose around the JSON object; throws ResearchOutputError otherwise.
+ */
+export function parseStructuredResearch(text: string): StructuredResearch {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+        throw new ResearchOutputError('Research output does not contain a JSON object');
+    }
+
+    let raw: any;
+    try {
+        raw = JSON.parse(text.slice(start, end + 1));
+    } catch (err: any) {
+        throw new ResearchOutputError(`Research output is not valid JSON: ${err.message}`);
+    }
+
+    if (typeof raw?.summary !== 'string') {
+        throw new ResearchOutputError('Research output is missing "summary"');
+    }
+    if (!Array.isArray(raw.claims)) {
+        throw new ResearchOutputError('Research output is missing "claims"');
+    }
+
+    const claims: ResearchClaim[] = raw.claims.map((c: any, i: number) => {
+        if (typeof c?.statement !== 'string' || !c.statement.trim()) {
+            throw new ResearchOutputError(`Claim ${i} is missing "statement"`);
+        }
+        if (c.kind !== 'fact' && c.kind !== 'assessment') {
+            throw new ResearchOutputError(`Claim ${i} has invalid "kind": ${c.kind}`);
+        }
+        return {
+            statement: c.statement.trim(),
+            kind: c.kind,
+            source: typeof c.source === 'string' ? c.source : '',
+            evidenceUrl: isHttpUrl(c.evidenceUrl) ? c.evidenceUrl : null,
+            confidence: clampConfidence(c.confidence),
+        };
+    });
+
+    const risks: RiskRating[] = (Array.isArray(raw.risks) ? raw.risks : []).map((r: any, i: number) => {
+        if (r?.rating !== 'Low' && r?.rating !== 'Medium' && r?.rating !== 'High') {
+            throw new ResearchOutputError(`Risk ${i} has invalid "rating": ${r?.rating}`);
+        }
+        return {
+            category: typeof r.category === 'string' ? r.category : 'General',
+            rating: r.rating,
+            rationale: typeof r.rationale === 'string' ? r.rationale : '',
+        };
+    });
+
+    const openQuestions: string[] = (Array.isArray(raw.openQuestions) ? raw.openQuestions : [])
+        .filter((q: any) => typeof q === 'string' && q.trim())
+        .map((q: string) => q.trim());
+
+    // Prefer the model's overall confidence; fall back to the mean claim confidence
+    const confidence = typeof raw.confidence === 'number'
+        ? clampConfidence(raw.confidence)
+        : claims.length > 0
+            ? claims.reduce((sum, c) => sum + c.confidence, 0) / claims.length
+            : 0;
+
+    return { summary: raw.summary.trim(), claims, risks, openQuestions, confidence };
+}
+
+/**
+ * What changed between two runs of the same agent (used by research cache refresh mode).
+ * Claims and open questions are matched on normalized text; risks on category.
+ */
+export interface ResearchDiff {
+    addedClaims: ResearchClaim[];
+    removedClaims: ResearchClaim[];
+    riskChanges: Array<{
+        category: string;
+        previous: RiskRating['rating'] | null;
+        current: RiskRating['rating'] | null;
+    }>;
+    addedOpenQuestions: string[];
+    resolvedOpenQuestions: string[];
+    confidenceDelta: number;
+}
+
+type DiffableResearch = Pick<StructuredResearch, 'claims' | 'risks' | 'openQuestions' | 'confidence'>;
+
+export function diffResearch(previous: DiffableResearch, current: DiffableResearch): ResearchDiff {
+    const previousClaims = new Set(previous.claims.map((c) => normalizeText(c.statement)));
+    const currentClaims = new Set(current.claims.map((c) => normalizeText(c.statement)));
+    const previousQuestions = new Set(previous.openQuestions.map(normalizeText));
+    const currentQuestions = new Set(current.openQuestions.map(normalizeText));
+
+    const previousRisks = new Map(previous.risks.map((r) => [normalizeText(r.category), r]));
+    const currentRisks = new Map(current.risks.map((r) => [normalizeText(r.category), r]));
+    const riskChanges: ResearchDiff['riskChanges'] = [];
+    for (const key of new Set([...previousRisks.keys(), ...currentRisks.keys()])) {
+        const before = previousRisks.get(key);
+        const after = currentRisks.get(key);
+        if (before?.rating !== after?.rating) {
+            riskChanges.push({
+                category: (after ?? before)!.category,
+                previous: before?.rating ?? null,
+                current: after?.rating ?? null,
+            });
+        }
+    }
+
+    return {
+        addedClaims: current.claims.filter((c) => !previousClaims.has(normalizeText(c.statement))),
+        removedClaims: previous.claims.filter((c) => !currentClaims.has(normalizeText(c.statement))),
+        riskChanges,
+        addedOpenQuestions: current.openQuestions.filter((q) => !previousQuestions.has(normalizeText(q))),
+        resolvedOpenQuestions: previous.openQuestions.filter((q) => !currentQuestions.has(normalizeText(q))),
+        confidenceDelta: current.confidence - previous.confidence,
+    };
+}
+
+function normalizeText(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, ' ').replace(/[.!?;:,\s]+$/, '').trim();
+}
+
+function clampConfidence(value: any): number {
+    const n = typeof value === 'number' && Number.isFinite(value) ? value : 0;
+    return Math.min(1, Math.max(0, n));
+}
+
+function isHttpUrl(value: any): value is string {
+    return typeof value === 'string' && /^https?:\/\/\S+$/.test(value);
+}
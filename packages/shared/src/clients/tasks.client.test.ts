@@ -0,0 +1,42 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LocalTasksEnqueuer } from './tasks.client.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('LocalTasksEnqueuer.enqueueAt', () => {
+    const task = { jobType: 'FOLLOW_UP_REMINDER' as const, tenantId: 'tenant-1', payload: { dealId: 'deal-1' } };
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        fetchMock = vi.fn().mockResolvedValue({ ok: true });
+        vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('dispatches when the delay elapses', async () => {
+        await new LocalTasksEnqueuer('http://worker').enqueueAfter(task, 60);
+
+        await vi.advanceTimersByTimeAsync(59_000);
+        expect(fetchMock).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(1_000);
+        expect(fetchMock).toHaveBeenCalledWith('http://worker/tasks/dispatch', expect.anything());
+    });
+
+    it('waits out delays longer than setTimeout allows instead of firing early', async () => {
+        await new LocalTasksEnqueuer('http://worker').enqueueAt(task, new Date(Date.now() + 30 * DAY_MS));
+
+        await vi.advanceTimersByTimeAsync(25 * DAY_MS);
+        expect(fetchMock).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(5 * DAY_MS - 1);
+        expect(fetchMock).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(1);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+});
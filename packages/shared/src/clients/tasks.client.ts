@@ -4,24 +4,83 @@ export type JobType =
     | 'STAGE_ACTION'
     | 'RESEARCH_AGENT'
     | 'RESEARCH_BATCH'
-    | 'MEMO_GENERATE';
+    | 'MEMO_GENERATE'
+    | 'FOLLOW_UP_REMINDER';
 
-const QUEUE_MAP: Record<JobType, string> = {
+import crypto from 'crypto';
+import * as jobQueueRepo from '../db/repos/job-queue.repo.js';
+
+export const QUEUE_MAP: Record<JobType, string> = {
     GCAL_SYNC: 'q-gcal-sync',
     ASANA_PROCESS: 'q-asana-events',
     STAGE_ACTION: 'q-stage-actions',
     RESEARCH_AGENT: 'q-research',
     RESEARCH_BATCH: 'q-research',
     MEMO_GENERATE: 'q-research',
+    FOLLOW_UP_REMINDER: 'q-stage-actions',
 };
 
+export interface QueuePolicy {
+    maxAttempts: number;
+    minBackoffSeconds: number;
+    maxBackoffSeconds: number;
+    maxDoublings: number;
+    maxConcurrent: number;
+}
+
+/**
+ * Mirrors retry_config and rate_limits of each queue in infra/terraform/cloud-tasks.tf.
+ * Cloud Tasks enforces these itself; the dispatcher uses maxAttempts to dead-letter a job on its
+ * last attempt, and the Postgres queue applies all of them.
+ */
+export const QUEUE_POLICIES: Record<string, QueuePolicy> = {
+    'q-gcal-sync': { maxAttempts: 5, minBackoffSeconds: 10, maxBackoffSeconds: 300, maxDoublings: 3, maxConcurrent: 3 },
+    'q-asana-events': { maxAttempts: 5, minBackoffSeconds: 5, maxBackoffSeconds: 120, maxDoublings: 3, maxConcurrent: 5 },
+    'q-stage-actions': { maxAttempts: 3, minBackoffSeconds: 30, maxBackoffSeconds: 600, maxDoublings: 2, maxConcurrent: 3 },
+    'q-research': { maxAttempts: 3, minBackoffSeconds: 60, maxBackoffSeconds: 900, maxDoublings: 2, maxConcurrent: 6 },
+};
+
+export function getMaxAttempts(jobType: JobType): number {
+    return QUEUE_POLICIES[QUEUE_MAP[jobType]]?.maxAttempts ?? 3;
+}
+
+/**
+ * Delay before the next attempt, Cloud Tasks style: the interval doubles `maxDoublings` times,
+ * then grows linearly, capped at maxBackoffSeconds. `attempt` is the attempt that just failed (1-based).
+ */
+export function retryBackoffSeconds(queue: string, attempt: number): number {
+    const policy = QUEUE_POLICIES[queue];
+    if (!policy) return 60;
+    const step = Math.max(0, attempt - 1);
+    const doublings = Math.min(step, policy.maxDoublings);
+    const linearSteps = step - doublings;
+    const interval = policy.minBackoffSeconds * 2 ** doublings * (1 + linearSteps);
+    return Math.min(interval, policy.maxBackoffSeconds);
+}
+
 export interface TaskPayload {
     jobType: JobType;
     tenantId: string;
     payload: Record<string, any>;
+    /**
+     * Deduplicates the job end to end: it becomes the Cloud Tasks task name (duplicates are
+     * rejected at enqueue) and the dispatcher claims it before running the handler.
+     */
     idempotencyKey?: string;
 }
 
+/**
+ * Cloud Tasks task IDs allow only [A-Za-z0-9_-]; hashing also spreads names across the keyspace,
+ * which Cloud Tasks recommends over sequential IDs.
+ */
+export function taskIdForKey(jobType: JobType, idempotencyKey: string): string {
+    const hash = crypto.createHash('sha256').update(`${jobType}\n${idempotencyKey}`).digest('hex');
+    return `${hash.slice(0, 40)}-${jobType.toLowerCase()}`;
+}
+
+/** gRPC ALREADY_EXISTS, returned when a task with the same name exists (or existed recently) */
+const GRPC_ALREADY_EXISTS = 6;
+
 export interface CloudTasksConfig {
     projectId: string;
     region: string;
@@ -32,6 +91,13 @@ export interface CloudTasksConfig {
 export interface TasksEnqueuer {
     enqueue(taskPayload: TaskPayload): Promise<string>;
     enqueueMany(tasks: TaskPayload[]): Promise<string[]>;
+    /** Deliver the task no earlier than `runAt` (a past time runs immediately). */
+    enqueueAt(taskPayload: TaskPayload, runAt: Date): Promise<string>;
+    enqueueAfter(taskPayload: TaskPayload, delaySeconds: number): Promise<string>;
+}
+
+function delayToDate(delaySeconds: number): Date {
+    return new Date(Date.now() + Math.max(0, delaySeconds) * 1000);
 }
 
 export class CloudTasksEnqueuer implements TasksEnqueuer {
@@ -59,6 +125,21 @@ export class CloudTasksEnqueuer implements TasksEnqueuer {
      * Attaches an OIDC token for authenticating to the worker service.
      */
     async enqueue(taskPayload: TaskPayload): Promise<string> {
+        return this.createTask(taskPayload);
+    }
+
+    /**
+     * Schedule via the task's scheduleTime (Cloud Tasks accepts up to 30 days ahead).
+     */
+    async enqueueAt(taskPayload: TaskPayload, runAt: Date): Promise<string> {
+        return this.createTask(taskPayload, runAt);
+    }
+
+    async enqueueAfter(taskPayload: TaskPayload, delaySeconds: number): Promise<string> {
+        return this.createTask(taskPayload, delayToDate(delaySeconds));
+    }
+
+    private async createTask(taskPayload: TaskPayload, runAt?: Date): Promise<string> {
         const client = await this.getClient();
         const queueName = QUEUE_MAP[taskPayload.jobType];
         const parent = client.queuePath(
@@ -68,27 +149,46 @@ export class CloudTasksEnqueuer implements TasksEnqueuer {
         );
 
         const body = JSON.stringify(taskPayload);
+        const name = taskPayload.idempotencyKey
+            ? client.taskPath(
+                this.config.projectId,
+                this.config.region,
+                queueName,
+                taskIdForKey(taskPayload.jobType, taskPayload.idempotencyKey)
+            )
+            : undefined;
 
-        const [response] = await client.createTask({
-            parent,
-            task: {
-                httpRequest: {
-                    httpMethod: 'POST',
-                    url: `${this.config.workerUrl}/tasks/dispatch`,
-                    headers: {
-                        'Content-Type': 'application/json',
-                    },
-                    body: Buffer.from(body).toString('base64'),
-                    oidcToken: {
-                        serviceAccountEmail: this.config.serviceAccountEmail,
-                        audience: this.config.workerUrl,
+        let response;
+        try {
+            [response] = await client.createTask({
+                parent,
+                task: {
+                    ...(name ? { name } : {}),
+                    httpRequest: {
+                        httpMethod: 'POST',
+                        url: `${this.config.workerUrl}/tasks/dispatch`,
+                        headers: {
+                            'Content-Type': 'application/json',
+                        },
+                        body: Buffer.from(body).toString('base64'),
+                        oidcToken: {
+                            serviceAccountEmail: this.config.serviceAccountEmail,
+                            audience: this.config.workerUrl,
+                        },
                     },
+                    ...(runAt ? { scheduleTime: { seconds: Math.floor(runAt.getTime() / 1000) } } : {}),
                 },
-            },
-        });
+            });
+        } catch (err: any) {
+            if (name && err.code === GRPC_ALREADY_EXISTS) {
+                console.log(`[TASKS] Duplicate ${taskPayload.jobType} rejected by Cloud Tasks: ${name}`);
+                return name;
+            }
+            throw err;
+        }
 
         const taskName = response.name || 'unknown';
-        console.log(`[TASKS] Enqueued ${taskPayload.jobType} → ${queueName}: ${taskName}`);
+        console.log(`[TASKS] Enqueued ${taskPayload.jobType} → ${queueName}: ${taskName}${runAt ? ` (at ${runAt.toISOString()})` : ''}`);
         return taskName;
     }
 
@@ -97,6 +197,9 @@ export class CloudTasksEnqueuer implements TasksEnqueuer {
     }
 }
 
+/** Largest delay setTimeout accepts */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
 /**
  * Local development stub that calls the worker directly via HTTP.
  */
@@ -126,18 +229,104 @@ export class LocalTasksEnqueuer implements TasksEnqueuer {
     async enqueueMany(tasks: TaskPayload[]): Promise<string[]> {
         return Promise.all(tasks.map((t) => this.enqueue(t)));
     }
+
+    /**
+     * In-memory timer only: the task is lost if this process exits before it fires.
+     * Use TASKS_BACKEND=postgres for durable scheduling without GCP.
+     */
+    async enqueueAt(taskPayload: TaskPayload, runAt: Date): Promise<string> {
+        console.log(`[TASKS-LOCAL] Scheduling ${taskPayload.jobType} at ${runAt.toISOString()}`);
+
+        this.armTimer(runAt, () => {
+            this.enqueue(taskPayload).catch((err) => {
+                console.error(`[TASKS-LOCAL] Scheduled ${taskPayload.jobType} failed: ${err.message}`);
+            });
+        });
+
+        return `local-scheduled-${runAt.getTime()}`;
+    }
+
+    /**
+     * setTimeout fires at once for delays over ~24.8 days (2^31 - 1 ms),
+     * so longer delays are waited out in steps, re-arming until runAt.
+     */
+    private armTimer(runAt: Date, fire: () => void): void {
+        const delayMs = Math.max(0, runAt.getTime() - Date.now());
+        const timer = setTimeout(() => {
+            if (Date.now() >= runAt.getTime()) fire();
+            else this.armTimer(runAt, fire);
+        }, Math.min(delayMs, MAX_TIMER_DELAY_MS));
+        timer.unref();
+    }
+
+    async enqueueAfter(taskPayload: TaskPayload, delaySeconds: number): Promise<string> {
+        return this.enqueueAt(taskPayload, delayToDate(delaySeconds));
+    }
 }
 
 /**
- * Factory: returns Cloud Tasks enqueuer in GCP, local HTTP enqueuer for dev.
+ * Durable queue in the job_queue table, drained by the worker's PostgresQueuePoller.
+ * Gives self-hosted and local setups at-least-once delivery without GCP.
+ * Returned task names ("pg:<id>") are what the poller reports as X-CloudTasks-TaskName would.
+ */
+export class PostgresTasksEnqueuer implements TasksEnqueuer {
+    async enqueue(taskPayload: TaskPayload): Promise<string> {
+        return this.insertJob(taskPayload);
+    }
+
+    async enqueueMany(tasks: TaskPayload[]): Promise<string[]> {
+        return Promise.all(tasks.map((t) => this.enqueue(t)));
+    }
+
+    async enqueueAt(taskPayload: TaskPayload, runAt: Date): Promise<string> {
+        return this.insertJob(taskPayload, runAt);
+    }
+
+    async enqueueAfter(taskPayload: TaskPayload, delaySeconds: number): Promise<string> {
+        return this.insertJob(taskPayload, delayToDate(delaySeconds));
+    }
+
+    private async insertJob(taskPayload: TaskPayload, runAt?: Date): Promise<string> {
+        const queue = QUEUE_MAP[taskPayload.jobType];
+        const job = await jobQueueRepo.enqueueJob({
+            queue,
+            jobType: taskPayload.jobType,
+            tenantId: taskPayload.tenantId,
+            payload: taskPayload.payload,
+            idempotencyKey: taskPayload.idempotencyKey,
+            maxAttempts: getMaxAttempts(taskPayload.jobType),
+            runAt,
+        });
+
+        const taskName = postgresTaskName(job.id);
+        console.log(`[TASKS-PG] Enqueued ${taskPayload.jobType} → ${queue}: ${taskName}${runAt ? ` (at ${runAt.toISOString()})` : ''}`);
+        return taskName;
+    }
+}
+
+export function postgresTaskName(jobId: string): string {
+    return `pg:${jobId}`;
+}
+
+/**
+ * Factory: TASKS_BACKEND selects 'cloud-tasks', 'postgres' or 'local' explicitly.
+ * Unset: Cloud Tasks enqueuer in GCP, local HTTP enqueuer for dev.
  */
 export function createTasksEnqueuer(): TasksEnqueuer {
     const projectId = process.env.PROJECT_ID;
     const region = process.env.REGION;
     const workerUrl = process.env.WORKER_URL;
     const saEmail = process.env.TASKS_INVOKER_SA_EMAIL;
+    const backend = process.env.TASKS_BACKEND;
+
+    if (backend === 'postgres') {
+        return new PostgresTasksEnqueuer();
+    }
+    if (backend === 'local') {
+        return new LocalTasksEnqueuer(workerUrl || 'http://localhost:8082');
+    }
 
-    if (projectId && region && saEmail && workerUrl && !process.env.LOCAL_DEV) {
+    if (projectId && region && saEmail && workerUrl && (backend === 'cloud-tasks' || !process.env.LOCAL_DEV)) {
         return new CloudTasksEnqueuer({
             projectId,
             region,
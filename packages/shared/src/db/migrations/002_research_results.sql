@@ -0,0 +1,17 @@
+-- Research agent outputs (one row per agent per workflow run)
+CREATE TABLE IF NOT EXISTS research_results (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_id uuid REFERENCES tenants(id),
+  deal_id uuid NOT NULL REFERENCES deals(id),
+  workflow_run_id uuid NOT NULL REFERENCES workflow_runs(id),
+  agent_key text NOT NULL,
+  summary text NOT NULL,
+  citations jsonb NOT NULL DEFAULT '[]'::jsonb,
+  confidence_score real,
+  model text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (workflow_run_id, agent_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_research_results_deal ON research_results(deal_id, agent_key, created_at DESC);
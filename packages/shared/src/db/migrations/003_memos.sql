@@ -0,0 +1,16 @@
+-- Generated IC memos, with the research they were built from
+CREATE TABLE IF NOT EXISTS memos (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_id uuid REFERENCES tenants(id),
+  deal_id uuid NOT NULL REFERENCES deals(id),
+  workflow_run_id uuid NOT NULL REFERENCES workflow_runs(id),
+  title text NOT NULL,
+  sections jsonb NOT NULL DEFAULT '[]'::jsonb,
+  research_result_ids uuid[] NOT NULL DEFAULT '{}',
+  research_run_ids uuid[] NOT NULL DEFAULT '{}',
+  meeting_notes_included boolean NOT NULL DEFAULT false,
+  model text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_memos_deal ON memos(deal_id, created_at DESC);
@@ -0,0 +1,15 @@
+-- Per-tenant research agent registry (built-in agents are seeded on first use)
+CREATE TABLE IF NOT EXISTS research_agents (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_id uuid REFERENCES tenants(id),
+  agent_key text NOT NULL,
+  title text NOT NULL,
+  prompt text NOT NULL,
+  tools jsonb NOT NULL DEFAULT '["web_search_preview"]'::jsonb,
+  model text,
+  display_order integer NOT NULL DEFAULT 0,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, agent_key)
+);
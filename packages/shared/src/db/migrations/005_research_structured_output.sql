@@ -0,0 +1,4 @@
+-- Structured research output (claims with evidence, risk ratings, open questions)
+ALTER TABLE research_results ADD COLUMN IF NOT EXISTS claims jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE research_results ADD COLUMN IF NOT EXISTS risks jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE research_results ADD COLUMN IF NOT EXISTS open_questions jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,21 @@
+-- Per-call LLM usage and estimated cost
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_id uuid REFERENCES tenants(id),
+  workflow_run_id uuid REFERENCES workflow_runs(id),
+  deal_id uuid REFERENCES deals(id),
+  call_type text NOT NULL CHECK (call_type IN ('research','memo')),
+  agent_key text,
+  provider text NOT NULL,
+  model text NOT NULL,
+  input_tokens integer NOT NULL DEFAULT 0,
+  output_tokens integer NOT NULL DEFAULT 0,
+  web_search_calls integer NOT NULL DEFAULT 0,
+  latency_ms integer NOT NULL DEFAULT 0,
+  cost_usd numeric(12,6),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_run ON llm_usage(workflow_run_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_deal ON llm_usage(deal_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_tenant_created ON llm_usage(tenant_id, created_at);
@@ -0,0 +1,20 @@
+-- Content-addressed research cache: one entry per (agent, company or founder, prompt version)
+CREATE TABLE IF NOT EXISTS research_cache (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_id uuid REFERENCES tenants(id),
+  cache_key text NOT NULL,
+  agent_key text NOT NULL,
+  company_key text NOT NULL,
+  founder_key text NOT NULL,
+  prompt_version text NOT NULL,
+  result jsonb NOT NULL,
+  model text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, cache_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_research_cache_company ON research_cache(tenant_id, company_key);
+
+-- Where a stored result came from, and what changed when it was refreshed
+ALTER TABLE research_results ADD COLUMN IF NOT EXISTS from_cache boolean NOT NULL DEFAULT false;
+ALTER TABLE research_results ADD COLUMN IF NOT EXISTS refresh_diff jsonb;
@@ -0,0 +1,43 @@
+-- Every worker dispatch, one row per attempt.
+-- tenant_id is not a foreign key: a job with a bad tenant must still be recorded.
+CREATE TABLE IF NOT EXISTS job_attempts (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_id uuid,
+  job_type text NOT NULL,
+  task_name text,
+  idempotency_key text,
+  payload jsonb NOT NULL,
+  attempt integer NOT NULL DEFAULT 1,
+  status text NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running','succeeded','failed','dead_lettered')),
+  error text,
+  error_kind text CHECK (error_kind IN ('retryable','permanent')),
+  duration_ms integer,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_attempts_task ON job_attempts(task_name);
+CREATE INDEX IF NOT EXISTS idx_job_attempts_started ON job_attempts(started_at);
+CREATE INDEX IF NOT EXISTS idx_job_attempts_failed ON job_attempts(job_type, status)
+  WHERE status IN ('failed','dead_lettered');
+
+-- Jobs that failed permanently or exhausted their retries
+CREATE TABLE IF NOT EXISTS job_dead_letters (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_id uuid,
+  job_type text NOT NULL,
+  task_name text,
+  idempotency_key text,
+  payload jsonb NOT NULL,
+  attempts integer NOT NULL,
+  last_attempt_id uuid REFERENCES job_attempts(id) ON DELETE SET NULL,
+  last_error text,
+  error_kind text NOT NULL CHECK (error_kind IN ('retryable','permanent')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','replayed','discarded')),
+  replay_task_name text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_dead_letters_status ON job_dead_letters(status, created_at);
@@ -0,0 +1,21 @@
+-- Postgres-backed task queue (TASKS_BACKEND=postgres), polled by the worker
+CREATE TABLE IF NOT EXISTS job_queue (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  queue text NOT NULL,
+  job_type text NOT NULL,
+  tenant_id uuid NOT NULL,
+  payload jsonb NOT NULL,
+  idempotency_key text,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued','running','succeeded','dead')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL,
+  run_at timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz,
+  locked_by text,
+  last_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_queue_ready ON job_queue(queue, run_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_job_queue_running ON job_queue(locked_at) WHERE status = 'running';
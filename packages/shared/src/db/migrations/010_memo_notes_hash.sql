@@ -0,0 +1,2 @@
+-- Hash of the meeting notes a memo was built from, so scheduled regeneration can skip unchanged notes
+ALTER TABLE memos ADD COLUMN IF NOT EXISTS meeting_notes_hash text;
@@ -0,0 +1,3 @@
+-- At most one pending/running queue job per idempotency key (mirrors Cloud Tasks task-name dedup)
+CREATE UNIQUE INDEX IF NOT EXISTS uq_job_queue_idempotency_active ON job_queue(idempotency_key)
+  WHERE idempotency_key IS NOT NULL AND status IN ('queued','running');
@@ -0,0 +1,29 @@
+-- Asana pipeline projects per tenant; each has its own webhook and section mapping in pipeline_sections
+CREATE TABLE IF NOT EXISTS asana_pipelines (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_id uuid REFERENCES tenants(id),
+  project_gid text NOT NULL,
+  name text NOT NULL,
+  webhook_gid text,
+  webhook_secret text,
+  -- New deals land in the default pipeline unless a deal keyword routes them elsewhere
+  is_default boolean NOT NULL DEFAULT false,
+  deal_keywords jsonb NOT NULL DEFAULT '[]'::jsonb,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, project_gid)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_asana_pipelines_default
+  ON asana_pipelines(tenant_id) WHERE is_default;
+
+-- Carry over the single-project webhook stored in integrations config
+INSERT INTO asana_pipelines (tenant_id, project_gid, name, webhook_gid, webhook_secret, is_default)
+SELECT tenant_id, config->>'projectGid', 'Pipeline', config->>'webhookGid', config->>'webhookSecret', true
+FROM integrations
+WHERE kind = 'asana' AND config->>'projectGid' IS NOT NULL
+ON CONFLICT (tenant_id, project_gid) DO NOTHING;
+
+-- Which pipeline project a deal's Asana task lives in
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS asana_project_gid text;
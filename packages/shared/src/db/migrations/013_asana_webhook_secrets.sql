@@ -0,0 +1,24 @@
+-- One X-Hook-Secret per Asana webhook. The handshake runs before Asana returns the webhook GID,
+-- so rows start pending (webhook_gid NULL) and are attached once the create call returns.
+CREATE TABLE IF NOT EXISTS asana_webhook_secrets (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_id uuid REFERENCES tenants(id),
+  pipeline_id uuid REFERENCES asana_pipelines(id) ON DELETE SET NULL,
+  webhook_gid text,
+  secret text NOT NULL,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active','retired')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  retired_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_asana_webhook_secrets_gid
+  ON asana_webhook_secrets(webhook_gid) WHERE webhook_gid IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_asana_webhook_secrets_tenant
+  ON asana_webhook_secrets(tenant_id, status);
+
+INSERT INTO asana_webhook_secrets (tenant_id, pipeline_id, webhook_gid, secret)
+SELECT tenant_id, id, webhook_gid, webhook_secret
+FROM asana_pipelines
+WHERE webhook_secret IS NOT NULL;
+
+ALTER TABLE asana_pipelines DROP COLUMN IF EXISTS webhook_secret;
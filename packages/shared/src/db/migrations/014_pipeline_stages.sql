@@ -0,0 +1,25 @@
+-- Tenant-defined pipeline stages (the five built-in stages are seeded on first use)
+CREATE TABLE IF NOT EXISTS pipeline_stages (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_id uuid REFERENCES tenants(id),
+  stage_key text NOT NULL,
+  title text NOT NULL,
+  -- Automations run when a deal enters the stage, in order (see the worker's stage behaviours)
+  behaviours jsonb NOT NULL DEFAULT '[]'::jsonb,
+  notion_status text NOT NULL DEFAULT 'Active',
+  cancel_on_enter boolean NOT NULL DEFAULT false,
+  cancel_on_exit boolean NOT NULL DEFAULT false,
+  -- New deals are created in the entry stage's section
+  is_entry boolean NOT NULL DEFAULT false,
+  display_order integer NOT NULL DEFAULT 0,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, stage_key)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pipeline_stages_entry
+  ON pipeline_stages(tenant_id) WHERE is_entry;
+
+-- Section mappings may now point at any tenant stage
+ALTER TABLE pipeline_sections DROP CONSTRAINT IF EXISTS pipeline_sections_stage_key_check;
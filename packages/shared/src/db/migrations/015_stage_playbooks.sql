@@ -0,0 +1,15 @@
+-- Per-tenant declarative playbooks (subtasks, Notion callouts, jobs, status label) for each stage.
+-- Stages without a row use the built-in playbook for their key, if any.
+CREATE TABLE IF NOT EXISTS stage_playbooks (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_id uuid REFERENCES tenants(id),
+  stage_key text NOT NULL,
+  -- Validated, normalized playbook the worker runs
+  definition jsonb NOT NULL,
+  -- What the partner submitted, kept so YAML comments and layout survive a round trip
+  source text NOT NULL,
+  source_format text NOT NULL DEFAULT 'json' CHECK (source_format IN ('json','yaml')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, stage_key)
+);
@@ -0,0 +1,13 @@
+-- Subtasks a stage playbook created on a deal's Asana task, so re-entering the stage
+-- (or retrying the stage action) only creates the missing ones
+CREATE TABLE IF NOT EXISTS playbook_subtasks (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_id uuid REFERENCES tenants(id),
+  deal_id uuid REFERENCES deals(id) ON DELETE CASCADE,
+  stage_key text NOT NULL,
+  subtask_name text NOT NULL,
+  subtask_gid text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (deal_id, stage_key, subtask_name)
+);
@@ -0,0 +1,6 @@
+-- Track the originating meeting's time and status on the deal so reschedules,
+-- cancellations and restorations of the GCal event can be detected and propagated
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS meeting_time timestamptz;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS meeting_status text NOT NULL DEFAULT 'scheduled'
+  CHECK (meeting_status IN ('scheduled', 'cancelled'));
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS meeting_updated_at timestamptz;
@@ -0,0 +1,31 @@
+-- Every calendar meeting attached to a deal: the one that created it and any later ones
+-- matched by [deal:<id>] tag, attendee email domain or company name
+CREATE TABLE IF NOT EXISTS deal_meetings (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_id uuid REFERENCES tenants(id),
+  deal_id uuid REFERENCES deals(id) ON DELETE CASCADE,
+  gcal_calendar_id text NOT NULL,
+  gcal_event_id text NOT NULL,
+  gcal_ical_uid text,
+  summary text,
+  meeting_time timestamptz,
+  status text NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'cancelled')),
+  attendees jsonb NOT NULL DEFAULT '[]'::jsonb,
+  -- External attendee email domains, for matching later meetings
+  attendee_domains text[] NOT NULL DEFAULT '{}',
+  match_reason text NOT NULL CHECK (match_reason IN ('origin', 'tag', 'domain', 'company')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, gcal_calendar_id, gcal_event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_meetings_deal ON deal_meetings(deal_id);
+CREATE INDEX IF NOT EXISTS idx_deal_meetings_domains ON deal_meetings USING gin (attendee_domains);
+
+-- Existing deals get their originating meeting (attendees weren't stored, so no domains)
+INSERT INTO deal_meetings (tenant_id, deal_id, gcal_calendar_id, gcal_event_id, gcal_ical_uid,
+  meeting_time, status, match_reason, created_at)
+SELECT tenant_id, id, gcal_calendar_id, gcal_event_id, gcal_ical_uid,
+  meeting_time, meeting_status, 'origin', created_at
+FROM deals
+ON CONFLICT (tenant_id, gcal_calendar_id, gcal_event_id) DO NOTHING;
@@ -0,0 +1,24 @@
+-- Likely-duplicate deal pairs found by fuzzy matching, and merged deals
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS merged_into_deal_id uuid REFERENCES deals(id);
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS merged_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS deal_duplicates (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_id uuid REFERENCES tenants(id),
+  -- The newer deal, flagged as a likely duplicate of the older one
+  deal_id uuid NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  duplicate_of_deal_id uuid NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+  score numeric(4, 3) NOT NULL,
+  reasons jsonb NOT NULL DEFAULT '[]'::jsonb,
+  status text NOT NULL DEFAULT 'flagged' CHECK (status IN ('flagged', 'merged', 'dismissed')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz,
+  UNIQUE (deal_id, duplicate_of_deal_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_duplicates_tenant_status ON deal_duplicates(tenant_id, status);
+
+-- Meetings moved onto the surviving deal by a merge
+ALTER TABLE deal_meetings DROP CONSTRAINT IF EXISTS deal_meetings_match_reason_check;
+ALTER TABLE deal_meetings ADD CONSTRAINT deal_meetings_match_reason_check
+  CHECK (match_reason IN ('origin', 'tag', 'domain', 'company', 'merged'));
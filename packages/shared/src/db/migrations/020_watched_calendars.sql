@@ -0,0 +1,32 @@
+-- Registry of the calendars each tenant watches for founder meetings (one per partner),
+-- with how to authenticate against each
+CREATE TABLE IF NOT EXISTS watched_calendars (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tenant_id uuid REFERENCES tenants(id),
+  calendar_id text NOT NULL,
+  -- The partner whose calendar this is; new deals from it are attributed to them
+  owner_email text,
+  owner_name text,
+  -- oauth: refresh token from the secret named in refresh_token_secret (default GCAL_REFRESH_TOKEN)
+  -- delegation: the GCAL_SERVICE_ACCOUNT_KEY service account impersonates impersonate_email (default owner_email)
+  auth_mode text NOT NULL DEFAULT 'oauth' CHECK (auth_mode IN ('oauth', 'delegation')),
+  refresh_token_secret text,
+  impersonate_email text,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, calendar_id)
+);
+
+-- Calendars already being watched keep the shared OAuth credentials
+INSERT INTO watched_calendars (tenant_id, calendar_id)
+SELECT DISTINCT tenant_id, calendar_id FROM gcal_watches WHERE status = 'active'
+ON CONFLICT (tenant_id, calendar_id) DO NOTHING;
+
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS owner_email text;
+ALTER TABLE deals ADD COLUMN IF NOT EXISTS owner_name text;
+
+UPDATE deals d SET owner_email = w.owner_email, owner_name = w.owner_name
+FROM watched_calendars w
+WHERE w.tenant_id = d.tenant_id AND w.calendar_id = d.gcal_calendar_id
+  AND d.owner_email IS NULL AND w.owner_email IS NOT NULL;
@@ -0,0 +1,5 @@
+-- Job keys are claimed 'in_progress' with a lease and marked 'completed' once the handler succeeds,
+-- so a worker that dies mid-job doesn't leave its key claimed forever. Webhook event keys stay 'completed'.
+ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'completed'
+  CHECK (status IN ('in_progress', 'completed'));
+ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS lease_expires_at timestamptz;
@@ -0,0 +1,4 @@
+-- Founder research is cached per founder rather than per company, so deals sharing a founder reuse it
+ALTER TABLE research_agents ADD COLUMN IF NOT EXISTS cache_scope text NOT NULL DEFAULT 'company'
+  CHECK (cache_scope IN ('company', 'founder'));
+UPDATE research_agents SET cache_scope = 'founder' WHERE agent_key = 'founder_background';
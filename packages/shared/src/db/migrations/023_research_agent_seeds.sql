@@ -0,0 +1,11 @@
+-- Tenants whose built-in research agents have been seeded. Seeding happens once,
+-- so a tenant that deletes every agent doesn't get the built-ins back
+CREATE TABLE IF NOT EXISTS research_agent_seeds (
+  tenant_id uuid PRIMARY KEY REFERENCES tenants(id),
+  seeded_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Tenants that already have agents were seeded before this table existed
+INSERT INTO research_agent_seeds (tenant_id)
+SELECT DISTINCT tenant_id FROM research_agents WHERE tenant_id IS NOT NULL
+ON CONFLICT (tenant_id) DO NOTHING;
@@ -0,0 +1,11 @@
+-- Tenants whose legacy calendar (CALENDAR_ID, else 'primary') has been seeded. Seeding happens once,
+-- so a tenant that deletes the legacy calendar doesn't get it back
+CREATE TABLE IF NOT EXISTS watched_calendar_seeds (
+  tenant_id uuid PRIMARY KEY REFERENCES tenants(id),
+  seeded_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Tenants that already have calendars were seeded before this table existed
+INSERT INTO watched_calendar_seeds (tenant_id)
+SELECT DISTINCT tenant_id FROM watched_calendars WHERE tenant_id IS NOT NULL
+ON CONFLICT (tenant_id) DO NOTHING;
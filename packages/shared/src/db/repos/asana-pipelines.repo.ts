@@ -0,0 +1,119 @@
+import { query, queryOne, execute, withTransaction } from '../client.js';
+
+export interface AsanaPipeline {
+    id: string;
+    tenant_id: string;
+    project_gid: string;
+    name: string;
+    webhook_gid: string | null;
+    is_default: boolean;
+    deal_keywords: string[];
+    enabled: boolean;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface UpsertPipelineInput {
+    tenantId: string;
+    projectGid: string;
+    name: string;
+    isDefault?: boolean;
+    dealKeywords?: string[];
+    enabled?: boolean;
+}
+
+export async function listPipelines(
+    tenantId: string,
+    opts: { enabledOnly?: boolean } = {}
+): Promise<AsanaPipeline[]> {
+    return query<AsanaPipeline>(
+        `SELECT * FROM asana_pipelines
+     WHERE tenant_id = $1 ${opts.enabledOnly ? 'AND enabled = true' : ''}
+     ORDER BY is_default DESC, name`,
+        [tenantId]
+    );
+}
+
+export async function countPipelines(tenantId: string): Promise<number> {
+    const row = await queryOne<{ count: string }>(
+        'SELECT count(*) FROM asana_pipelines WHERE tenant_id = $1',
+        [tenantId]
+    );
+    return parseInt(row?.count ?? '0', 10);
+}
+
+export async function getPipelineById(id: string): Promise<AsanaPipeline | null> {
+    return queryOne<AsanaPipeline>('SELECT * FROM asana_pipelines WHERE id = $1', [id]);
+}
+
+export async function getPipelineByProject(
+    tenantId: string,
+    projectGid: string
+): Promise<AsanaPipeline | null> {
+    return queryOne<AsanaPipeline>(
+        'SELECT * FROM asana_pipelines WHERE tenant_id = $1 AND project_gid = $2',
+        [tenantId, projectGid]
+    );
+}
+
+export async function getDefaultPipeline(tenantId: string): Promise<AsanaPipeline | null> {
+    return queryOne<AsanaPipeline>(
+        'SELECT * FROM asana_pipelines WHERE tenant_id = $1 AND is_default = true AND enabled = true',
+        [tenantId]
+    );
+}
+
+/**
+ * Create or update a pipeline. Marking it default clears the flag on the tenant's other pipelines.
+ */
+export async function upsertPipeline(input: UpsertPipelineInput): Promise<AsanaPipeline> {
+    return withTransaction(async (client) => {
+        if (input.isDefault) {
+            await client.query(
+                `UPDATE asana_pipelines SET is_default = false, updated_at = now()
+         WHERE tenant_id = $1 AND project_gid <> $2 AND is_default = true`,
+                [input.tenantId, input.projectGid]
+            );
+        }
+
+        const { rows } = await client.query<AsanaPipeline>(
+            `INSERT INTO asana_pipelines (tenant_id, project_gid, name, is_default, deal_keywords, enabled)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (tenant_id, project_gid)
+       DO UPDATE SET
+         name = EXCLUDED.name,
+         is_default = COALESCE($7, asana_pipelines.is_default),
+         deal_keywords = COALESCE($8, asana_pipelines.deal_keywords),
+         enabled = COALESCE($9, asana_pipelines.enabled),
+         updated_at = now()
+       RETURNING *`,
+            [
+                input.tenantId,
+                input.projectGid,
+                input.name,
+                input.isDefault ?? false,
+                JSON.stringify(input.dealKeywords ?? []),
+                input.enabled ?? true,
+                input.isDefault ?? null,
+                input.dealKeywords ? JSON.stringify(input.dealKeywords) : null,
+                input.enabled ?? null,
+            ]
+        );
+        return rows[0];
+    });
+}
+
+export async function setWebhook(id: string, webhookGid: string | null): Promise<void> {
+    await execute(
+        'UPDATE asana_pipelines SET webhook_gid = $1, updated_at = now() WHERE id = $2',
+        [webhookGid, id]
+    );
+}
+
+export async function deletePipeline(id: string): Promise<boolean> {
+    const rows = await query<{ id: string }>(
+        'DELETE FROM asana_pipelines WHERE id = $1 RETURNING id',
+        [id]
+    );
+    return rows.length > 0;
+}
@@ -0,0 +1,95 @@
+import { query, queryOne, execute } from '../client.js';
+
+export interface AsanaWebhookSecret {
+    id: string;
+    tenant_id: string;
+    pipeline_id: string | null;
+    webhook_gid: string | null;
+    secret: string;
+    status: 'active' | 'retired';
+    created_at: Date;
+    retired_at: Date | null;
+}
+
+/**
+ * Store the secret from a handshake. It stays pending (no webhook GID) until
+ * the create call that triggered the handshake returns.
+ */
+export async function addSecret(input: {
+    tenantId: string;
+    pipelineId: string;
+    secret: string;
+}): Promise<AsanaWebhookSecret> {
+    const row = await queryOne<AsanaWebhookSecret>(
+        `INSERT INTO asana_webhook_secrets (tenant_id, pipeline_id, secret)
+     VALUES ($1, $2, $3)
+     RETURNING *`,
+        [input.tenantId, input.pipelineId, input.secret]
+    );
+    return row!;
+}
+
+/**
+ * Attach a newly created webhook's GID to the pipeline's most recent pending secret.
+ */
+export async function attachWebhookGid(
+    pipelineId: string,
+    webhookGid: string
+): Promise<AsanaWebhookSecret | null> {
+    return queryOne<AsanaWebhookSecret>(
+        `UPDATE asana_webhook_secrets SET webhook_gid = $2
+     WHERE id = (
+       SELECT id FROM asana_webhook_secrets
+       WHERE pipeline_id = $1 AND webhook_gid IS NULL AND status = 'active'
+       ORDER BY created_at DESC
+       LIMIT 1
+     )
+     RETURNING *`,
+        [pipelineId, webhookGid]
+    );
+}
+
+/**
+ * Secrets a delivery may be signed with: active ones, plus ones retired within
+ * the grace period so in-flight retries from a rotated-out webhook still verify.
+ */
+export async function listVerificationSecrets(
+    tenantId: string,
+    opts: { pipelineId?: string; graceMinutes: number }
+): Promise<AsanaWebhookSecret[]> {
+    return query<AsanaWebhookSecret>(
+        `SELECT * FROM asana_webhook_secrets
+     WHERE tenant_id = $1
+       AND ($2::uuid IS NULL OR pipeline_id = $2)
+       AND (status = 'active' OR retired_at > now() - interval '1 minute' * $3)
+     ORDER BY created_at DESC`,
+        [tenantId, opts.pipelineId ?? null, opts.graceMinutes]
+    );
+}
+
+export async function listSecrets(tenantId: string): Promise<AsanaWebhookSecret[]> {
+    return query<AsanaWebhookSecret>(
+        'SELECT * FROM asana_webhook_secrets WHERE tenant_id = $1 ORDER BY created_at DESC',
+        [tenantId]
+    );
+}
+
+export async function retireByWebhookGid(webhookGid: string): Promise<number> {
+    return execute(
+        `UPDATE asana_webhook_secrets SET status = 'retired', retired_at = now()
+     WHERE webhook_gid = $1 AND status = 'active'`,
+        [webhookGid]
+    );
+}
+
+/**
+ * Delete retired secrets (and pending ones whose webhook was never created) past the given age.
+ */
+export async function purgeStaleSecrets(olderThanDays: number = 7): Promise<number> {
+    return execute(
+        `DELETE FROM asana_webhook_secrets
+     WHERE (status = 'retired' AND retired_at < now() - interval '1 day' * $1)
+        OR (webhook_gid IS NULL AND created_at < now() - interval '1 day' * $1)`,
+        [olderThanDays]
+    );
+}
@@ -0,0 +1,68 @@
+import { query, queryOne, execute } from '../client.js';
+
+export type DuplicateStatus = 'flagged' | 'merged' | 'dismissed';
+
+export interface DealDuplicate {
+    id: string;
+    tenant_id: string;
+    deal_id: string;
+    duplicate_of_deal_id: string;
+    score: string;
+    reasons: string[];
+    status: DuplicateStatus;
+    created_at: Date;
+    resolved_at: Date | null;
+}
+
+/**
+ * Flag a deal as a likely duplicate of another. Re-flagging refreshes the score of an open flag;
+ * a pair that was already merged or dismissed is left alone (returns null).
+ */
+export async function flagDuplicate(input: {
+    tenantId: string;
+    dealId: string;
+    duplicateOfDealId: string;
+    score: number;
+    reasons: string[];
+}): Promise<DealDuplicate | null> {
+    return queryOne<DealDuplicate>(
+        `INSERT INTO deal_duplicates (tenant_id, deal_id, duplicate_of_deal_id, score, reasons)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (deal_id, duplicate_of_deal_id)
+     DO UPDATE SET score = EXCLUDED.score, reasons = EXCLUDED.reasons
+     WHERE deal_duplicates.status = 'flagged'
+     RETURNING *`,
+        [input.tenantId, input.dealId, input.duplicateOfDealId, input.score, JSON.stringify(input.reasons)]
+    );
+}
+
+export async function getDuplicate(id: string): Promise<DealDuplicate | null> {
+    return queryOne<DealDuplicate>('SELECT * FROM deal_duplicates WHERE id = $1', [id]);
+}
+
+export async function listDuplicates(tenantId: string, status: DuplicateStatus = 'flagged'): Promise<DealDuplicate[]> {
+    return query<DealDuplicate>(
+        'SELECT * FROM deal_duplicates WHERE tenant_id = $1 AND status = $2 ORDER BY score DESC, created_at DESC',
+        [tenantId, status]
+    );
+}
+
+export async function resolveDuplicate(id: string, status: Exclude<DuplicateStatus, 'flagged'>): Promise<boolean> {
+    const count = await execute(
+        `UPDATE deal_duplicates SET status = $1, resolved_at = now() WHERE id = $2 AND status = 'flagged'`,
+        [status, id]
+    );
+    return count > 0;
+}
+
+/**
+ * Close every open flag between two deals (in either direction) as merged.
+ */
+export async function resolvePair(dealId: string, otherDealId: string): Promise<void> {
+    await execute(
+        `UPDATE deal_duplicates SET status = 'merged', resolved_at = now()
+     WHERE status = 'flagged'
+       AND ((deal_id = $1 AND duplicate_of_deal_id = $2) OR (deal_id = $2 AND duplicate_of_deal_id = $1))`,
+        [dealId, otherDealId]
+    );
+}
@@ -0,0 +1,123 @@
+import { query, queryOne, execute } from '../client.js';
+import type { MeetingStatus } from './deals.repo.js';
+
+export type MeetingMatchReason = 'origin' | 'tag' | 'domain' | 'company' | 'merged';
+
+export interface DealMeeting {
+    id: string;
+    tenant_id: string;
+    deal_id: string;
+    gcal_calendar_id: string;
+    gcal_event_id: string;
+    gcal_ical_uid: string | null;
+    summary: string | null;
+    meeting_time: Date | null;
+    status: MeetingStatus;
+    attendees: string[];
+    attendee_domains: string[];
+    match_reason: MeetingMatchReason;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface UpsertMeetingInput {
+    tenantId: string;
+    dealId: string;
+    gcalCalendarId: string;
+    gcalEventId: string;
+    gcalIcalUid?: string;
+    summary?: string;
+    meetingTime: string | null;
+    attendees: string[];
+    attendeeDomains: string[];
+    matchReason: MeetingMatchReason;
+}
+
+/**
+ * Insert a meeting, or refresh its details if the event is already attached.
+ * The deal and match reason of an existing row are kept.
+ */
+export async function upsertMeeting(input: UpsertMeetingInput): Promise<DealMeeting> {
+    const row = await queryOne<DealMeeting>(
+        `INSERT INTO deal_meetings (tenant_id, deal_id, gcal_calendar_id, gcal_event_id, gcal_ical_uid,
+       summary, meeting_time, attendees, attendee_domains, match_reason)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     ON CONFLICT (tenant_id, gcal_calendar_id, gcal_event_id)
+     DO UPDATE SET
+       gcal_ical_uid = COALESCE(EXCLUDED.gcal_ical_uid, deal_meetings.gcal_ical_uid),
+       summary = COALESCE(EXCLUDED.summary, deal_meetings.summary),
+       meeting_time = COALESCE(EXCLUDED.meeting_time, deal_meetings.meeting_time),
+       status = 'scheduled',
+       attendees = EXCLUDED.attendees,
+       attendee_domains = EXCLUDED.attendee_domains,
+       updated_at = now()
+     RETURNING *`,
+        [
+            input.tenantId,
+            input.dealId,
+            input.gcalCalendarId,
+            input.gcalEventId,
+            input.gcalIcalUid ?? null,
+            input.summary ?? null,
+            input.meetingTime,
+            JSON.stringify(input.attendees),
+            input.attendeeDomains,
+            input.matchReason,
+        ]
+    );
+    return row!;
+}
+
+export async function getMeetingByEvent(
+    tenantId: string,
+    calendarId: string,
+    eventId: string
+): Promise<DealMeeting | null> {
+    return queryOne<DealMeeting>(
+        'SELECT * FROM deal_meetings WHERE tenant_id = $1 AND gcal_calendar_id = $2 AND gcal_event_id = $3',
+        [tenantId, calendarId, eventId]
+    );
+}
+
+export async function listMeetingsForDeal(dealId: string): Promise<DealMeeting[]> {
+    return query<DealMeeting>(
+        'SELECT * FROM deal_meetings WHERE deal_id = $1 ORDER BY meeting_time NULLS LAST, created_at',
+        [dealId]
+    );
+}
+
+export async function setMeetingStatus(id: string, status: MeetingStatus): Promise<void> {
+    await execute(
+        'UPDATE deal_meetings SET status = $1, updated_at = now() WHERE id = $2',
+        [status, id]
+    );
+}
+
+/**
+ * The deal whose most recent meeting shared one of these attendee domains, if any.
+ */
+export async function findDealIdByDomains(tenantId: string, domains: string[]): Promise<string | null> {
+    if (domains.length === 0) return null;
+    const row = await queryOne<{ deal_id: string }>(
+        `SELECT deal_id FROM deal_meetings
+     WHERE tenant_id = $1 AND attendee_domains && $2::text[]
+     ORDER BY created_at DESC
+     LIMIT 1`,
+        [tenantId, domains]
+    );
+    return row?.deal_id ?? null;
+}
+
+/**
+ * External attendee domains seen on each of the tenant's deals.
+ */
+export async function listDomainsByDeal(tenantId: string): Promise<Map<string, string[]>> {
+    const rows = await query<{ deal_id: string; domains: string[] }>(
+        `SELECT deal_id, array_agg(DISTINCT domain) AS domains
+     FROM deal_meetings, unnest(attendee_domains) AS domain
+     WHERE tenant_id = $1
+     GROUP BY deal_id`,
+        [tenantId]
+    );
+    return new Map(rows.map((r) => [r.deal_id, r.domains]));
+}
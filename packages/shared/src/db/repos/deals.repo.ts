@@ -1,4 +1,6 @@
-import { query, queryOne, execute } from '../client.js';
+import { query, queryOne, execute, withTransaction } from '../client.js';
+
+export type MeetingStatus = 'scheduled' | 'cancelled';
 
 export interface Deal {
     id: string;
@@ -9,10 +11,19 @@ export interface Deal {
     company_name: string | null;
     founder_name: string | null;
     asana_task_gid: string | null;
+    asana_project_gid: string | null;
     notion_deal_page_id: string | null;
     notion_urls: Record<string, string>;
     current_stage: string;
     source: string;
+    meeting_time: Date | null;
+    meeting_status: MeetingStatus;
+    meeting_updated_at: Date | null;
+    merged_into_deal_id: string | null;
+    merged_at: Date | null;
+    /** Partner whose watched calendar the deal came from */
+    owner_email: string | null;
+    owner_name: string | null;
     created_at: Date;
     updated_at: Date;
 }
@@ -25,17 +36,22 @@ export interface UpsertDealInput {
     companyName?: string;
     founderName?: string;
     source?: string;
+    ownerEmail?: string;
+    ownerName?: string;
 }
 
 export async function upsertDeal(input: UpsertDealInput): Promise<Deal> {
     const row = await queryOne<Deal>(
-        `INSERT INTO deals (tenant_id, gcal_calendar_id, gcal_event_id, gcal_ical_uid, company_name, founder_name, source)
-     VALUES ($1, $2, $3, $4, $5, $6, $7)
+        `INSERT INTO deals (tenant_id, gcal_calendar_id, gcal_event_id, gcal_ical_uid, company_name, founder_name, source,
+       owner_email, owner_name)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
      ON CONFLICT (tenant_id, gcal_calendar_id, gcal_event_id)
      DO UPDATE SET
        gcal_ical_uid = COALESCE(EXCLUDED.gcal_ical_uid, deals.gcal_ical_uid),
        company_name = COALESCE(EXCLUDED.company_name, deals.company_name),
        founder_name = COALESCE(EXCLUDED.founder_name, deals.founder_name),
+       owner_email = COALESCE(deals.owner_email, EXCLUDED.owner_email),
+       owner_name = COALESCE(deals.owner_name, EXCLUDED.owner_name),
        updated_at = now()
      RETURNING *`,
         [
@@ -46,6 +62,8 @@ export async function upsertDeal(input: UpsertDealInput): Promise<Deal> {
             input.companyName ?? null,
             input.founderName ?? null,
             input.source ?? 'gcal',
+            input.ownerEmail ?? null,
+            input.ownerName ?? null,
         ]
     );
     return row!;
@@ -70,10 +88,15 @@ export async function getDealByGcalEvent(
     );
 }
 
-export async function updateDealAsana(dealId: string, asanaTaskGid: string): Promise<void> {
+export async function updateDealAsana(
+    dealId: string,
+    asanaTaskGid: string,
+    asanaProjectGid?: string
+): Promise<void> {
     await execute(
-        'UPDATE deals SET asana_task_gid = $1, updated_at = now() WHERE id = $2',
-        [asanaTaskGid, dealId]
+        `UPDATE deals SET asana_task_gid = $1, asana_project_gid = COALESCE($2, asana_project_gid), updated_at = now()
+     WHERE id = $3`,
+        [asanaTaskGid, asanaProjectGid ?? null, dealId]
     );
 }
 
@@ -94,3 +117,86 @@ export async function updateDealStage(dealId: string, stage: string): Promise<vo
         [stage, dealId]
     );
 }
+
+/**
+ * Record the originating meeting's current time and status.
+ * `meetingTime` is left unchanged when null (cancelled events carry no start time).
+ */
+export async function updateDealMeeting(
+    dealId: string,
+    meetingTime: string | null,
+    status: MeetingStatus
+): Promise<void> {
+    await execute(
+        `UPDATE deals SET meeting_time = COALESCE($1, meeting_time), meeting_status = $2,
+       meeting_updated_at = now(), updated_at = now()
+     WHERE id = $3`,
+        [meetingTime, status, dealId]
+    );
+}
+
+/**
+ * Unmerged deals with a company name, newest first, for matching new meetings against.
+ */
+export async function listNamedDeals(tenantId: string): Promise<Deal[]> {
+    return query<Deal>(
+        `SELECT * FROM deals
+     WHERE tenant_id = $1 AND company_name IS NOT NULL AND merged_into_deal_id IS NULL
+     ORDER BY created_at DESC`,
+        [tenantId]
+    );
+}
+
+/**
+ * Fold a duplicate deal's records into the surviving deal, in one transaction:
+ * workflow runs, research results, memos, LLM usage and meetings move over; missing
+ * company/founder/owner names, Asana task and Notion workspace are taken from the duplicate;
+ * and the duplicate is marked merged.
+ * Playbook subtasks stay with the duplicate; they belong to its own Asana task.
+ * Both deals are locked first; returns false, changing nothing, if either is missing or has
+ * already been merged (e.g. by a concurrent merge).
+ */
+export async function mergeDealRecords(duplicateId: string, primaryId: string): Promise<boolean> {
+    return withTransaction(async (client) => {
+        // Lock in a fixed order so concurrent merges of the same pair can't deadlock
+        const locked = await client.query(
+            'SELECT id FROM deals WHERE id = ANY($1::uuid[]) AND merged_into_deal_id IS NULL ORDER BY id FOR UPDATE',
+            [[duplicateId, primaryId]]
+        );
+        if (locked.rowCount !== 2) return false;
+
+        for (const table of ['workflow_runs', 'research_results', 'memos', 'llm_usage']) {
+            await client.query(`UPDATE ${table} SET deal_id = $1 WHERE deal_id = $2`, [primaryId, duplicateId]);
+        }
+        await client.query(
+            `UPDATE deal_meetings SET deal_id = $1, match_reason = 'merged', updated_at = now() WHERE deal_id = $2`,
+            [primaryId, duplicateId]
+        );
+        await client.query(
+            `UPDATE deals p SET
+         company_name = COALESCE(p.company_name, d.company_name),
+         founder_name = COALESCE(p.founder_name, d.founder_name),
+         owner_email = COALESCE(p.owner_email, d.owner_email),
+         owner_name = COALESCE(p.owner_name, d.owner_name),
+         asana_task_gid = COALESCE(p.asana_task_gid, d.asana_task_gid),
+         asana_project_gid = CASE WHEN p.asana_task_gid IS NULL THEN d.asana_project_gid ELSE p.asana_project_gid END,
+         notion_deal_page_id = COALESCE(p.notion_deal_page_id, d.notion_deal_page_id),
+         notion_urls = CASE WHEN p.notion_deal_page_id IS NULL THEN d.notion_urls ELSE p.notion_urls END,
+         updated_at = now()
+       FROM deals d
+       WHERE p.id = $1 AND d.id = $2`,
+            [primaryId, duplicateId]
+        );
+        // An adopted task or workspace now belongs to the primary only
+        await client.query(
+            `UPDATE deals d SET
+         merged_into_deal_id = $1, merged_at = now(), updated_at = now(),
+         asana_task_gid = CASE WHEN d.asana_task_gid = p.asana_task_gid THEN NULL ELSE d.asana_task_gid END,
+         notion_deal_page_id = CASE WHEN d.notion_deal_page_id = p.notion_deal_page_id THEN NULL ELSE d.notion_deal_page_id END
+       FROM deals p
+       WHERE d.id = $2 AND p.id = $1`,
+            [primaryId, duplicateId]
+        );
+        return true;
+    });
+}
@@ -50,6 +50,30 @@ export async function getActiveWatch(
     );
 }
 
+/**
+ * Every tenant's active watches, soonest expiry first.
+ */
+export async function listActiveWatches(): Promise<GcalWatch[]> {
+    return query<GcalWatch>(
+        `SELECT * FROM gcal_watches WHERE status = 'active' ORDER BY expiration_ms NULLS FIRST`
+    );
+}
+
+/**
+ * The calendar's most recent watch in any status (e.g. to carry its syncToken over to a recreated one).
+ */
+export async function getLatestWatch(
+    tenantId: string,
+    calendarId: string
+): Promise<GcalWatch | null> {
+    return queryOne<GcalWatch>(
+        `SELECT * FROM gcal_watches
+     WHERE tenant_id = $1 AND calendar_id = $2
+     ORDER BY created_at DESC LIMIT 1`,
+        [tenantId, calendarId]
+    );
+}
+
 export async function getWatchByChannelId(channelId: string): Promise<GcalWatch | null> {
     return queryOne<GcalWatch>(
         `SELECT * FROM gcal_watches WHERE channel_id = $1 AND status IN ('active', 'replaced')`,
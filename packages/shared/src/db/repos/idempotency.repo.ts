@@ -1,4 +1,4 @@
-import { queryOne, execute } from '../client.js';
+import { query, queryOne, execute } from '../client.js';
 
 /**
  * Attempt to claim an idempotency key.
@@ -15,6 +15,72 @@ export async function claimKey(key: string): Promise<boolean> {
     return row !== null;
 }
 
+/**
+ * Claim many keys in one round trip. Returns the keys that were freshly claimed.
+ */
+export async function claimKeys(keys: string[]): Promise<Set<string>> {
+    if (keys.length === 0) return new Set();
+    const rows = await query<{ key: string }>(
+        `INSERT INTO idempotency_keys (key)
+     SELECT DISTINCT unnest($1::text[])
+     ON CONFLICT (key) DO NOTHING
+     RETURNING key`,
+        [keys]
+    );
+    return new Set(rows.map((r) => r.key));
+}
+
+export type JobKeyClaim = 'claimed' | 'in_progress' | 'completed';
+
+/**
+ * Claim a job's key for the length of one run. A fresh key, or one whose previous run's lease
+ * expired without completing (the worker died mid-job), is claimed 'in_progress'.
+ * Returns 'in_progress' if another delivery holds a live lease, 'completed' if the job already succeeded.
+ */
+export async function claimJobKey(key: string, leaseSeconds: number): Promise<JobKeyClaim> {
+    const row = await queryOne<{ key: string }>(
+        `INSERT INTO idempotency_keys (key, status, lease_expires_at)
+     VALUES ($1, 'in_progress', now() + interval '1 second' * $2)
+     ON CONFLICT (key) DO UPDATE SET lease_expires_at = EXCLUDED.lease_expires_at
+     WHERE idempotency_keys.status = 'in_progress' AND idempotency_keys.lease_expires_at < now()
+     RETURNING key`,
+        [key, leaseSeconds]
+    );
+    if (row) return 'claimed';
+
+    const existing = await queryOne<{ status: 'in_progress' | 'completed' }>(
+        'SELECT status FROM idempotency_keys WHERE key = $1',
+        [key]
+    );
+    // Released between the two statements: report it as held so the delivery is retried
+    return existing?.status ?? 'in_progress';
+}
+
+/**
+ * Mark a job's key completed after its handler succeeded; later deliveries are skipped as duplicates.
+ */
+export async function completeKey(key: string): Promise<void> {
+    await execute(
+        `UPDATE idempotency_keys SET status = 'completed', lease_expires_at = NULL WHERE key = $1`,
+        [key]
+    );
+}
+
+/**
+ * Release a claimed key so the work can be attempted again (e.g. after a failed job).
+ */
+export async function releaseKey(key: string): Promise<void> {
+    await execute('DELETE FROM idempotency_keys WHERE key = $1', [key]);
+}
+
+/**
+ * Release many claimed keys in one round trip (e.g. webhook events whose job couldn't be enqueued).
+ */
+export async function releaseKeys(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await execute('DELETE FROM idempotency_keys WHERE key = ANY($1::text[])', [keys]);
+}
+
 /**
  * Check if a key exists without claiming it.
  */
@@ -45,6 +111,15 @@ export function asanaEventKey(
     return `asana_evt:${webhookGid}:${createdAt}:${resourceGid}:${action}`;
 }
 
+/**
+ * Generate idempotency key for the ASANA_PROCESS job that handles all events
+ * for a task within one coalescing window. Keyed per project since a task can
+ * be multi-homed in several pipelines.
+ */
+export function asanaProcessKey(projectGid: string, taskGid: string, window: string): string {
+    return `asana_process:${projectGid}:${taskGid}:${window}`;
+}
+
 /**
  * Generate idempotency key for a stage action.
  */
@@ -56,6 +131,14 @@ export function stageActionKey(
     return `stage:${taskGid}:${sectionGid}:${modifiedAt}`;
 }
 
+/**
+ * Generate idempotency key for a job that belongs to a workflow run.
+ * `variant` distinguishes several jobs of the same type per run (e.g. a scheduled re-run).
+ */
+export function runJobKey(jobType: string, runId: string, variant?: string): string {
+    return `job:${jobType}:${runId}${variant ? `:${variant}` : ''}`;
+}
+
 /**
  * Clean up idempotency keys older than the given number of days.
  */
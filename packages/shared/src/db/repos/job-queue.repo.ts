@@ -0,0 +1,145 @@
+import { query, queryOne, execute } from '../client.js';
+
+export interface QueuedJob {
+    id: string;
+    queue: string;
+    job_type: string;
+    tenant_id: string;
+    payload: Record<string, any>;
+    idempotency_key: string | null;
+    status: 'queued' | 'running' | 'succeeded' | 'dead';
+    attempts: number;
+    max_attempts: number;
+    run_at: Date;
+    locked_at: Date | null;
+    locked_by: string | null;
+    last_error: string | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+/**
+ * Insert a job. If a queued/running job already has the same idempotency key,
+ * nothing is inserted and the existing job is returned.
+ */
+export async function enqueueJob(input: {
+    queue: string;
+    jobType: string;
+    tenantId: string;
+    payload: Record<string, any>;
+    idempotencyKey?: string;
+    maxAttempts: number;
+    runAt?: Date;
+}): Promise<QueuedJob> {
+    const row = await queryOne<QueuedJob>(
+        `INSERT INTO job_queue (queue, job_type, tenant_id, payload, idempotency_key, max_attempts, run_at)
+     VALUES ($1, $2, $3, $4, $5, $6, coalesce($7, now()))
+     ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL AND status IN ('queued','running')
+     DO NOTHING
+     RETURNING *`,
+        [
+            input.queue,
+            input.jobType,
+            input.tenantId,
+            JSON.stringify(input.payload),
+            input.idempotencyKey ?? null,
+            input.maxAttempts,
+            input.runAt ?? null,
+        ]
+    );
+    if (row) return row;
+
+    const existing = await queryOne<QueuedJob>(
+        `SELECT * FROM job_queue
+     WHERE idempotency_key = $1 AND status IN ('queued','running')`,
+        [input.idempotencyKey]
+    );
+    // The conflicting job finished between the two statements: insert again
+    return existing ?? enqueueJob(input);
+}
+
+/**
+ * Claim up to `limit` due jobs from a queue. SKIP LOCKED lets several workers poll concurrently
+ * without claiming the same row; the claim counts as an attempt.
+ */
+export async function claimJobs(queue: string, limit: number, workerId: string): Promise<QueuedJob[]> {
+    return query<QueuedJob>(
+        `UPDATE job_queue
+     SET status = 'running', attempts = attempts + 1, locked_at = now(), locked_by = $3, updated_at = now()
+     WHERE id IN (
+       SELECT id FROM job_queue
+       WHERE queue = $1 AND status = 'queued' AND run_at <= now()
+       ORDER BY run_at
+       LIMIT $2
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+        [queue, limit, workerId]
+    );
+}
+
+export async function markSucceeded(id: string): Promise<void> {
+    await execute(
+        `UPDATE job_queue SET status = 'succeeded', locked_at = NULL, locked_by = NULL, updated_at = now()
+     WHERE id = $1`,
+        [id]
+    );
+}
+
+/**
+ * Put a failed job back in the queue to run again after `delaySeconds`.
+ */
+export async function scheduleRetry(id: string, delaySeconds: number, error: string): Promise<void> {
+    await execute(
+        `UPDATE job_queue
+     SET status = 'queued', run_at = now() + make_interval(secs => $2), last_error = $3,
+         locked_at = NULL, locked_by = NULL, updated_at = now()
+     WHERE id = $1`,
+        [id, delaySeconds, error]
+    );
+}
+
+/**
+ * Stop delivering a job (dead-lettered by the dispatcher, or not dispatchable at all).
+ */
+export async function markDead(id: string, error: string): Promise<void> {
+    await execute(
+        `UPDATE job_queue SET status = 'dead', last_error = $2, locked_at = NULL, locked_by = NULL, updated_at = now()
+     WHERE id = $1`,
+        [id, error]
+    );
+}
+
+/**
+ * Return jobs whose worker died mid-run (lock older than the lease) to the queue.
+ * A job that already used its last attempt is marked dead instead.
+ */
+export async function releaseExpiredLocks(leaseSeconds: number): Promise<number> {
+    const requeued = await execute(
+        `UPDATE job_queue
+     SET status = 'queued', locked_at = NULL, locked_by = NULL,
+         last_error = 'Worker lease expired', updated_at = now()
+     WHERE status = 'running' AND locked_at < now() - make_interval(secs => $1)
+       AND attempts < max_attempts`,
+        [leaseSeconds]
+    );
+    const killed = await execute(
+        `UPDATE job_queue
+     SET status = 'dead', locked_at = NULL, locked_by = NULL,
+         last_error = 'Worker lease expired on final attempt', updated_at = now()
+     WHERE status = 'running' AND locked_at < now() - make_interval(secs => $1)`,
+        [leaseSeconds]
+    );
+    return requeued + killed;
+}
+
+/**
+ * Delete finished jobs older than the cutoff (housekeeping).
+ */
+export async function purgeFinished(olderThanDays: number): Promise<number> {
+    return execute(
+        `DELETE FROM job_queue
+     WHERE status IN ('succeeded','dead') AND updated_at < now() - make_interval(days => $1)`,
+        [olderThanDays]
+    );
+}
@@ -0,0 +1,210 @@
+import { query, queryOne, execute } from '../client.js';
+import type { JobErrorKind } from '../../helpers/job-errors.js';
+
+export interface JobAttempt {
+    id: string;
+    tenant_id: string | null;
+    job_type: string;
+    task_name: string | null;
+    idempotency_key: string | null;
+    payload: Record<string, any>;
+    attempt: number;
+    status: 'running' | 'succeeded' | 'failed' | 'dead_lettered';
+    error: string | null;
+    error_kind: JobErrorKind | null;
+    duration_ms: number | null;
+    started_at: Date;
+    finished_at: Date | null;
+}
+
+export interface DeadLetter {
+    id: string;
+    tenant_id: string | null;
+    job_type: string;
+    task_name: string | null;
+    idempotency_key: string | null;
+    payload: Record<string, any>;
+    attempts: number;
+    last_attempt_id: string | null;
+    last_error: string | null;
+    error_kind: JobErrorKind;
+    status: 'pending' | 'replayed' | 'discarded';
+    replay_task_name: string | null;
+    created_at: Date;
+    resolved_at: Date | null;
+}
+
+// ---- Attempts ----
+
+export async function startAttempt(input: {
+    tenantId?: string;
+    jobType: string;
+    taskName?: string;
+    idempotencyKey?: string;
+    payload: Record<string, any>;
+    attempt: number;
+}): Promise<JobAttempt> {
+    const row = await queryOne<JobAttempt>(
+        `INSERT INTO job_attempts (tenant_id, job_type, task_name, idempotency_key, payload, attempt)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+        [
+            input.tenantId ?? null,
+            input.jobType,
+            input.taskName ?? null,
+            input.idempotencyKey ?? null,
+            JSON.stringify(input.payload),
+            input.attempt,
+        ]
+    );
+    return row!;
+}
+
+export async function finishAttempt(
+    id: string,
+    status: Exclude<JobAttempt['status'], 'running'>,
+    failure?: { error: string; errorKind: JobErrorKind }
+): Promise<void> {
+    await execute(
+        `UPDATE job_attempts
+     SET status = $1, error = $2, error_kind = $3, finished_at = now(),
+         duration_ms = (extract(epoch FROM now() - started_at) * 1000)::integer
+     WHERE id = $4`,
+        [status, failure?.error ?? null, failure?.errorKind ?? null, id]
+    );
+}
+
+export async function listAttempts(filter: {
+    jobType?: string;
+    status?: JobAttempt['status'];
+    taskName?: string;
+    limit?: number;
+} = {}): Promise<JobAttempt[]> {
+    const params: any[] = [];
+    const conditions: string[] = [];
+    if (filter.jobType) {
+        params.push(filter.jobType);
+        conditions.push(`job_type = $${params.length}`);
+    }
+    if (filter.status) {
+        params.push(filter.status);
+        conditions.push(`status = $${params.length}`);
+    }
+    if (filter.taskName) {
+        params.push(filter.taskName);
+        conditions.push(`task_name = $${params.length}`);
+    }
+    params.push(filter.limit ?? 100);
+
+    return query<JobAttempt>(
+        `SELECT * FROM job_attempts
+     ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY started_at DESC
+     LIMIT $${params.length}`,
+        params
+    );
+}
+
+// ---- Dead letters ----
+
+export async function addDeadLetter(input: {
+    tenantId?: string;
+    jobType: string;
+    taskName?: string;
+    idempotencyKey?: string;
+    payload: Record<string, any>;
+    attempts: number;
+    lastAttemptId?: string;
+    lastError: string;
+    errorKind: JobErrorKind;
+}): Promise<DeadLetter> {
+    const row = await queryOne<DeadLetter>(
+        `INSERT INTO job_dead_letters
+       (tenant_id, job_type, task_name, idempotency_key, payload, attempts, last_attempt_id, last_error, error_kind)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     RETURNING *`,
+        [
+            input.tenantId ?? null,
+            input.jobType,
+            input.taskName ?? null,
+            input.idempotencyKey ?? null,
+            JSON.stringify(input.payload),
+            input.attempts,
+            input.lastAttemptId ?? null,
+            input.lastError,
+            input.errorKind,
+        ]
+    );
+    return row!;
+}
+
+export async function listDeadLetters(filter: {
+    status?: DeadLetter['status'];
+    jobType?: string;
+    limit?: number;
+} = {}): Promise<DeadLetter[]> {
+    const params: any[] = [filter.status ?? 'pending'];
+    let where = 'status = $1';
+    if (filter.jobType) {
+        params.push(filter.jobType);
+        where += ` AND job_type = $${params.length}`;
+    }
+    params.push(filter.limit ?? 100);
+
+    return query<DeadLetter>(
+        `SELECT * FROM job_dead_letters WHERE ${where} ORDER BY created_at DESC LIMIT $${params.length}`,
+        params
+    );
+}
+
+export async function getDeadLetter(id: string): Promise<DeadLetter | null> {
+    return queryOne<DeadLetter>('SELECT * FROM job_dead_letters WHERE id = $1', [id]);
+}
+
+/**
+ * All recorded attempts for a dead-lettered job (matched on Cloud Tasks task name when known).
+ */
+export async function getAttemptsForDeadLetter(deadLetter: DeadLetter): Promise<JobAttempt[]> {
+    if (deadLetter.task_name) {
+        return query<JobAttempt>(
+            'SELECT * FROM job_attempts WHERE task_name = $1 ORDER BY started_at',
+            [deadLetter.task_name]
+        );
+    }
+    return query<JobAttempt>('SELECT * FROM job_attempts WHERE id = $1', [deadLetter.last_attempt_id]);
+}
+
+/**
+ * Resolve a pending dead letter. Returns false if it was already resolved.
+ */
+export async function resolveDeadLetter(
+    id: string,
+    status: 'replayed' | 'discarded',
+    replayTaskName?: string
+): Promise<boolean> {
+    const count = await execute(
+        `UPDATE job_dead_letters
+     SET status = $1, replay_task_name = $2, resolved_at = now()
+     WHERE id = $3 AND status = 'pending'`,
+        [status, replayTaskName ?? null, id]
+    );
+    return count > 0;
+}
+
+/**
+ * Record the task a replayed dead letter was re-enqueued as.
+ */
+export async function setReplayTaskName(id: string, replayTaskName: string): Promise<void> {
+    await execute('UPDATE job_dead_letters SET replay_task_name = $1 WHERE id = $2', [replayTaskName, id]);
+}
+
+/**
+ * Put a dead letter claimed for replay back to pending (the re-enqueue failed).
+ */
+export async function reopenDeadLetter(id: string): Promise<void> {
+    await execute(
+        `UPDATE job_dead_letters SET status = 'pending', replay_task_name = NULL, resolved_at = NULL
+     WHERE id = $1 AND status = 'replayed'`,
+        [id]
+    );
+}
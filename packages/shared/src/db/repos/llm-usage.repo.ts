@@ -0,0 +1,171 @@
+import { query, queryOne } from '../client.js';
+
+export interface LLMUsageRecord {
+    id: string;
+    tenant_id: string;
+    workflow_run_id: string | null;
+    deal_id: string | null;
+    call_type: 'research' | 'memo';
+    agent_key: string | null;
+    provider: string;
+    model: string;
+    input_tokens: number;
+    output_tokens: number;
+    web_search_calls: number;
+    latency_ms: number;
+    cost_usd: string | null;
+    created_at: Date;
+}
+
+export interface SpendSummary {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    webSearchCalls: number;
+    costUsd: number;
+    /** Calls whose model had no known pricing (excluded from costUsd) */
+    unpricedCalls: number;
+}
+
+export interface DateRange {
+    from?: Date;
+    to?: Date;
+}
+
+const SUMMARY_COLUMNS = `
+  count(*) AS calls,
+  coalesce(sum(input_tokens), 0) AS input_tokens,
+  coalesce(sum(output_tokens), 0) AS output_tokens,
+  coalesce(sum(web_search_calls), 0) AS web_search_calls,
+  coalesce(sum(cost_usd), 0) AS cost_usd,
+  count(*) FILTER (WHERE cost_usd IS NULL) AS unpriced_calls`;
+
+function toSummary(row: any): SpendSummary {
+    return {
+        calls: Number(row?.calls ?? 0),
+        inputTokens: Number(row?.input_tokens ?? 0),
+        outputTokens: Number(row?.output_tokens ?? 0),
+        webSearchCalls: Number(row?.web_search_calls ?? 0),
+        costUsd: Number(row?.cost_usd ?? 0),
+        unpricedCalls: Number(row?.unpriced_calls ?? 0),
+    };
+}
+
+/**
+ * WHERE clause for tenant + optional date range; params start at $1.
+ */
+function rangeFilter(tenantId: string, range: DateRange): { where: string; params: any[] } {
+    const params: any[] = [tenantId];
+    let where = 'u.tenant_id = $1';
+    if (range.from) {
+        params.push(range.from);
+        where += ` AND u.created_at >= $${params.length}`;
+    }
+    if (range.to) {
+        params.push(range.to);
+        where += ` AND u.created_at < $${params.length}`;
+    }
+    return { where, params };
+}
+
+export async function recordUsage(input: {
+    tenantId: string;
+    runId?: string;
+    dealId?: string;
+    callType: LLMUsageRecord['call_type'];
+    agentKey?: string;
+    provider: string;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    webSearchCalls: number;
+    latencyMs: number;
+    costUsd: number | null;
+}): Promise<void> {
+    await query(
+        `INSERT INTO llm_usage
+       (tenant_id, workflow_run_id, deal_id, call_type, agent_key, provider, model,
+        input_tokens, output_tokens, web_search_calls, latency_ms, cost_usd)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+        [
+            input.tenantId,
+            input.runId ?? null,
+            input.dealId ?? null,
+            input.callType,
+            input.agentKey ?? null,
+            input.provider,
+            input.model,
+            input.inputTokens,
+            input.outputTokens,
+            input.webSearchCalls,
+            input.latencyMs,
+            input.costUsd,
+        ]
+    );
+}
+
+export async function getUsageForRun(runId: string): Promise<LLMUsageRecord[]> {
+    return query<LLMUsageRecord>(
+        'SELECT * FROM llm_usage WHERE workflow_run_id = $1 ORDER BY created_at',
+        [runId]
+    );
+}
+
+export async function getTotalSpend(tenantId: string, range: DateRange = {}): Promise<SpendSummary> {
+    const { where, params } = rangeFilter(tenantId, range);
+    const row = await queryOne(`SELECT ${SUMMARY_COLUMNS} FROM llm_usage u WHERE ${where}`, params);
+    return toSummary(row);
+}
+
+export async function getDealSpend(dealId: string): Promise<SpendSummary> {
+    const row = await queryOne(`SELECT ${SUMMARY_COLUMNS} FROM llm_usage WHERE deal_id = $1`, [dealId]);
+    return toSummary(row);
+}
+
+export async function getSpendByDeal(
+    tenantId: string,
+    range: DateRange = {}
+): Promise<Array<SpendSummary & { dealId: string | null; companyName: string | null }>> {
+    const { where, params } = rangeFilter(tenantId, range);
+    const rows = await query(
+        `SELECT u.deal_id, d.company_name, ${SUMMARY_COLUMNS}
+     FROM llm_usage u LEFT JOIN deals d ON d.id = u.deal_id
+     WHERE ${where}
+     GROUP BY u.deal_id, d.company_name
+     ORDER BY cost_usd DESC`,
+        params
+    );
+    return rows.map((r) => ({ dealId: r.deal_id, companyName: r.company_name, ...toSummary(r) }));
+}
+
+export async function getSpendByAgent(
+    tenantId: string,
+    range: DateRange = {}
+): Promise<Array<SpendSummary & { callType: string; agentKey: string | null }>> {
+    const { where, params } = rangeFilter(tenantId, range);
+    const rows = await query(
+        `SELECT u.call_type, u.agent_key, ${SUMMARY_COLUMNS}
+     FROM llm_usage u
+     WHERE ${where}
+     GROUP BY u.call_type, u.agent_key
+     ORDER BY cost_usd DESC`,
+        params
+    );
+    return rows.map((r) => ({ callType: r.call_type, agentKey: r.agent_key, ...toSummary(r) }));
+}
+
+export async function getSpendByMonth(
+    tenantId: string,
+    range: DateRange = {}
+): Promise<Array<SpendSummary & { month: string }>> {
+    const { where, params } = rangeFilter(tenantId, range);
+    const rows = await query(
+        `SELECT to_char(date_trunc('month', u.created_at), 'YYYY-MM') AS month, ${SUMMARY_COLUMNS}
+     FROM llm_usage u
+     WHERE ${where}
+     GROUP BY 1
+     ORDER BY 1 DESC`,
+        params
+    );
+    return rows.map((r) => ({ month: r.month, ...toSummary(r) }));
+}
@@ -0,0 +1,57 @@
+import { query, queryOne } from '../client.js';
+
+export interface Memo {
+    id: string;
+    tenant_id: string;
+    deal_id: string;
+    workflow_run_id: string;
+    title: string;
+    sections: Array<{ heading: string; content: string }>;
+    research_result_ids: string[];
+    research_run_ids: string[];
+    meeting_notes_included: boolean;
+    meeting_notes_hash: string | null;
+    model: string | null;
+    created_at: Date;
+}
+
+export async function createMemo(input: {
+    tenantId: string;
+    dealId: string;
+    runId: string;
+    title: string;
+    sections: Memo['sections'];
+    researchResultIds: string[];
+    researchRunIds: string[];
+    meetingNotesIncluded: boolean;
+    meetingNotesHash?: string | null;
+    model?: string;
+}): Promise<Memo> {
+    const row = await queryOne<Memo>(
+        `INSERT INTO memos
+       (tenant_id, deal_id, workflow_run_id, title, sections, research_result_ids, research_run_ids, meeting_notes_included,
+        meeting_notes_hash, model)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     RETURNING *`,
+        [
+            input.tenantId,
+            input.dealId,
+            input.runId,
+            input.title,
+            JSON.stringify(input.sections),
+            input.researchResultIds,
+            input.researchRunIds,
+            input.meetingNotesIncluded,
+            input.meetingNotesHash ?? null,
+            input.model ?? null,
+        ]
+    );
+    return row!;
+}
+
+export async function getMemosForDeal(dealId: string): Promise<Memo[]> {
+    return query<Memo>(
+        'SELECT * FROM memos WHERE deal_id = $1 ORDER BY created_at DESC',
+        [dealId]
+    );
+}
@@ -1,6 +1,7 @@
 import { query, queryOne, execute } from '../client.js';
 
-export type StageKey = 'FIRST_MEETING' | 'IN_DILIGENCE' | 'IC_REVIEW' | 'PASS' | 'ARCHIVE';
+/** A tenant-defined stage key from pipeline_stages (e.g. FIRST_MEETING, TERM_SHEET) */
+export type StageKey = string;
 
 export interface PipelineSection {
     id: string;
@@ -24,6 +25,20 @@ export async function getStageForSection(
     return row?.stage_key ?? null;
 }
 
+/**
+ * The pipeline project a mapped section belongs to (section GIDs are globally unique in Asana).
+ */
+export async function getProjectForSection(
+    tenantId: string,
+    sectionGid: string
+): Promise<string | null> {
+    const row = await queryOne<PipelineSection>(
+        'SELECT * FROM pipeline_sections WHERE tenant_id = $1 AND section_gid = $2 LIMIT 1',
+        [tenantId, sectionGid]
+    );
+    return row?.project_gid ?? null;
+}
+
 export async function getAllSections(
     tenantId: string,
     projectGid: string
@@ -52,12 +67,39 @@ export async function upsertSection(input: {
     projectGid: string;
     sectionGid: string;
     stageKey: StageKey;
+    enabled?: boolean;
 }): Promise<void> {
     await execute(
-        `INSERT INTO pipeline_sections (tenant_id, project_gid, section_gid, stage_key)
-     VALUES ($1, $2, $3, $4)
+        `INSERT INTO pipeline_sections (tenant_id, project_gid, section_gid, stage_key, enabled)
+     VALUES ($1, $2, $3, $4, $5)
      ON CONFLICT (tenant_id, project_gid, section_gid)
-     DO UPDATE SET stage_key = EXCLUDED.stage_key, enabled = true`,
-        [input.tenantId, input.projectGid, input.sectionGid, input.stageKey]
+     DO UPDATE SET stage_key = EXCLUDED.stage_key, enabled = EXCLUDED.enabled`,
+        [input.tenantId, input.projectGid, input.sectionGid, input.stageKey, input.enabled ?? true]
+    );
+}
+
+export async function setSectionEnabled(
+    tenantId: string,
+    projectGid: string,
+    sectionGid: string,
+    enabled: boolean
+): Promise<boolean> {
+    const count = await execute(
+        `UPDATE pipeline_sections SET enabled = $4
+     WHERE tenant_id = $1 AND project_gid = $2 AND section_gid = $3`,
+        [tenantId, projectGid, sectionGid, enabled]
+    );
+    return count > 0;
+}
+
+export async function deleteSection(
+    tenantId: string,
+    projectGid: string,
+    sectionGid: string
+): Promise<boolean> {
+    const count = await execute(
+        'DELETE FROM pipeline_sections WHERE tenant_id = $1 AND project_gid = $2 AND section_gid = $3',
+        [tenantId, projectGid, sectionGid]
     );
+    return count > 0;
 }
@@ -0,0 +1,135 @@
+import { query, queryOne, execute, withTransaction } from '../client.js';
+
+export interface PipelineStage {
+    id: string;
+    tenant_id: string;
+    stage_key: string;
+    title: string;
+    behaviours: string[];
+    notion_status: string;
+    cancel_on_enter: boolean;
+    cancel_on_exit: boolean;
+    is_entry: boolean;
+    display_order: number;
+    enabled: boolean;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface UpsertStageInput {
+    tenantId: string;
+    stageKey: string;
+    title: string;
+    behaviours?: string[];
+    notionStatus?: string;
+    cancelOnEnter?: boolean;
+    cancelOnExit?: boolean;
+    isEntry?: boolean;
+    displayOrder?: number;
+    enabled?: boolean;
+}
+
+/**
+ * List a tenant's stages in display order.
+ */
+export async function listStages(
+    tenantId: string,
+    opts: { enabledOnly?: boolean } = {}
+): Promise<PipelineStage[]> {
+    return query<PipelineStage>(
+        `SELECT * FROM pipeline_stages
+     WHERE tenant_id = $1 ${opts.enabledOnly ? 'AND enabled = true' : ''}
+     ORDER BY display_order, stage_key`,
+        [tenantId]
+    );
+}
+
+export async function getStage(tenantId: string, stageKey: string): Promise<PipelineStage | null> {
+    return queryOne<PipelineStage>(
+        'SELECT * FROM pipeline_stages WHERE tenant_id = $1 AND stage_key = $2',
+        [tenantId, stageKey]
+    );
+}
+
+export async function countStages(tenantId: string): Promise<number> {
+    const row = await queryOne<{ count: string }>(
+        'SELECT count(*) FROM pipeline_stages WHERE tenant_id = $1',
+        [tenantId]
+    );
+    return parseInt(row?.count ?? '0', 10);
+}
+
+/**
+ * Create or update a stage. Marking it the entry stage clears the flag on the tenant's other stages.
+ */
+export async function upsertStage(input: UpsertStageInput): Promise<PipelineStage> {
+    return withTransaction(async (client) => {
+        if (input.isEntry) {
+            await client.query(
+                `UPDATE pipeline_stages SET is_entry = false, updated_at = now()
+         WHERE tenant_id = $1 AND stage_key <> $2 AND is_entry = true`,
+                [input.tenantId, input.stageKey]
+            );
+        }
+
+        const { rows } = await client.query<PipelineStage>(
+            `INSERT INTO pipeline_stages
+         (tenant_id, stage_key, title, behaviours, notion_status, cancel_on_enter, cancel_on_exit, is_entry, display_order, enabled)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (tenant_id, stage_key)
+       DO UPDATE SET
+         title = EXCLUDED.title,
+         behaviours = EXCLUDED.behaviours,
+         notion_status = EXCLUDED.notion_status,
+         cancel_on_enter = EXCLUDED.cancel_on_enter,
+         cancel_on_exit = EXCLUDED.cancel_on_exit,
+         is_entry = EXCLUDED.is_entry,
+         display_order = EXCLUDED.display_order,
+         enabled = EXCLUDED.enabled,
+         updated_at = now()
+       RETURNING *`,
+            stageParams(input)
+        );
+        return rows[0];
+    });
+}
+
+/**
+ * Insert stages that don't exist yet for the tenant (existing rows are left untouched).
+ */
+export async function seedStages(tenantId: string, stages: Omit<UpsertStageInput, 'tenantId'>[]): Promise<void> {
+    await withTransaction(async (client) => {
+        for (const stage of stages) {
+            await client.query(
+                `INSERT INTO pipeline_stages
+           (tenant_id, stage_key, title, behaviours, notion_status, cancel_on_enter, cancel_on_exit, is_entry, display_order, enabled)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         ON CONFLICT (tenant_id, stage_key) DO NOTHING`,
+                stageParams({ tenantId, ...stage })
+            );
+        }
+    });
+}
+
+function stageParams(input: UpsertStageInput): any[] {
+    return [
+        input.tenantId,
+        input.stageKey,
+        input.title,
+        JSON.stringify(input.behaviours ?? []),
+        input.notionStatus ?? 'Active',
+        input.cancelOnEnter ?? false,
+        input.cancelOnExit ?? false,
+        input.isEntry ?? false,
+        input.displayOrder ?? 0,
+        input.enabled ?? true,
+    ];
+}
+
+export async function deleteStage(tenantId: string, stageKey: string): Promise<boolean> {
+    const count = await execute(
+        'DELETE FROM pipeline_stages WHERE tenant_id = $1 AND stage_key = $2',
+        [tenantId, stageKey]
+    );
+    return count > 0;
+}
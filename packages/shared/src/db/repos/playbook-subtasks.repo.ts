@@ -0,0 +1,45 @@
+import { query, execute } from '../client.js';
+
+export interface PlaybookSubtaskRow {
+    id: string;
+    tenant_id: string;
+    deal_id: string;
+    stage_key: string;
+    subtask_name: string;
+    subtask_gid: string;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export async function listForDealStage(dealId: string, stageKey: string): Promise<PlaybookSubtaskRow[]> {
+    return query<PlaybookSubtaskRow>(
+        'SELECT * FROM playbook_subtasks WHERE deal_id = $1 AND stage_key = $2',
+        [dealId, stageKey]
+    );
+}
+
+export async function listForDeal(dealId: string): Promise<PlaybookSubtaskRow[]> {
+    return query<PlaybookSubtaskRow>(
+        'SELECT * FROM playbook_subtasks WHERE deal_id = $1 ORDER BY stage_key, created_at',
+        [dealId]
+    );
+}
+
+/**
+ * Record (or re-point, if it was recreated) the Asana subtask backing a playbook entry.
+ */
+export async function recordSubtask(input: {
+    tenantId: string;
+    dealId: string;
+    stageKey: string;
+    subtaskName: string;
+    subtaskGid: string;
+}): Promise<void> {
+    await execute(
+        `INSERT INTO playbook_subtasks (tenant_id, deal_id, stage_key, subtask_name, subtask_gid)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (deal_id, stage_key, subtask_name)
+     DO UPDATE SET subtask_gid = EXCLUDED.subtask_gid, updated_at = now()`,
+        [input.tenantId, input.dealId, input.stageKey, input.subtaskName, input.subtaskGid]
+    );
+}
@@ -0,0 +1,150 @@
+import { query, queryOne, execute, withTransaction } from '../client.js';
+import type { ResearchCacheScope } from '../../clients/llm.client.js';
+
+export interface ResearchAgent {
+    id: string;
+    tenant_id: string;
+    agent_key: string;
+    title: string;
+    prompt: string;
+    tools: string[];
+    model: string | null;
+    display_order: number;
+    enabled: boolean;
+    cache_scope: ResearchCacheScope;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface UpsertAgentInput {
+    tenantId: string;
+    agentKey: string;
+    title: string;
+    prompt: string;
+    tools?: string[];
+    model?: string | null;
+    displayOrder?: number;
+    enabled?: boolean;
+    cacheScope?: ResearchCacheScope;
+}
+
+/**
+ * List a tenant's agents in display order.
+ */
+export async function listAgents(
+    tenantId: string,
+    opts: { enabledOnly?: boolean } = {}
+): Promise<ResearchAgent[]> {
+    return query<ResearchAgent>(
+        `SELECT * FROM research_agents
+     WHERE tenant_id = $1 ${opts.enabledOnly ? 'AND enabled = true' : ''}
+     ORDER BY display_order, agent_key`,
+        [tenantId]
+    );
+}
+
+export async function getAgent(tenantId: string, agentKey: string): Promise<ResearchAgent | null> {
+    return queryOne<ResearchAgent>(
+        'SELECT * FROM research_agents WHERE tenant_id = $1 AND agent_key = $2',
+        [tenantId, agentKey]
+    );
+}
+
+/**
+ * Whether the tenant's built-in agents have been seeded (whether or not they still exist).
+ */
+export async function isSeeded(tenantId: string): Promise<boolean> {
+    const row = await queryOne<{ tenant_id: string }>(
+        'SELECT tenant_id FROM research_agent_seeds WHERE tenant_id = $1',
+        [tenantId]
+    );
+    return row !== null;
+}
+
+export async function upsertAgent(input: UpsertAgentInput): Promise<ResearchAgent> {
+    const row = await queryOne<ResearchAgent>(
+        `INSERT INTO research_agents
+       (tenant_id, agent_key, title, prompt, tools, model, display_order, enabled, cache_scope)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     ON CONFLICT (tenant_id, agent_key)
+     DO UPDATE SET
+       title = EXCLUDED.title,
+       prompt = EXCLUDED.prompt,
+       tools = EXCLUDED.tools,
+       model = EXCLUDED.model,
+       display_order = EXCLUDED.display_order,
+       enabled = EXCLUDED.enabled,
+       cache_scope = EXCLUDED.cache_scope,
+       updated_at = now()
+     RETURNING *`,
+        [
+            input.tenantId,
+            input.agentKey,
+            input.title,
+            input.prompt,
+            JSON.stringify(input.tools ?? ['web_search_preview']),
+            input.model ?? null,
+            input.displayOrder ?? 0,
+            input.enabled ?? true,
+            input.cacheScope ?? 'company',
+        ]
+    );
+    return row!;
+}
+
+/**
+ * Seed agents for a tenant once: marks the tenant seeded and inserts agents that don't exist yet
+ * (existing rows are left untouched). Does nothing if the tenant was already seeded.
+ */
+export async function seedAgents(tenantId: string, agents: Omit<UpsertAgentInput, 'tenantId'>[]): Promise<void> {
+    await withTransaction(async (client) => {
+        const marked = await client.query(
+            `INSERT INTO research_agent_seeds (tenant_id) VALUES ($1)
+       ON CONFLICT (tenant_id) DO NOTHING
+       RETURNING tenant_id`,
+            [tenantId]
+        );
+        if (marked.rowCount === 0) return;
+
+        for (const agent of agents) {
+            await client.query(
+                `INSERT INTO research_agents
+           (tenant_id, agent_key, title, prompt, tools, model, display_order, enabled, cache_scope)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         ON CONFLICT (tenant_id, agent_key) DO NOTHING`,
+                [
+                    tenantId,
+                    agent.agentKey,
+                    agent.title,
+                    agent.prompt,
+                    JSON.stringify(agent.tools ?? ['web_search_preview']),
+                    agent.model ?? null,
+                    agent.displayOrder ?? 0,
+                    agent.enabled ?? true,
+                    agent.cacheScope ?? 'company',
+                ]
+            );
+        }
+    });
+}
+
+export async function setAgentEnabled(
+    tenantId: string,
+    agentKey: string,
+    enabled: boolean
+): Promise<boolean> {
+    const count = await execute(
+        `UPDATE research_agents SET enabled = $1, updated_at = now()
+     WHERE tenant_id = $2 AND agent_key = $3`,
+        [enabled, tenantId, agentKey]
+    );
+    return count > 0;
+}
+
+export async function deleteAgent(tenantId: string, agentKey: string): Promise<boolean> {
+    const count = await execute(
+        'DELETE FROM research_agents WHERE tenant_id = $1 AND agent_key = $2',
+        [tenantId, agentKey]
+    );
+    return count > 0;
+}
@@ -0,0 +1,76 @@
+import { queryOne, execute } from '../client.js';
+import type { ResearchClaim, RiskRating } from '../../clients/research-output.js';
+import type { ResearchCitation } from './research-results.repo.js';
+
+export interface CachedResearch {
+    summary: string;
+    claims: ResearchClaim[];
+    risks: RiskRating[];
+    openQuestions: string[];
+    citations: ResearchCitation[];
+    confidenceScore: number;
+}
+
+export interface ResearchCacheEntry {
+    id: string;
+    tenant_id: string;
+    cache_key: string;
+    agent_key: string;
+    company_key: string;
+    founder_key: string;
+    prompt_version: string;
+    result: CachedResearch;
+    model: string | null;
+    created_at: Date;
+}
+
+export async function getEntry(tenantId: string, cacheKey: string): Promise<ResearchCacheEntry | null> {
+    return queryOne<ResearchCacheEntry>(
+        'SELECT * FROM research_cache WHERE tenant_id = $1 AND cache_key = $2',
+        [tenantId, cacheKey]
+    );
+}
+
+/**
+ * Store (or replace) the cached output for a key; created_at restarts the TTL.
+ */
+export async function putEntry(input: {
+    tenantId: string;
+    cacheKey: string;
+    agentKey: string;
+    companyKey: string;
+    founderKey: string;
+    promptVersion: string;
+    result: CachedResearch;
+    model?: string;
+}): Promise<ResearchCacheEntry> {
+    const row = await queryOne<ResearchCacheEntry>(
+        `INSERT INTO research_cache
+       (tenant_id, cache_key, agent_key, company_key, founder_key, prompt_version, result, model)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     ON CONFLICT (tenant_id, cache_key)
+     DO UPDATE SET
+       result = EXCLUDED.result,
+       model = EXCLUDED.model,
+       created_at = now()
+     RETURNING *`,
+        [
+            input.tenantId,
+            input.cacheKey,
+            input.agentKey,
+            input.companyKey,
+            input.founderKey,
+            input.promptVersion,
+            JSON.stringify(input.result),
+            input.model ?? null,
+        ]
+    );
+    return row!;
+}
+
+/**
+ * Drop cached research for a company (all agents, founders and prompt versions).
+ */
+export async function invalidateCompany(tenantId: string, companyKey: string): Promise<number> {
+    return execute('DELETE FROM research_cache WHERE tenant_id = $1 AND company_key = $2', [tenantId, companyKey]);
+}
@@ -0,0 +1,103 @@
+import { query, queryOne } from '../client.js';
+import type { ResearchClaim, ResearchDiff, RiskRating } from '../../clients/research-output.js';
+
+export interface ResearchCitation {
+    title: string;
+    url?: string;
+    quote?: string;
+    confidence: number;
+}
+
+export interface StoredResearchResult {
+    id: string;
+    tenant_id: string;
+    deal_id: string;
+    workflow_run_id: string;
+    agent_key: string;
+    summary: string;
+    claims: ResearchClaim[];
+    risks: RiskRating[];
+    open_questions: string[];
+    citations: ResearchCitation[];
+    confidence_score: number | null;
+    model: string | null;
+    from_cache: boolean;
+    refresh_diff: ResearchDiff | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+/**
+ * Store an agent's output for a workflow run.
+ * Re-running the same agent within a run overwrites the previous output.
+ */
+export async function saveResult(input: {
+    tenantId: string;
+    dealId: string;
+    runId: string;
+    agentKey: string;
+    summary: string;
+    claims?: ResearchClaim[];
+    risks?: RiskRating[];
+    openQuestions?: string[];
+    citations: ResearchCitation[];
+    confidenceScore?: number;
+    model?: string;
+    fromCache?: boolean;
+    refreshDiff?: ResearchDiff | null;
+}): Promise<StoredResearchResult> {
+    const row = await queryOne<StoredResearchResult>(
+        `INSERT INTO research_results
+       (tenant_id, deal_id, workflow_run_id, agent_key, summary, claims, risks, open_questions,
+        citations, confidence_score, model, from_cache, refresh_diff)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+     ON CONFLICT (workflow_run_id, agent_key)
+     DO UPDATE SET
+       summary = EXCLUDED.summary,
+       claims = EXCLUDED.claims,
+       risks = EXCLUDED.risks,
+       open_questions = EXCLUDED.open_questions,
+       citations = EXCLUDED.citations,
+       confidence_score = EXCLUDED.confidence_score,
+       model = EXCLUDED.model,
+       from_cache = EXCLUDED.from_cache,
+       refresh_diff = EXCLUDED.refresh_diff,
+       updated_at = now()
+     RETURNING *`,
+        [
+            input.tenantId,
+            input.dealId,
+            input.runId,
+            input.agentKey,
+            input.summary,
+            JSON.stringify(input.claims ?? []),
+            JSON.stringify(input.risks ?? []),
+            JSON.stringify(input.openQuestions ?? []),
+            JSON.stringify(input.citations),
+            input.confidenceScore ?? null,
+            input.model ?? null,
+            input.fromCache ?? false,
+            input.refreshDiff ? JSON.stringify(input.refreshDiff) : null,
+        ]
+    );
+    return row!;
+}
+
+export async function getResultsForRun(runId: string): Promise<StoredResearchResult[]> {
+    return query<StoredResearchResult>(
+        'SELECT * FROM research_results WHERE workflow_run_id = $1 ORDER BY created_at',
+        [runId]
+    );
+}
+
+/**
+ * Latest output per agent for a deal, across all workflow runs.
+ */
+export async function getLatestResultsForDeal(dealId: string): Promise<StoredResearchResult[]> {
+    return query<StoredResearchResult>(
+        `SELECT DISTINCT ON (agent_key) * FROM research_results
+     WHERE deal_id = $1
+     ORDER BY agent_key, updated_at DESC`,
+        [dealId]
+    );
+}
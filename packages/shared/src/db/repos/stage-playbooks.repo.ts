@@ -0,0 +1,57 @@
+import { query, queryOne, execute } from '../client.js';
+import type { StagePlaybook } from '../../helpers/stage-playbooks.js';
+
+export interface StagePlaybookRow {
+    id: string;
+    tenant_id: string;
+    stage_key: string;
+    definition: StagePlaybook;
+    source: string;
+    source_format: 'json' | 'yaml';
+    created_at: Date;
+    updated_at: Date;
+}
+
+export async function listPlaybooks(tenantId: string): Promise<StagePlaybookRow[]> {
+    return query<StagePlaybookRow>(
+        'SELECT * FROM stage_playbooks WHERE tenant_id = $1 ORDER BY stage_key',
+        [tenantId]
+    );
+}
+
+export async function getPlaybook(tenantId: string, stageKey: string): Promise<StagePlaybookRow | null> {
+    return queryOne<StagePlaybookRow>(
+        'SELECT * FROM stage_playbooks WHERE tenant_id = $1 AND stage_key = $2',
+        [tenantId, stageKey]
+    );
+}
+
+export async function upsertPlaybook(input: {
+    tenantId: string;
+    stageKey: string;
+    definition: StagePlaybook;
+    source: string;
+    sourceFormat: 'json' | 'yaml';
+}): Promise<StagePlaybookRow> {
+    const row = await queryOne<StagePlaybookRow>(
+        `INSERT INTO stage_playbooks (tenant_id, stage_key, definition, source, source_format)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (tenant_id, stage_key)
+     DO UPDATE SET
+       definition = EXCLUDED.definition,
+       source = EXCLUDED.source,
+       source_format = EXCLUDED.source_format,
+       updated_at = now()
+     RETURNING *`,
+        [input.tenantId, input.stageKey, JSON.stringify(input.definition), input.source, input.sourceFormat]
+    );
+    return row!;
+}
+
+export async function deletePlaybook(tenantId: string, stageKey: string): Promise<boolean> {
+    const count = await execute(
+        'DELETE FROM stage_playbooks WHERE tenant_id = $1 AND stage_key = $2',
+        [tenantId, stageKey]
+    );
+    return count > 0;
+}
@@ -0,0 +1,121 @@
+import { query, queryOne, execute, withTransaction } from '../client.js';
+
+export type CalendarAuthMode = 'oauth' | 'delegation';
+
+export interface WatchedCalendar {
+    id: string;
+    tenant_id: string;
+    calendar_id: string;
+    owner_email: string | null;
+    owner_name: string | null;
+    auth_mode: CalendarAuthMode;
+    refresh_token_secret: string | null;
+    impersonate_email: string | null;
+    enabled: boolean;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface UpsertCalendarInput {
+    tenantId: string;
+    calendarId: string;
+    ownerEmail?: string | null;
+    ownerName?: string | null;
+    authMode?: CalendarAuthMode;
+    refreshTokenSecret?: string | null;
+    impersonateEmail?: string | null;
+    enabled?: boolean;
+}
+
+export async function listCalendars(
+    tenantId: string,
+    opts: { enabledOnly?: boolean } = {}
+): Promise<WatchedCalendar[]> {
+    return query<WatchedCalendar>(
+        `SELECT * FROM watched_calendars
+     WHERE tenant_id = $1 ${opts.enabledOnly ? 'AND enabled = true' : ''}
+     ORDER BY created_at`,
+        [tenantId]
+    );
+}
+
+/**
+ * Every tenant's registered calendars (for renewal across tenants).
+ */
+export async function listAllCalendars(): Promise<WatchedCalendar[]> {
+    return query<WatchedCalendar>('SELECT * FROM watched_calendars ORDER BY tenant_id, created_at');
+}
+
+export async function getCalendar(tenantId: string, calendarId: string): Promise<WatchedCalendar | null> {
+    return queryOne<WatchedCalendar>(
+        'SELECT * FROM watched_calendars WHERE tenant_id = $1 AND calendar_id = $2',
+        [tenantId, calendarId]
+    );
+}
+
+export async function isSeeded(tenantId: string): Promise<boolean> {
+    const row = await queryOne<{ tenant_id: string }>(
+        'SELECT tenant_id FROM watched_calendar_seeds WHERE tenant_id = $1',
+        [tenantId]
+    );
+    return row !== null;
+}
+
+export async function upsertCalendar(input: UpsertCalendarInput): Promise<WatchedCalendar> {
+    const row = await queryOne<WatchedCalendar>(
+        `INSERT INTO watched_calendars
+       (tenant_id, calendar_id, owner_email, owner_name, auth_mode, refresh_token_secret, impersonate_email, enabled)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     ON CONFLICT (tenant_id, calendar_id)
+     DO UPDATE SET
+       owner_email = EXCLUDED.owner_email,
+       owner_name = EXCLUDED.owner_name,
+       auth_mode = EXCLUDED.auth_mode,
+       refresh_token_secret = EXCLUDED.refresh_token_secret,
+       impersonate_email = EXCLUDED.impersonate_email,
+       enabled = EXCLUDED.enabled,
+       updated_at = now()
+     RETURNING *`,
+        [
+            input.tenantId,
+            input.calendarId,
+            input.ownerEmail ?? null,
+            input.ownerName ?? null,
+            input.authMode ?? 'oauth',
+            input.refreshTokenSecret ?? null,
+            input.impersonateEmail ?? null,
+            input.enabled ?? true,
+        ]
+    );
+    return row!;
+}
+
+/**
+ * Register the tenant's first calendar and mark the tenant seeded, in one transaction.
+ * Does nothing if the tenant was already seeded; an existing row for the calendar is kept.
+ */
+export async function seedCalendar(tenantId: string, calendarId: string): Promise<void> {
+    await withTransaction(async (client) => {
+        const marked = await client.query(
+            `INSERT INTO watched_calendar_seeds (tenant_id) VALUES ($1)
+       ON CONFLICT (tenant_id) DO NOTHING
+       RETURNING tenant_id`,
+            [tenantId]
+        );
+        if (marked.rowCount === 0) return;
+
+        await client.query(
+            `INSERT INTO watched_calendars (tenant_id, calendar_id) VALUES ($1, $2)
+       ON CONFLICT (tenant_id, calendar_id) DO NOTHING`,
+            [tenantId, calendarId]
+        );
+    });
+}
+
+export async function deleteCalendar(tenantId: string, calendarId: string): Promise<boolean> {
+    const count = await execute(
+        'DELETE FROM watched_calendars WHERE tenant_id = $1 AND calendar_id = $2',
+        [tenantId, calendarId]
+    );
+    return count > 0;
+}
@@ -0,0 +1,93 @@
+import * as asanaPipelinesRepo from '../db/repos/asana-pipelines.repo.js';
+import * as pipelineSectionsRepo from '../db/repos/pipeline-sections.repo.js';
+import * as asanaWebhookSecretsRepo from '../db/repos/asana-webhook-secrets.repo.js';
+import { AsanaClient } from '../clients/asana.client.js';
+
+/** How long a rotated-out secret keeps verifying, for Asana's retries of earlier deliveries */
+const SECRET_GRACE_MINUTES = parseInt(process.env.ASANA_SECRET_GRACE_MINUTES || '60', 10);
+
+/**
+ * Seed a default pipeline from the legacy single-project env vars for a tenant
+ * that has no pipeline rows yet.
+ */
+export async function ensureDefaultPipeline(tenantId: string): Promise<void> {
+    const projectGid = process.env.ASANA_PIPELINE_PROJECT_GID || process.env.ASANA_PROJECT_GID;
+    if (!projectGid) return;
+    if ((await asanaPipelinesRepo.countPipelines(tenantId)) > 0) return;
+
+    await asanaPipelinesRepo.upsertPipeline({
+        tenantId,
+        projectGid,
+        name: 'Pipeline',
+        isDefault: true,
+    });
+}
+
+/**
+ * Enabled pipelines for a tenant, default first.
+ */
+export async function getAsanaPipelines(tenantId: string): Promise<asanaPipelinesRepo.AsanaPipeline[]> {
+    await ensureDefaultPipeline(tenantId);
+    return asanaPipelinesRepo.listPipelines(tenantId, { enabledOnly: true });
+}
+
+/**
+ * Pick the pipeline a new deal should be created in: the first pipeline whose
+ * deal keywords appear in the meeting text, else the tenant's default.
+ */
+export async function selectPipelineForDeal(
+    tenantId: string,
+    text: string
+): Promise<asanaPipelinesRepo.AsanaPipeline | null> {
+    const pipelines = await getAsanaPipelines(tenantId);
+    const haystack = text.toLowerCase();
+
+    const matched = pipelines.find((p) =>
+        p.deal_keywords.some((kw) => kw.trim() && haystack.includes(kw.trim().toLowerCase()))
+    );
+    return matched ?? pipelines.find((p) => p.is_default) ?? pipelines[0] ?? null;
+}
+
+/**
+ * Resolve which pipeline project an Asana webhook event belongs to, from its parent.
+ * Section parents are mapped through pipeline_sections; anything else (or an unknown
+ * project) falls back to the project of the pipeline whose webhook delivered it.
+ */
+export async function resolveEventProject(
+    tenantId: string,
+    event: { parent?: { gid?: string; resource_type?: string } | null },
+    receivingPipeline: asanaPipelinesRepo.AsanaPipeline
+): Promise<string> {
+    const parent = event.parent;
+    let projectGid: string | null = null;
+
+    if (parent?.gid && parent.resource_type === 'project') {
+        projectGid = parent.gid;
+    } else if (parent?.gid && parent.resource_type === 'section') {
+        projectGid = await pipelineSectionsRepo.getProjectForSection(tenantId, parent.gid);
+    }
+
+    if (projectGid && projectGid !== receivingPipeline.project_gid) {
+        const pipeline = await asanaPipelinesRepo.getPipelineByProject(tenantId, projectGid);
+        if (pipeline?.enabled) return pipeline.project_gid;
+    }
+    return receivingPipeline.project_gid;
+}
+
+/**
+ * Find the stored secret a delivery was signed with. Deliveries to a pipeline path
+ * are checked against that pipeline's secrets only; the bare path tries every
+ * secret of the tenant, which also identifies the webhook that sent it.
+ */
+export async function findWebhookSecret(
+    tenantId: string,
+    rawBody: Buffer,
+    signature: string,
+    pipelineId?: string
+): Promise<asanaWebhookSecretsRepo.AsanaWebhookSecret | null> {
+    const candidates = await asanaWebhookSecretsRepo.listVerificationSecrets(tenantId, {
+        pipelineId,
+        graceMinutes: SECRET_GRACE_MINUTES,
+    });
+    return candidates.find((c) => AsanaClient.verifySignature(rawBody, signature, c.secret)) ?? null;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { dealsRepo, dealDuplicatesRepo } = vi.hoisted(() => ({
+    dealsRepo: { getDealById: vi.fn(), mergeDealRecords: vi.fn() },
+    dealDuplicatesRepo: { resolvePair: vi.fn() },
+}));
+
+vi.mock('../db/repos/deals.repo.js', () => dealsRepo);
+vi.mock('../db/repos/deal-duplicates.repo.js', () => dealDuplicatesRepo);
+
+import { scoreDealPair, mergeDeals, DealMergeError } from './deal-dedup.js';
+
+const deal = (companyName: string | null, founderName: string | null, domains: string[] = []) => ({
+    companyName,
+    founderName,
+    domains,
+});
+
+describe('scoreDealPair', () => {
+    it('scores identical company, domain and founder at the cap', () => {
+        expect(scoreDealPair(
+            deal('Acme Robotics, Inc.', 'Jane Doe', ['acme.io']),
+            deal('acme robotics', 'Dr. Jane Doe', ['acme.io'])
+        )).toEqual({ score: 1, reasons: ['company_name', 'attendee_domain', 'founder_name'] });
+    });
+
+    it('counts an exact normalized company name', () => {
+        expect(scoreDealPair(deal('Acme Labs', null), deal('ACME', null))).toEqual({
+            score: 0.6,
+            reasons: ['company_name'],
+        });
+    });
+
+    it('counts company names sharing at least half their words as similar', () => {
+        expect(scoreDealPair(deal('Acme Robotics', null), deal('Acme Robotics Europe', null))).toEqual({
+            score: 0.3,
+            reasons: ['similar_company_name'],
+        });
+        expect(scoreDealPair(deal('Acme Robotics', null), deal('Beta Robotics Systems', null)).reasons).toEqual([]);
+    });
+
+    it('combines a shared attendee domain with the founder name', () => {
+        expect(scoreDealPair(
+            deal('Stealth', 'Jane Doe', ['acme.io', 'vc.com']),
+            deal('Acme', 'Jane Doe', ['acme.io'])
+        )).toEqual({ score: 0.9, reasons: ['attendee_domain', 'founder_name'] });
+    });
+
+    it('ignores placeholder company and founder names', () => {
+        expect(scoreDealPair(deal('Unknown', 'Unknown Founder'), deal('Unknown', 'Unknown Founder'))).toEqual({
+            score: 0,
+            reasons: [],
+        });
+        expect(scoreDealPair(deal(null, null), deal(null, null)).score).toBe(0);
+    });
+});
+
+describe('mergeDeals', () => {
+    const stored = (id: string) => ({ id, tenant_id: 'tenant-1', merged_into_deal_id: null, notion_urls: {} });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        dealsRepo.getDealById.mockImplementation(async (id: string) => stored(id));
+    });
+
+    it('refuses a deal that was merged before it was read', async () => {
+        dealsRepo.getDealById.mockImplementation(async (id: string) => ({
+            ...stored(id),
+            merged_into_deal_id: id === 'deal-b' ? 'deal-c' : null,
+        }));
+
+        await expect(mergeDeals('deal-a', 'deal-b', { mergedBy: 'admin' })).rejects.toMatchObject({ status: 409 });
+        expect(dealsRepo.mergeDealRecords).not.toHaveBeenCalled();
+    });
+
+    it('raises 409 when a concurrent merge wins the lock', async () => {
+        dealsRepo.mergeDealRecords.mockResolvedValue(false);
+
+        const merge = mergeDeals('deal-a', 'deal-b', { mergedBy: 'auto' });
+        await expect(merge).rejects.toBeInstanceOf(DealMergeError);
+        await expect(merge).rejects.toMatchObject({ status: 409 });
+        expect(dealDuplicatesRepo.resolvePair).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,242 @@
+import * as dealsRepo from '../db/repos/deals.repo.js';
+import * as dealMeetingsRepo from '../db/repos/deal-meetings.repo.js';
+import * as dealDuplicatesRepo from '../db/repos/deal-duplicates.repo.js';
+import * as integrationsRepo from '../db/repos/integrations.repo.js';
+import { AsanaClient } from '../clients/asana.client.js';
+import { NotionClient } from '../clients/notion.client.js';
+import { normalizeCompanyName, normalizePersonName } from './normalize.js';
+import { getSecret } from './secrets.js';
+import { logger } from './logger.js';
+
+export const DEFAULT_DEDUP_FLAG_THRESHOLD = 0.5;
+export const DEFAULT_DEDUP_MERGE_THRESHOLD = 0.9;
+
+/** Signal weights; a pair's score is their sum, capped at 1 */
+const WEIGHTS = {
+    company_name: 0.6,
+    similar_company_name: 0.3,
+    attendee_domain: 0.5,
+    founder_name: 0.4,
+} as const;
+
+export type DuplicateReason = keyof typeof WEIGHTS;
+
+export interface DedupConfig {
+    flagThreshold: number;
+    mergeThreshold: number;
+    /** Merge pairs scoring at or above mergeThreshold without review */
+    autoMerge: boolean;
+}
+
+export interface DuplicateCandidate {
+    deal: dealsRepo.Deal;
+    score: number;
+    reasons: DuplicateReason[];
+}
+
+export class DealMergeError extends Error {
+    constructor(message: string, public readonly status: 400 | 404 | 409) {
+        super(message);
+        this.name = 'DealMergeError';
+    }
+}
+
+function toThreshold(value: unknown, fallback: number): number {
+    const n = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof n === 'number' && Number.isFinite(n) && n > 0 && n <= 1 ? n : fallback;
+}
+
+/**
+ * Thresholds from integrations.config (kind 'gcal': dedupFlagThreshold, dedupMergeThreshold, dedupAutoMerge).
+ * Auto-merge is off unless enabled.
+ */
+export async function getDedupConfig(tenantId: string): Promise<DedupConfig> {
+    const integration = await integrationsRepo.getIntegration(tenantId, 'gcal');
+    return {
+        flagThreshold: toThreshold(integration?.config.dedupFlagThreshold, DEFAULT_DEDUP_FLAG_THRESHOLD),
+        mergeThreshold: toThreshold(integration?.config.dedupMergeThreshold, DEFAULT_DEDUP_MERGE_THRESHOLD),
+        autoMerge: integration?.config.dedupAutoMerge === true,
+    };
+}
+
+function wordOverlap(a: string, b: string): number {
+    const wa = new Set(a.split(' '));
+    const wb = new Set(b.split(' '));
+    const shared = [...wa].filter((w) => wb.has(w)).length;
+    return shared / new Set([...wa, ...wb]).size;
+}
+
+/**
+ * Score how likely two deals are the same startup, from normalized company names
+ * (exact, or at least half their words shared), shared external attendee domains and founder names.
+ */
+export function scoreDealPair(
+    a: { companyName: string | null; founderName: string | null; domains: string[] },
+    b: { companyName: string | null; founderName: string | null; domains: string[] }
+): { score: number; reasons: DuplicateReason[] } {
+    const reasons: DuplicateReason[] = [];
+
+    const companyA = normalizeCompanyName(a.companyName);
+    const companyB = normalizeCompanyName(b.companyName);
+    if (companyA && companyA !== 'unknown' && companyB) {
+        if (companyA === companyB) reasons.push('company_name');
+        else if (wordOverlap(companyA, companyB) >= 0.5) reasons.push('similar_company_name');
+    }
+
+    if (a.domains.some((d) => b.domains.includes(d))) reasons.push('attendee_domain');
+
+    const founderA = normalizePersonName(a.founderName);
+    if (founderA && founderA !== 'unknown founder' && founderA === normalizePersonName(b.founderName)) {
+        reasons.push('founder_name');
+    }
+
+    const score = Math.min(1, reasons.reduce((sum, r) => sum + WEIGHTS[r], 0));
+    return { score: Math.round(score * 1000) / 1000, reasons };
+}
+
+/**
+ * The tenant's other unmerged deals that score at least `minScore` against this one, best first.
+ */
+export async function findDuplicateCandidates(
+    deal: dealsRepo.Deal,
+    minScore: number
+): Promise<DuplicateCandidate[]> {
+    const domainsByDeal = await dealMeetingsRepo.listDomainsByDeal(deal.tenant_id);
+    const subject = {
+        companyName: deal.company_name,
+        founderName: deal.founder_name,
+        domains: domainsByDeal.get(deal.id) ?? [],
+    };
+
+    const candidates: DuplicateCandidate[] = [];
+    for (const other of await dealsRepo.listNamedDeals(deal.tenant_id)) {
+        if (other.id === deal.id) continue;
+        const { score, reasons } = scoreDealPair(subject, {
+            companyName: other.company_name,
+            founderName: other.founder_name,
+            domains: domainsByDeal.get(other.id) ?? [],
+        });
+        if (score >= minScore) candidates.push({ deal: other, score, reasons });
+    }
+    return candidates.sort((x, y) => y.score - x.score);
+}
+
+function asanaTaskUrl(taskGid: string): string {
+    return `https://app.asana.com/0/0/${taskGid}`;
+}
+
+/**
+ * Merge a duplicate deal into the deal that survives.
+ * Records move over (see dealsRepo.mergeDealRecords); if the primary has no Asana task or Notion
+ * workspace it adopts the duplicate's. When both have one, the duplicate's Asana task is completed
+ * with a comment linking the primary, and the primary's Notion page links the duplicate's pages.
+ * Asana and Notion failures are logged and skipped; the database merge has already happened.
+ */
+export async function mergeDeals(
+    primaryId: string,
+    duplicateId: string,
+    opts: { mergedBy: 'admin' | 'auto' }
+): Promise<dealsRepo.Deal> {
+    if (primaryId === duplicateId) throw new DealMergeError('Cannot merge a deal into itself', 400);
+
+    const [primary, duplicate] = await Promise.all([
+        dealsRepo.getDealById(primaryId),
+        dealsRepo.getDealById(duplicateId),
+    ]);
+    if (!primary || !duplicate) throw new DealMergeError('Deal not found', 404);
+    if (primary.tenant_id !== duplicate.tenant_id) {
+        throw new DealMergeError('Deals belong to different tenants', 400);
+    }
+    if (primary.merged_into_deal_id || duplicate.merged_into_deal_id) {
+        throw new DealMergeError('Deal has already been merged', 409);
+    }
+
+    const log = logger.child({ tenantId: primary.tenant_id, dealId: primary.id, duplicateId, mergedBy: opts.mergedBy });
+
+    // Checked again under lock: a concurrent merge may have merged either deal since they were read
+    if (!(await dealsRepo.mergeDealRecords(duplicate.id, primary.id))) {
+        throw new DealMergeError('Deal has already been merged', 409);
+    }
+    await dealDuplicatesRepo.resolvePair(duplicate.id, primary.id);
+    log.info('Deal records merged');
+
+    const primaryName = `${primary.company_name || 'Unknown Company'} — ${primary.founder_name || 'Unknown Founder'}`;
+    const duplicateName = `${duplicate.company_name || 'Unknown Company'} — ${duplicate.founder_name || 'Unknown Founder'}`;
+
+    if (primary.asana_task_gid && duplicate.asana_task_gid) {
+        try {
+            const asana = new AsanaClient({ token: await getSecret('ASANA_TOKEN') });
+            await asana.addComment(
+                duplicate.asana_task_gid,
+                `🔀 Merged into ${primaryName}: ${asanaTaskUrl(primary.asana_task_gid)}`
+            );
+            await asana.updateTask(duplicate.asana_task_gid, { completed: true });
+            await asana.addComment(
+                primary.asana_task_gid,
+                `🔀 Merged duplicate deal ${duplicateName}: ${asanaTaskUrl(duplicate.asana_task_gid)}`
+            );
+        } catch (err: any) {
+            log.warn('Failed to consolidate Asana tasks', { error: err.message });
+        }
+    }
+
+    if (primary.notion_deal_page_id && duplicate.notion_deal_page_id) {
+        try {
+            const notion = new NotionClient({
+                token: await getSecret('NOTION_TOKEN'),
+                parentPageId: process.env.NOTION_PARENT_PAGE_ID || '',
+            });
+            const links = Object.entries(duplicate.notion_urls || {})
+                .filter(([, url]) => url)
+                .map(([name, url]) => notion.bulletedList(`${name}: ${url}`));
+            await notion.appendBlocks(primary.notion_deal_page_id, [
+                notion.divider(),
+                notion.callout(`Merged duplicate deal: ${duplicateName}`, '🔀'),
+                ...links,
+            ]);
+            await notion.appendBlocks(duplicate.notion_deal_page_id, [
+                notion.divider(),
+                notion.callout(`This deal was merged into ${primaryName}: ${primary.notion_urls?.dealHome || ''}`, '🔀'),
+            ]);
+            await notion.updateDealStatus(duplicate.notion_deal_page_id, duplicate.current_stage, 'Merged');
+        } catch (err: any) {
+            log.warn('Failed to consolidate Notion pages', { error: err.message });
+        }
+    }
+
+    return (await dealsRepo.getDealById(primary.id))!;
+}
+
+/**
+ * Look for likely duplicates of a new deal. Each candidate at or above the flag threshold
+ * is recorded for review; the best one is merged automatically (the new deal into the older one)
+ * if auto-merge is enabled and it reaches the merge threshold. Call this before the deal's
+ * Asana task, Notion workspace and research jobs exist, so a merge leaves nothing behind on it.
+ * `mergedInto` is the surviving deal after an auto-merge.
+ */
+export async function checkForDuplicates(
+    dealId: string
+): Promise<{ flagged: DuplicateCandidate[]; mergedInto: dealsRepo.Deal | null }> {
+    const deal = await dealsRepo.getDealById(dealId);
+    if (!deal || deal.merged_into_deal_id) return { flagged: [], mergedInto: null };
+
+    const config = await getDedupConfig(deal.tenant_id);
+    const candidates = await findDuplicateCandidates(deal, config.flagThreshold);
+
+    for (const candidate of candidates) {
+        await dealDuplicatesRepo.flagDuplicate({
+            tenantId: deal.tenant_id,
+            dealId: deal.id,
+            duplicateOfDealId: candidate.deal.id,
+            score: candidate.score,
+            reasons: candidate.reasons,
+        });
+    }
+
+    const best = candidates[0];
+    if (best && config.autoMerge && best.score >= config.mergeThreshold) {
+        const survivor = await mergeDeals(best.deal.id, deal.id, { mergedBy: 'auto' });
+        return { flagged: candidates, mergedInto: survivor };
+    }
+    return { flagged: candidates, mergedInto: null };
+}
@@ -0,0 +1,91 @@
+import type { calendar_v3 } from 'googleapis';
+import * as dealsRepo from '../db/repos/deals.repo.js';
+import * as dealMeetingsRepo from '../db/repos/deal-meetings.repo.js';
+import * as integrationsRepo from '../db/repos/integrations.repo.js';
+import type { MeetingMatchReason } from '../db/repos/deal-meetings.repo.js';
+import { normalizeCompanyName } from './normalize.js';
+
+/** "[deal:<deal id>]" in an event title or description attaches it to that deal */
+const DEAL_ID_TAG = /\[deal:\s*([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\s*\]/i;
+
+/** Personal mail providers and schedulers: a shared domain here says nothing about the company */
+const GENERIC_DOMAINS = new Set([
+    'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'msn.com',
+    'yahoo.com', 'icloud.com', 'me.com', 'mac.com', 'aol.com', 'proton.me', 'protonmail.com',
+    'calendly.com', 'resource.calendar.google.com',
+]);
+
+export interface DealMatch {
+    deal: dealsRepo.Deal;
+    reason: Exclude<MeetingMatchReason, 'origin'>;
+}
+
+/** The deal ID from a "[deal:<id>]" tag, or null */
+export function extractDealTag(event: calendar_v3.Schema$Event): string | null {
+    const match = `${event.summary || ''}\n${event.description || ''}`.match(DEAL_ID_TAG);
+    return match ? match[1].toLowerCase() : null;
+}
+
+function emailDomain(email: string | null | undefined): string | null {
+    const at = (email || '').lastIndexOf('@');
+    return at === -1 ? null : email!.slice(at + 1).trim().toLowerCase() || null;
+}
+
+/**
+ * Email domains of the event's external attendees. The calendar owner's and organizer's domains,
+ * the gcal integration's `internalDomains`, and personal mail providers are left out.
+ */
+export async function getExternalAttendeeDomains(
+    tenantId: string,
+    event: calendar_v3.Schema$Event
+): Promise<string[]> {
+    const integration = await integrationsRepo.getIntegration(tenantId, 'gcal');
+    const internal = new Set<string>(
+        (Array.isArray(integration?.config.internalDomains) ? integration!.config.internalDomains : [])
+            .map((d: string) => String(d).toLowerCase())
+    );
+    for (const attendee of event.attendees || []) {
+        const domain = attendee.self || attendee.organizer ? emailDomain(attendee.email) : null;
+        if (domain) internal.add(domain);
+    }
+    const organizerDomain = emailDomain(event.organizer?.email);
+    if (organizerDomain) internal.add(organizerDomain);
+
+    const domains = new Set<string>();
+    for (const attendee of event.attendees || []) {
+        const domain = emailDomain(attendee.email);
+        if (domain && !internal.has(domain) && !GENERIC_DOMAINS.has(domain)) domains.add(domain);
+    }
+    return [...domains];
+}
+
+/**
+ * Find the existing deal a new calendar meeting belongs to, trying in order:
+ * an explicit [deal:<id>] tag, a shared external attendee domain, then the same normalized company name.
+ */
+export async function matchDealForMeeting(
+    tenantId: string,
+    input: { event: calendar_v3.Schema$Event; companyName: string | null; attendeeDomains: string[] }
+): Promise<DealMatch | null> {
+    const taggedId = extractDealTag(input.event);
+    if (taggedId) {
+        const deal = await dealsRepo.getDealById(taggedId);
+        if (deal && deal.tenant_id === tenantId) return { deal, reason: 'tag' };
+    }
+
+    const domainDealId = await dealMeetingsRepo.findDealIdByDomains(tenantId, input.attendeeDomains);
+    if (domainDealId) {
+        const deal = await dealsRepo.getDealById(domainDealId);
+        if (deal) return { deal, reason: 'domain' };
+    }
+
+    const companyKey = normalizeCompanyName(input.companyName);
+    if (companyKey && companyKey !== 'unknown') {
+        const deal = (await dealsRepo.listNamedDeals(tenantId)).find(
+            (d) => normalizeCompanyName(d.company_name) === companyKey
+        );
+        if (deal) return { deal, reason: 'company' };
+    }
+
+    return null;
+}
@@ -0,0 +1,40 @@
+import * as watchedCalendarsRepo from '../db/repos/watched-calendars.repo.js';
+import { GCalClient } from '../clients/gcal.client.js';
+import { getSecret } from './secrets.js';
+
+/**
+ * Seed the legacy single calendar (CALENDAR_ID, else 'primary') the first time a tenant's
+ * registry is used. Only once: if an admin deletes it afterwards it stays deleted.
+ */
+export async function ensureDefaultCalendar(tenantId: string): Promise<void> {
+    if (await watchedCalendarsRepo.isSeeded(tenantId)) return;
+
+    await watchedCalendarsRepo.seedCalendar(tenantId, process.env.CALENDAR_ID || 'primary');
+}
+
+/**
+ * A GCal client authenticated for one watched calendar:
+ * - oauth: the shared OAuth app with the calendar's own refresh token secret (default GCAL_REFRESH_TOKEN)
+ * - delegation: the GCAL_SERVICE_ACCOUNT_KEY service account impersonating the calendar's owner
+ * An unregistered calendar (null) uses the shared OAuth credentials.
+ */
+export async function getGCalClientForCalendar(
+    calendar: watchedCalendarsRepo.WatchedCalendar | null
+): Promise<GCalClient> {
+    if (calendar?.auth_mode === 'delegation') {
+        const subject = calendar.impersonate_email || calendar.owner_email;
+        if (!subject) {
+            throw new Error(`Calendar ${calendar.calendar_id} uses delegation but has no owner or impersonate email`);
+        }
+        return new GCalClient({
+            serviceAccountKey: await getSecret('GCAL_SERVICE_ACCOUNT_KEY'),
+            subject,
+        });
+    }
+
+    return new GCalClient({
+        clientId: await getSecret('GCAL_OAUTH_CLIENT_ID'),
+        clientSecret: await getSecret('GCAL_OAUTH_CLIENT_SECRET'),
+        refreshToken: await getSecret(calendar?.refresh_token_secret || 'GCAL_REFRESH_TOKEN'),
+    });
+}
@@ -0,0 +1,43 @@
+/**
+ * Error classification for worker jobs.
+ *
+ * retryable: the dispatcher returns 500 and Cloud Tasks retries (until the queue's max attempts)
+ * permanent: the job is dead-lettered immediately; retrying cannot succeed
+ */
+export type JobErrorKind = 'retryable' | 'permanent';
+
+/**
+ * Throw from a handler when the job can never succeed (bad payload, missing entity, rejected credentials).
+ */
+export class PermanentJobError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'PermanentJobError';
+    }
+}
+
+/**
+ * Throw from a handler to force a retry for an error that would otherwise be classified as permanent.
+ */
+export class RetryableJobError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'RetryableJobError';
+    }
+}
+
+/**
+ * Explicit handler classification wins. Otherwise HTTP 4xx responses from upstream APIs
+ * (Asana, Notion, Google, LLM providers) are permanent, except timeouts, conflicts and rate limits.
+ */
+export function classifyJobError(err: unknown): JobErrorKind {
+    if (err instanceof PermanentJobError) return 'permanent';
+    if (err instanceof RetryableJobError) return 'retryable';
+
+    const e = err as any;
+    const status = [e?.status, e?.code, e?.response?.status].find((v) => typeof v === 'number');
+    if (status !== undefined && status >= 400 && status < 500 && ![408, 409, 425, 429].includes(status)) {
+        return 'permanent';
+    }
+    return 'retryable';
+}
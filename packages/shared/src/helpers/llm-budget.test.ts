@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { integrationsRepo, llmUsageRepo, logger } = vi.hoisted(() => ({
+    integrationsRepo: { getIntegration: vi.fn() },
+    llmUsageRepo: { getTotalSpend: vi.fn(), getDealSpend: vi.fn() },
+    logger: { warn: vi.fn() },
+}));
+
+vi.mock('../db/repos/integrations.repo.js', () => integrationsRepo);
+vi.mock('../db/repos/llm-usage.repo.js', () => llmUsageRepo);
+vi.mock('./logger.js', () => ({ logger }));
+
+import { checkLLMBudget } from './llm-budget.js';
+
+const spend = (costUsd: number, unpricedCalls = 0) => ({ costUsd, unpricedCalls });
+
+describe('checkLLMBudget', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        integrationsRepo.getIntegration.mockResolvedValue({
+            config: { monthlyBudgetUsd: 100, perDealBudgetUsd: '5' },
+        });
+        llmUsageRepo.getTotalSpend.mockResolvedValue(spend(10));
+        llmUsageRepo.getDealSpend.mockResolvedValue(spend(1));
+    });
+
+    it('allows work under both caps', async () => {
+        expect(await checkLLMBudget('tenant-1', 'deal-1')).toEqual({ allowed: true });
+        expect(logger.warn).not.toHaveBeenCalled();
+    });
+
+    it('blocks a deal that reached its cap', async () => {
+        llmUsageRepo.getDealSpend.mockResolvedValue(spend(5));
+
+        expect(await checkLLMBudget('tenant-1', 'deal-1')).toMatchObject({
+            allowed: false,
+            scope: 'deal',
+            limitUsd: 5,
+            spentUsd: 5,
+        });
+    });
+
+    it('warns when a capped scope has calls on unpriced models', async () => {
+        llmUsageRepo.getTotalSpend.mockResolvedValue(spend(0, 12));
+        llmUsageRepo.getDealSpend.mockResolvedValue(spend(0, 3));
+
+        expect(await checkLLMBudget('tenant-1', 'deal-1')).toEqual({ allowed: true });
+        expect(logger.warn).toHaveBeenCalledTimes(2);
+        expect(logger.warn).toHaveBeenCalledWith(
+            expect.stringContaining('unpriced'),
+            expect.objectContaining({ scope: 'monthly', unpricedCalls: 12 })
+        );
+        expect(logger.warn).toHaveBeenCalledWith(
+            expect.stringContaining('unpriced'),
+            expect.objectContaining({ scope: 'deal', unpricedCalls: 3 })
+        );
+    });
+
+    it('does not read spend or warn without a cap', async () => {
+        integrationsRepo.getIntegration.mockResolvedValue(null);
+
+        expect(await checkLLMBudget('tenant-1', 'deal-1')).toEqual({ allowed: true });
+        expect(llmUsageRepo.getTotalSpend).not.toHaveBeenCalled();
+        expect(logger.warn).not.toHaveBeenCalled();
+    });
+});
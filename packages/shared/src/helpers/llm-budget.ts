@@ -0,0 +1,89 @@
+import * as integrationsRepo from '../db/repos/integrations.repo.js';
+import * as llmUsageRepo from '../db/repos/llm-usage.repo.js';
+import { logger } from './logger.js';
+
+/**
+ * Spend caps read from integrations.config for kind 'llm'.
+ * Either limit may be omitted (or null) to leave that scope uncapped.
+ */
+export interface LLMBudgetConfig {
+    monthlyBudgetUsd: number | null;
+    perDealBudgetUsd: number | null;
+}
+
+export type LLMBudgetCheck =
+    | { allowed: true }
+    | {
+        allowed: false;
+        scope: 'monthly' | 'deal';
+        limitUsd: number;
+        spentUsd: number;
+        message: string;
+    };
+
+function toLimit(value: unknown): number | null {
+    const n = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof n === 'number' && Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+export async function getLLMBudget(tenantId: string): Promise<LLMBudgetConfig> {
+    const integration = await integrationsRepo.getIntegration(tenantId, 'llm');
+    return {
+        monthlyBudgetUsd: toLimit(integration?.config.monthlyBudgetUsd),
+        perDealBudgetUsd: toLimit(integration?.config.perDealBudgetUsd),
+    };
+}
+
+/**
+ * Spend from calls on models missing from llm-pricing isn't counted against a cap,
+ * so flag it: a tenant on an unpriced model would otherwise never reach its budget.
+ */
+function warnUnpriced(scope: 'monthly' | 'deal', tenantId: string, dealId: string, unpricedCalls: number): void {
+    if (unpricedCalls === 0) return;
+    logger.warn('LLM budget excludes calls on unpriced models; add their pricing to enforce the cap', {
+        tenantId,
+        dealId,
+        scope,
+        unpricedCalls,
+    });
+}
+
+/**
+ * Check whether the tenant (calendar month, UTC) or the deal has reached its spend cap.
+ * Called before any LLM work is started; a call already in flight is never interrupted.
+ */
+export async function checkLLMBudget(tenantId: string, dealId: string): Promise<LLMBudgetCheck> {
+    const budget = await getLLMBudget(tenantId);
+
+    if (budget.monthlyBudgetUsd !== null) {
+        const now = new Date();
+        const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+        const { costUsd, unpricedCalls } = await llmUsageRepo.getTotalSpend(tenantId, { from: monthStart });
+        warnUnpriced('monthly', tenantId, dealId, unpricedCalls);
+        if (costUsd >= budget.monthlyBudgetUsd) {
+            return {
+                allowed: false,
+                scope: 'monthly',
+                limitUsd: budget.monthlyBudgetUsd,
+                spentUsd: costUsd,
+                message: `Monthly LLM budget reached ($${costUsd.toFixed(2)} of $${budget.monthlyBudgetUsd.toFixed(2)} spent this month).`,
+            };
+        }
+    }
+
+    if (budget.perDealBudgetUsd !== null) {
+        const { costUsd, unpricedCalls } = await llmUsageRepo.getDealSpend(dealId);
+        warnUnpriced('deal', tenantId, dealId, unpricedCalls);
+        if (costUsd >= budget.perDealBudgetUsd) {
+            return {
+                allowed: false,
+                scope: 'deal',
+                limitUsd: budget.perDealBudgetUsd,
+                spentUsd: costUsd,
+                message: `Per-deal LLM budget reached ($${costUsd.toFixed(2)} of $${budget.perDealBudgetUsd.toFixed(2)} spent on this deal).`,
+            };
+        }
+    }
+
+    return { allowed: true };
+}
@@ -0,0 +1,29 @@
+import * as llmUsageRepo from '../db/repos/llm-usage.repo.js';
+import { estimateCostUsd } from '../clients/llm-pricing.js';
+import type { LLMUsage } from '../clients/llm.client.js';
+import { logger } from './logger.js';
+
+/**
+ * Record one LLM call's usage and estimated cost.
+ * Failures are logged, never thrown: accounting must not fail the job that did the work.
+ */
+export async function recordLLMUsage(
+    context: {
+        tenantId: string;
+        runId?: string;
+        dealId?: string;
+        callType: 'research' | 'memo';
+        agentKey?: string;
+    },
+    usage: LLMUsage
+): Promise<void> {
+    try {
+        await llmUsageRepo.recordUsage({
+            ...context,
+            ...usage,
+            costUsd: estimateCostUsd(usage),
+        });
+    } catch (err: any) {
+        logger.warn('Failed to record LLM usage', { ...context, error: err.message });
+    }
+}
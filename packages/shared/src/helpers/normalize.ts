@@ -0,0 +1,46 @@
+/**
+ * Name normalization shared by research caching and deal matching.
+ * Output is lowercase ASCII-ish words separated by single spaces.
+ */
+
+const COMPANY_SUFFIXES = new Set([
+    'inc', 'incorporated', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company',
+    'gmbh', 'plc', 'sa', 'bv', 'ag', 'pbc', 'labs', 'hq',
+]);
+
+function words(value: string): string[] {
+    return value
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim()
+        .split(' ')
+        .filter(Boolean);
+}
+
+/**
+ * "Acme Labs, Inc." → "acme"; trailing legal/branding suffixes are dropped, leading words kept.
+ */
+export function normalizeCompanyName(name: string | null | undefined): string {
+    const parts = words(name || '');
+    while (parts.length > 1 && COMPANY_SUFFIXES.has(parts[parts.length - 1])) {
+        parts.pop();
+    }
+    return parts.join(' ');
+}
+
+/**
+ * "Dr. Jane  O'Neil" → "jane oneil"; multiple founders are sorted so order doesn't matter.
+ */
+export function normalizePersonName(name: string | null | undefined): string {
+    return (name || '')
+        .split(/\s*(?:,|&|\band\b|\/)\s*/i)
+        .map((person) => words(person.replace(/['’]/g, ''))
+            .filter((w) => !['dr', 'mr', 'mrs', 'ms', 'prof'].includes(w))
+            .join(' '))
+        .filter(Boolean)
+        .sort()
+        .join(', ');
+}
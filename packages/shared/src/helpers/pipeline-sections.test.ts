@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { suggestStageForSection } from './pipeline-sections.js';
+import { DEFAULT_PIPELINE_STAGES } from './pipeline-stages.js';
+import type { PipelineStage } from '../db/repos/pipeline-stages.repo.js';
+
+function stage(stageKey: string, title: string): PipelineStage {
+    return { stage_key: stageKey, title } as PipelineStage;
+}
+
+const builtIn = DEFAULT_PIPELINE_STAGES.map((s) => stage(s.stageKey, s.title));
+
+describe('suggestStageForSection', () => {
+    it('matches a stage key or title exactly, ignoring case and separators', () => {
+        expect(suggestStageForSection('in_diligence', builtIn)).toBe('IN_DILIGENCE');
+        expect(suggestStageForSection('  First   Meeting ', builtIn)).toBe('FIRST_MEETING');
+    });
+
+    it('matches common synonyms for the built-in stages', () => {
+        expect(suggestStageForSection('Investment Committee', builtIn)).toBe('IC_REVIEW');
+        expect(suggestStageForSection('DD in progress', builtIn)).toBe('IN_DILIGENCE');
+        expect(suggestStageForSection('Inbound', builtIn)).toBe('FIRST_MEETING');
+        expect(suggestStageForSection('Declined', builtIn)).toBe('PASS');
+        expect(suggestStageForSection('Dormant', builtIn)).toBe('ARCHIVE');
+    });
+
+    it('does not suggest the archive stage for a closed deal', () => {
+        expect(suggestStageForSection('Closed/Invested', builtIn)).not.toBe('ARCHIVE');
+        const stages = [...builtIn, stage('CLOSED_INVESTED', 'Closed Invested')];
+        expect(suggestStageForSection('Closed/Invested', stages)).toBe('CLOSED_INVESTED');
+    });
+
+    it('prefers an exact custom stage over a synonym', () => {
+        const stages = [...builtIn, stage('TERM_SHEET', 'Committee Prep')];
+        expect(suggestStageForSection('Committee prep', stages)).toBe('TERM_SHEET');
+    });
+
+    it('only suggests stages the tenant has', () => {
+        const stages = builtIn.filter((s) => s.stage_key !== 'PASS');
+        expect(suggestStageForSection('Passed', stages)).toBeNull();
+    });
+
+    it('returns null when nothing matches', () => {
+        expect(suggestStageForSection('Portfolio', builtIn)).toBeNull();
+    });
+});
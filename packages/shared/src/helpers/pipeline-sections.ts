@@ -0,0 +1,92 @@
+import * as pipelineSectionsRepo from '../db/repos/pipeline-sections.repo.js';
+import type { StageKey } from '../db/repos/pipeline-sections.repo.js';
+import type { PipelineStage } from '../db/repos/pipeline-stages.repo.js';
+import type { AsanaSection } from '../clients/asana.client.js';
+import { getPipelineStages } from './pipeline-stages.js';
+
+/** Name patterns for suggesting a built-in stage from an Asana section name, checked in order */
+const STAGE_NAME_PATTERNS: Array<{ stageKey: StageKey; pattern: RegExp }> = [
+    { stageKey: 'IC_REVIEW', pattern: /\bic\b|investment committee|committee/ },
+    { stageKey: 'IN_DILIGENCE', pattern: /diligence|\bdd\b|evaluat/ },
+    { stageKey: 'FIRST_MEETING', pattern: /first meeting|intro|new deal|inbound|sourc|screen/ },
+    { stageKey: 'PASS', pattern: /\bpass|declin|reject|no[\s-]?go|turned down/ },
+    { stageKey: 'ARCHIVE', pattern: /archiv|dormant/ },
+];
+
+export interface SectionMappingEntry {
+    sectionGid: string;
+    name: string;
+    stageKey: StageKey | null;
+    enabled: boolean;
+    suggestedStage: StageKey | null;
+}
+
+export interface SectionMappingReport {
+    projectGid: string;
+    sections: SectionMappingEntry[];
+    /** Sections in Asana with no mapping row */
+    unmapped: string[];
+    /** Mapping rows whose section no longer exists in Asana */
+    deleted: pipelineSectionsRepo.PipelineSection[];
+    /** Stages with no enabled section, so deals can't be moved there or detected entering them */
+    unmappedStages: StageKey[];
+}
+
+function normalizeLabel(label: string): string {
+    return label.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Suggest one of the tenant's stages for an Asana section from its name, or null if nothing matches.
+ * A section named like a stage's key or title wins; built-in stages also match common synonyms.
+ */
+export function suggestStageForSection(name: string, stages: PipelineStage[]): StageKey | null {
+    const normalized = normalizeLabel(name);
+
+    const exact = stages.find(
+        (s) => normalizeLabel(s.stage_key) === normalized || normalizeLabel(s.title) === normalized
+    );
+    if (exact) return exact.stage_key;
+
+    const known = new Set(stages.map((s) => s.stage_key));
+    return STAGE_NAME_PATTERNS.find(
+        ({ stageKey, pattern }) => known.has(stageKey) && pattern.test(normalized)
+    )?.stageKey ?? null;
+}
+
+/**
+ * Compare a project's live Asana sections against its stored mappings.
+ */
+export async function buildSectionMappingReport(
+    tenantId: string,
+    projectGid: string,
+    asanaSections: AsanaSection[]
+): Promise<SectionMappingReport> {
+    const stages = await getPipelineStages(tenantId);
+    const mappings = await pipelineSectionsRepo.getAllSections(tenantId, projectGid);
+    const bySection = new Map(mappings.map((m) => [m.section_gid, m]));
+    const liveGids = new Set(asanaSections.map((s) => s.gid));
+
+    const sections = asanaSections.map((s) => {
+        const mapping = bySection.get(s.gid);
+        return {
+            sectionGid: s.gid,
+            name: s.name,
+            stageKey: mapping?.stage_key ?? null,
+            enabled: mapping?.enabled ?? false,
+            suggestedStage: mapping ? null : suggestStageForSection(s.name, stages),
+        };
+    });
+
+    const mappedStages = new Set(
+        mappings.filter((m) => m.enabled && liveGids.has(m.section_gid)).map((m) => m.stage_key)
+    );
+
+    return {
+        projectGid,
+        sections,
+        unmapped: sections.filter((s) => s.stageKey === null).map((s) => s.sectionGid),
+        deleted: mappings.filter((m) => !liveGids.has(m.section_gid)),
+        unmappedStages: stages.map((s) => s.stage_key).filter((key) => !mappedStages.has(key)),
+    };
+}
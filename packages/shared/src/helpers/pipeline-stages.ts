@@ -0,0 +1,86 @@
+import * as pipelineStagesRepo from '../db/repos/pipeline-stages.repo.js';
+
+/** Automations a stage can run when a deal enters it; implemented by the worker's STAGE_ACTION handler */
+export const STAGE_BEHAVIOURS = ['first_meeting', 'diligence', 'ic_review', 'close_out'] as const;
+export type StageBehaviour = (typeof STAGE_BEHAVIOURS)[number];
+
+/**
+ * Built-in stages, seeded for every tenant. These reproduce the original fixed pipeline.
+ */
+export const DEFAULT_PIPELINE_STAGES: Omit<pipelineStagesRepo.UpsertStageInput, 'tenantId'>[] = [
+    {
+        stageKey: 'FIRST_MEETING',
+        title: 'First Meeting',
+        behaviours: ['first_meeting'],
+        notionStatus: 'Idle',
+        isEntry: true,
+        displayOrder: 10,
+    },
+    {
+        stageKey: 'IN_DILIGENCE',
+        title: 'In Diligence',
+        behaviours: ['diligence'],
+        notionStatus: 'Active',
+        cancelOnExit: true,
+        displayOrder: 20,
+    },
+    {
+        stageKey: 'IC_REVIEW',
+        title: 'IC Review',
+        behaviours: ['ic_review'],
+        notionStatus: 'Reviewing',
+        displayOrder: 30,
+    },
+    {
+        stageKey: 'PASS',
+        title: 'Pass',
+        behaviours: ['close_out'],
+        notionStatus: 'Passed',
+        cancelOnEnter: true,
+        displayOrder: 40,
+    },
+    {
+        stageKey: 'ARCHIVE',
+        title: 'Archive',
+        behaviours: ['close_out'],
+        notionStatus: 'Archived',
+        cancelOnEnter: true,
+        displayOrder: 50,
+    },
+];
+
+/**
+ * Seed the built-in stages for a tenant that has no stage rows yet.
+ */
+export async function ensureDefaultStages(tenantId: string): Promise<void> {
+    if ((await pipelineStagesRepo.countStages(tenantId)) > 0) return;
+    await pipelineStagesRepo.seedStages(tenantId, DEFAULT_PIPELINE_STAGES);
+}
+
+/**
+ * Enabled pipeline stages for a tenant, in display order.
+ */
+export async function getPipelineStages(tenantId: string): Promise<pipelineStagesRepo.PipelineStage[]> {
+    await ensureDefaultStages(tenantId);
+    return pipelineStagesRepo.listStages(tenantId, { enabledOnly: true });
+}
+
+/**
+ * A single enabled stage, or null if the key is unknown or disabled.
+ */
+export async function getPipelineStage(
+    tenantId: string,
+    stageKey: string
+): Promise<pipelineStagesRepo.PipelineStage | null> {
+    await ensureDefaultStages(tenantId);
+    const row = await pipelineStagesRepo.getStage(tenantId, stageKey);
+    return row && row.enabled ? row : null;
+}
+
+/**
+ * The stage new deals start in: the one flagged as entry, else the first in display order.
+ */
+export async function getEntryStage(tenantId: string): Promise<pipelineStagesRepo.PipelineStage | null> {
+    const stages = await getPipelineStages(tenantId);
+    return stages.find((s) => s.is_entry) ?? stages[0] ?? null;
+}
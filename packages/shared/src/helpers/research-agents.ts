@@ -0,0 +1,56 @@
+import * as researchAgentsRepo from '../db/repos/research-agents.repo.js';
+import { DEFAULT_RESEARCH_AGENTS, type ResearchAgentDefinition } from '../clients/llm.client.js';
+
+/**
+ * Seed the built-in agents the first time a tenant's registry is used. Only once: agents
+ * an admin deletes afterwards stay deleted.
+ */
+export async function ensureDefaultAgents(tenantId: string): Promise<void> {
+    if (await researchAgentsRepo.isSeeded(tenantId)) return;
+
+    await researchAgentsRepo.seedAgents(
+        tenantId,
+        DEFAULT_RESEARCH_AGENTS.map((a) => ({
+            agentKey: a.key,
+            title: a.title,
+            prompt: a.prompt,
+            tools: a.tools,
+            model: a.model ?? null,
+            displayOrder: a.displayOrder,
+            cacheScope: a.cacheScope,
+        }))
+    );
+}
+
+export function toAgentDefinition(row: researchAgentsRepo.ResearchAgent): ResearchAgentDefinition {
+    return {
+        key: row.agent_key,
+        title: row.title,
+        prompt: row.prompt,
+        tools: row.tools,
+        model: row.model,
+        displayOrder: row.display_order,
+        cacheScope: row.cache_scope,
+    };
+}
+
+/**
+ * Enabled research agents for a tenant, in display order.
+ */
+export async function getResearchAgents(tenantId: string): Promise<ResearchAgentDefinition[]> {
+    await ensureDefaultAgents(tenantId);
+    const rows = await researchAgentsRepo.listAgents(tenantId, { enabledOnly: true });
+    return rows.map(toAgentDefinition);
+}
+
+/**
+ * A single enabled research agent, or null if the key is unknown or disabled.
+ */
+export async function getResearchAgent(
+    tenantId: string,
+    agentKey: string
+): Promise<ResearchAgentDefinition | null> {
+    await ensureDefaultAgents(tenantId);
+    const row = await researchAgentsRepo.getAgent(tenantId, agentKey);
+    return row && row.enabled ? toAgentDefinition(row) : null;
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { cache } = vi.hoisted(() => ({ cache: new Map<string, any>() }));
+
+vi.mock('../db/repos/research-cache.repo.js', () => ({
+    getEntry: vi.fn(async (_tenantId: string, cacheKey: string) => cache.get(cacheKey) ?? null),
+    putEntry: vi.fn(async (input: any) => {
+        cache.set(input.cacheKey, { ...input, created_at: new Date() });
+    }),
+}));
+vi.mock('../db/repos/integrations.repo.js', () => ({
+    getIntegration: vi.fn(async () => null),
+}));
+
+import { researchCacheKey, runResearchCached } from './research-cache.js';
+import type { LLMClient, ResearchAgentDefinition } from '../clients/llm.client.js';
+
+const companyAgent: ResearchAgentDefinition = {
+    key: 'market_tam',
+    title: 'Market',
+    prompt: 'Size the market',
+    tools: [],
+    displayOrder: 10,
+};
+const founderAgent: ResearchAgentDefinition = {
+    key: 'founder_background',
+    title: 'Founder',
+    prompt: 'Research the founder',
+    tools: [],
+    displayOrder: 30,
+    cacheScope: 'founder',
+};
+
+function fakeLLM() {
+    return {
+        promptVersion: (agent: ResearchAgentDefinition) => `v1:${agent.key}`,
+        runResearch: vi.fn(async (_agent: ResearchAgentDefinition, company: string, founder: string) => ({
+            summary: `${founder} at ${company}`,
+            claims: [],
+            risks: [],
+            openQuestions: [],
+            citations: [],
+            confidenceScore: 0.5,
+            usage: { provider: 'fake', model: 'fake-model', inputTokens: 1, outputTokens: 1 },
+        })),
+    } as unknown as LLMClient & { runResearch: ReturnType<typeof vi.fn> };
+}
+
+describe('researchCacheKey', () => {
+    const base = { agentKey: 'founder_background', subjectKey: 'jane doe', promptVersion: 'v1' };
+
+    it('is stable for the same parts', () => {
+        expect(researchCacheKey({ ...base, scope: 'founder' })).toBe(researchCacheKey({ ...base, scope: 'founder' }));
+    });
+
+    it('changes with the scope, subject and prompt version', () => {
+        const key = researchCacheKey({ ...base, scope: 'founder' });
+        expect(researchCacheKey({ ...base, scope: 'company' })).not.toBe(key);
+        expect(researchCacheKey({ ...base, scope: 'founder', subjectKey: 'john roe' })).not.toBe(key);
+        expect(researchCacheKey({ ...base, scope: 'founder', promptVersion: 'v2' })).not.toBe(key);
+    });
+});
+
+describe('runResearchCached', () => {
+    beforeEach(() => {
+        cache.clear();
+    });
+
+    it('reuses founder research for a second company with the same founder', async () => {
+        const llm = fakeLLM();
+        const first = await runResearchCached(llm, founderAgent, {
+            tenantId: 't1',
+            companyName: 'Acme Robotics',
+            founderName: 'Dr. Jane Doe',
+        });
+        const second = await runResearchCached(llm, founderAgent, {
+            tenantId: 't1',
+            companyName: 'Beta Labs Inc.',
+            founderName: 'jane doe',
+        });
+
+        expect(first.fromCache).toBe(false);
+        expect(second.fromCache).toBe(true);
+        expect(second.result.summary).toBe(first.result.summary);
+        expect(llm.runResearch).toHaveBeenCalledTimes(1);
+    });
+
+    it('keys company research on the company alone', async () => {
+        const llm = fakeLLM();
+        await runResearchCached(llm, companyAgent, { tenantId: 't1', companyName: 'Acme, Inc.', founderName: 'Jane Doe' });
+        const sameCompany = await runResearchCached(llm, companyAgent, {
+            tenantId: 't1',
+            companyName: 'Acme',
+            founderName: 'John Roe',
+        });
+        const otherCompany = await runResearchCached(llm, companyAgent, {
+            tenantId: 't1',
+            companyName: 'Beta',
+            founderName: 'Jane Doe',
+        });
+
+        expect(sameCompany.fromCache).toBe(true);
+        expect(otherCompany.fromCache).toBe(false);
+        expect(llm.runResearch).toHaveBeenCalledTimes(2);
+    });
+
+    it('never caches an unknown subject', async () => {
+        const llm = fakeLLM();
+        await runResearchCached(llm, founderAgent, { tenantId: 't1', companyName: 'Acme', founderName: 'Unknown Founder' });
+        await runResearchCached(llm, companyAgent, { tenantId: 't1', companyName: 'Unknown', founderName: 'Jane Doe' });
+
+        expect(cache.size).toBe(0);
+    });
+
+    it('refresh mode re-runs and diffs against the cached result', async () => {
+        const llm = fakeLLM();
+        const input = { tenantId: 't1', companyName: 'Acme', founderName: 'Jane Doe' };
+        await runResearchCached(llm, companyAgent, input);
+        const refreshed = await runResearchCached(llm, companyAgent, { ...input, mode: 'refresh' });
+
+        expect(refreshed.fromCache).toBe(false);
+        expect(refreshed.diff).not.toBeNull();
+        expect(llm.runResearch).toHaveBeenCalledTimes(2);
+    });
+});
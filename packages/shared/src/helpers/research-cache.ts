@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import * as integrationsRepo from '../db/repos/integrations.repo.js';
+import * as researchCacheRepo from '../db/repos/research-cache.repo.js';
+import type { LLMClient, LLMUsage, ResearchAgentDefinition, ResearchCacheScope } from '../clients/llm.client.js';
+import { diffResearch, type ResearchDiff } from '../clients/research-output.js';
+import { normalizeCompanyName, normalizePersonName } from './normalize.js';
+import { logger } from './logger.js';
+
+/**
+ * reuse:   return a cached result younger than the TTL, otherwise run and cache
+ * refresh: always run, diff against the cached result (any age), then replace it
+ */
+export type ResearchCacheMode = 'reuse' | 'refresh';
+
+export const DEFAULT_RESEARCH_CACHE_TTL_HOURS = 24 * 7;
+
+export interface ResearchOutcome {
+    result: researchCacheRepo.CachedResearch;
+    /** null when the result came from the cache (no LLM call was made) */
+    usage: LLMUsage | null;
+    model: string | null;
+    fromCache: boolean;
+    /** When the reused result was produced */
+    cachedAt: Date | null;
+    /** refresh mode only, when a previous cached result existed */
+    diff: ResearchDiff | null;
+}
+
+/**
+ * TTL from integrations.config (kind 'llm', researchCacheTtlHours). 0 disables reuse.
+ */
+export async function getResearchCacheTtlHours(tenantId: string): Promise<number> {
+    const integration = await integrationsRepo.getIntegration(tenantId, 'llm');
+    const value = Number(integration?.config.researchCacheTtlHours);
+    return Number.isFinite(value) && value >= 0 ? value : DEFAULT_RESEARCH_CACHE_TTL_HOURS;
+}
+
+/**
+ * Cache key for one agent's research on one subject: the normalized company name for
+ * company-scoped agents, the normalized founder name for founder-scoped ones.
+ */
+export function researchCacheKey(parts: {
+    agentKey: string;
+    scope: ResearchCacheScope;
+    subjectKey: string;
+    promptVersion: string;
+}): string {
+    return crypto
+        .createHash('sha256')
+        .update([parts.agentKey, parts.scope, parts.subjectKey, parts.promptVersion].join('\n'))
+        .digest('hex');
+}
+
+/**
+ * Run one research agent through the tenant's research cache.
+ * Founder-scoped agents are keyed on the founder alone, so two deals sharing a founder share the result;
+ * other agents are keyed on the company. Meeting-notes context is not part of the key: a cached result
+ * is reused even if the notes changed. Without a usable company (or founder) name nothing is cached.
+ */
+export async function runResearchCached(
+    llm: LLMClient,
+    agent: ResearchAgentDefinition,
+    input: {
+        tenantId: string;
+        companyName: string;
+        founderName: string;
+        additionalContext?: string;
+        mode?: ResearchCacheMode;
+        signal?: AbortSignal;
+    }
+): Promise<ResearchOutcome> {
+    const mode = input.mode ?? 'reuse';
+    const companyKey = normalizeCompanyName(input.companyName);
+    const founderKey = normalizePersonName(input.founderName);
+    const scope = agent.cacheScope ?? 'company';
+    const subjectKey = scope === 'founder' ? founderKey : companyKey;
+    const cacheable = subjectKey !== '' && subjectKey !== (scope === 'founder' ? 'unknown founder' : 'unknown');
+
+    const promptVersion = llm.promptVersion(agent);
+    const cacheKey = researchCacheKey({ agentKey: agent.key, scope, subjectKey, promptVersion });
+    const cached = cacheable ? await researchCacheRepo.getEntry(input.tenantId, cacheKey) : null;
+
+    if (cached && mode === 'reuse') {
+        const ttlHours = await getResearchCacheTtlHours(input.tenantId);
+        const ageHours = (Date.now() - new Date(cached.created_at).getTime()) / 3_600_000;
+        if (ageHours < ttlHours) {
+            return { result: cached.result, usage: null, model: cached.model, fromCache: true, cachedAt: cached.created_at, diff: null };
+        }
+    }
+
+    const { usage, ...result } = await llm.runResearch(
+        agent,
+        input.companyName,
+        input.founderName,
+        input.additionalContext || '',
+        input.signal
+    );
+
+    if (cacheable) {
+        try {
+            await researchCacheRepo.putEntry({
+                tenantId: input.tenantId,
+                cacheKey,
+                agentKey: agent.key,
+                companyKey,
+                founderKey,
+                promptVersion,
+                result,
+                model: usage.model,
+            });
+        } catch (err: any) {
+            logger.warn('Failed to write research cache', { agentKey: agent.key, error: err.message });
+        }
+    }
+
+    const diff = mode === 'refresh' && cached
+        ? diffResearch(
+            { ...cached.result, confidence: cached.result.confidenceScore },
+            { ...result, confidence: result.confidenceScore }
+        )
+        : null;
+
+    return { result, usage, model: usage.model, fromCache: false, cachedAt: null, diff };
+}
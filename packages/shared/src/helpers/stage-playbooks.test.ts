@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+    validatePlaybook,
+    parsePlaybook,
+    PlaybookValidationError,
+    MAX_PLAYBOOK_JOB_DELAY_HOURS,
+} from './stage-playbooks.js';
+
+describe('validatePlaybook', () => {
+    it('normalises missing lists to empty', () => {
+        expect(validatePlaybook({ statusLabel: 'Diligence' })).toEqual({
+            playbook: { statusLabel: 'Diligence', subtasks: [], notionCallouts: [], jobs: [] },
+            errors: [],
+        });
+    });
+
+    it('keeps valid subtasks, callouts and jobs', () => {
+        const { playbook, errors } = validatePlaybook({
+            reopenCompletedSubtasks: true,
+            subtasks: [{ name: ' Reference calls ', dueInDays: 7, assignee: 'partner@example.com' }],
+            notionCallouts: [{ text: 'Check the cap table', emoji: '📊' }],
+            jobs: [{ type: 'RESEARCH_BATCH' }, { type: 'FOLLOW_UP_REMINDER', delayHours: 72 }],
+        });
+
+        expect(errors).toEqual([]);
+        expect(playbook).toEqual({
+            reopenCompletedSubtasks: true,
+            subtasks: [{ name: 'Reference calls', dueInDays: 7, assignee: 'partner@example.com' }],
+            notionCallouts: [{ text: 'Check the cap table', emoji: '📊' }],
+            jobs: [{ type: 'RESEARCH_BATCH' }, { type: 'FOLLOW_UP_REMINDER', delayHours: 72 }],
+        });
+    });
+
+    it('reports every problem at once', () => {
+        const { playbook, errors } = validatePlaybook({
+            colour: 'red',
+            subtasks: [{ name: '' }, { name: 'Call', dueInDays: 1.5 }],
+            jobs: [{ type: 'SEND_EMAIL' }, { type: 'FOLLOW_UP_REMINDER' }],
+        });
+
+        expect(playbook).toBeNull();
+        expect(errors).toEqual(
+            expect.arrayContaining([
+                expect.stringContaining('colour'),
+                'subtasks[0].name is required',
+                'subtasks[1].dueInDays must be an integer',
+                expect.stringContaining('jobs[0].type must be one of'),
+                'jobs[1].delayHours is required for FOLLOW_UP_REMINDER',
+            ])
+        );
+    });
+
+    it('rejects duplicate subtask names regardless of case', () => {
+        const { errors } = validatePlaybook({ subtasks: [{ name: 'Call' }, { name: 'call' }] });
+        expect(errors).toContain('subtasks: duplicate name "call"');
+    });
+
+    it('caps job delays at what Cloud Tasks can schedule', () => {
+        expect(MAX_PLAYBOOK_JOB_DELAY_HOURS).toBe(720);
+        expect(validatePlaybook({ jobs: [{ type: 'MEMO_GENERATE', delayHours: 720 }] }).errors).toEqual([]);
+
+        const { errors } = validatePlaybook({ jobs: [{ type: 'MEMO_GENERATE', delayHours: 721 }] });
+        expect(errors).toEqual([
+            'jobs[0].delayHours must be between 0 and 720 (jobs can be scheduled at most 30 days ahead)',
+        ]);
+    });
+});
+
+describe('parsePlaybook', () => {
+    it('parses YAML', () => {
+        const playbook = parsePlaybook('subtasks:\n  - name: Term sheet\n', 'yaml');
+        expect(playbook.subtasks).toEqual([{ name: 'Term sheet' }]);
+    });
+
+    it('throws PlaybookValidationError for unparseable input', () => {
+        expect(() => parsePlaybook('{not json', 'json')).toThrow(PlaybookValidationError);
+    });
+});
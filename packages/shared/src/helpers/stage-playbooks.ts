@@ -0,0 +1,267 @@
+import { parse as parseYaml } from 'yaml';
+import * as stagePlaybooksRepo from '../db/repos/stage-playbooks.repo.js';
+
+/** Jobs a playbook may enqueue when a deal enters its stage */
+export const PLAYBOOK_JOB_TYPES = ['RESEARCH_BATCH', 'MEMO_GENERATE', 'FOLLOW_UP_REMINDER'] as const;
+export type PlaybookJobType = (typeof PLAYBOOK_JOB_TYPES)[number];
+
+export interface PlaybookSubtask {
+    name: string;
+    notes?: string;
+    /** Asana user GID or email */
+    assignee?: string;
+    /** Due date as days after the deal enters the stage */
+    dueInDays?: number;
+}
+
+export interface PlaybookCallout {
+    text: string;
+    emoji?: string;
+}
+
+export interface PlaybookJob {
+    type: PlaybookJobType;
+    /** Run this long after the deal enters the stage (required for FOLLOW_UP_REMINDER) */
+    delayHours?: number;
+}
+
+/** Cloud Tasks rejects a scheduleTime more than 30 days ahead */
+export const MAX_PLAYBOOK_JOB_DELAY_HOURS = 24 * 30;
+
+export interface StagePlaybook {
+    /** Notion status label; overrides the stage's notion_status */
+    statusLabel?: string;
+    /** When a deal re-enters the stage, mark this playbook's completed subtasks incomplete again */
+    reopenCompletedSubtasks?: boolean;
+    subtasks: PlaybookSubtask[];
+    notionCallouts: PlaybookCallout[];
+    jobs: PlaybookJob[];
+}
+
+export type PlaybookFormat = 'json' | 'yaml';
+
+export class PlaybookValidationError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`Invalid playbook: ${errors.join('; ')}`);
+        this.name = 'PlaybookValidationError';
+    }
+}
+
+/**
+ * Built-in playbooks, used for stages the tenant hasn't customised.
+ * These carry the subtasks the original fixed pipeline created.
+ */
+export const DEFAULT_STAGE_PLAYBOOKS: Record<string, StagePlaybook> = {
+    FIRST_MEETING: {
+        subtasks: [
+            { name: 'Review company website & product' },
+            { name: 'Research founder background' },
+            { name: 'Prepare meeting agenda & questions' },
+            { name: 'Check for existing portfolio conflicts' },
+        ],
+        notionCallouts: [],
+        jobs: [],
+    },
+    IN_DILIGENCE: {
+        subtasks: [
+            { name: 'Deep-dive product demo / trial' },
+            { name: 'Customer reference calls (2-3)' },
+            { name: 'Financial model review' },
+            { name: 'Legal / IP review' },
+            { name: 'Technical architecture review' },
+        ],
+        notionCallouts: [],
+        jobs: [],
+    },
+    IC_REVIEW: {
+        subtasks: [
+            { name: 'IC Memo draft completed' },
+            { name: 'All research sections reviewed' },
+            { name: 'Financial model finalized' },
+            { name: 'Term sheet draft (if proceed)' },
+            { name: 'IC presentation prepared' },
+        ],
+        notionCallouts: [],
+        jobs: [],
+    },
+    PASS: {
+        subtasks: [],
+        notionCallouts: [{ text: 'This deal has been PASSED.', emoji: '🛑' }],
+        jobs: [],
+    },
+    ARCHIVE: {
+        subtasks: [],
+        notionCallouts: [{ text: 'This deal has been ARCHIVED.', emoji: '🗄️' }],
+        jobs: [],
+    },
+};
+
+const EMPTY_PLAYBOOK: StagePlaybook = { subtasks: [], notionCallouts: [], jobs: [] };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkKeys(obj: Record<string, unknown>, allowed: string[], path: string, errors: string[]): void {
+    for (const key of Object.keys(obj)) {
+        if (!allowed.includes(key)) errors.push(`${path}: unknown field "${key}"`);
+    }
+}
+
+function optionalString(obj: Record<string, unknown>, key: string, path: string, errors: string[]): string | undefined {
+    const value = obj[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'string') {
+        errors.push(`${path}.${key} must be a string`);
+        return undefined;
+    }
+    return value;
+}
+
+function optionalNumber(
+    obj: Record<string, unknown>,
+    key: string,
+    path: string,
+    errors: string[],
+    opts: { min: number; max: number; integer?: boolean; reason?: string }
+): number | undefined {
+    const value = obj[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value) || (opts.integer && !Number.isInteger(value))) {
+        errors.push(`${path}.${key} must be ${opts.integer ? 'an integer' : 'a number'}`);
+        return undefined;
+    }
+    if (value < opts.min || value > opts.max) {
+        errors.push(`${path}.${key} must be between ${opts.min} and ${opts.max}${opts.reason ? ` (${opts.reason})` : ''}`);
+        return undefined;
+    }
+    return value;
+}
+
+function listOf<T>(
+    obj: Record<string, unknown>,
+    key: string,
+    errors: string[],
+    parseItem: (item: Record<string, unknown>, path: string) => T | null
+): T[] {
+    const value = obj[key];
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+        errors.push(`${key} must be a list`);
+        return [];
+    }
+
+    const items: T[] = [];
+    value.forEach((item, i) => {
+        const path = `${key}[${i}]`;
+        if (!isObject(item)) {
+            errors.push(`${path} must be an object`);
+            return;
+        }
+        const parsed = parseItem(item, path);
+        if (parsed) items.push(parsed);
+    });
+    return items;
+}
+
+/**
+ * Check a playbook object and normalise it (missing lists become empty).
+ * Returns every problem found rather than stopping at the first.
+ */
+export function validatePlaybook(input: unknown): { playbook: StagePlaybook | null; errors: string[] } {
+    const errors: string[] = [];
+    if (!isObject(input)) {
+        return { playbook: null, errors: ['playbook must be an object'] };
+    }
+    checkKeys(input, ['statusLabel', 'reopenCompletedSubtasks', 'subtasks', 'notionCallouts', 'jobs'], 'playbook', errors);
+
+    const statusLabel = optionalString(input, 'statusLabel', 'playbook', errors);
+    const reopen = input.reopenCompletedSubtasks;
+    if (reopen !== undefined && reopen !== null && typeof reopen !== 'boolean') {
+        errors.push('playbook.reopenCompletedSubtasks must be a boolean');
+    }
+
+    const subtasks = listOf(input, 'subtasks', errors, (item, path) => {
+        checkKeys(item, ['name', 'notes', 'assignee', 'dueInDays'], path, errors);
+        const name = typeof item.name === 'string' ? item.name.trim() : '';
+        if (!name) {
+            errors.push(`${path}.name is required`);
+            return null;
+        }
+        const subtask: PlaybookSubtask = { name };
+        const notes = optionalString(item, 'notes', path, errors);
+        const assignee = optionalString(item, 'assignee', path, errors);
+        const dueInDays = optionalNumber(item, 'dueInDays', path, errors, { min: 0, max: 365, integer: true });
+        if (notes) subtask.notes = notes;
+        if (assignee) subtask.assignee = assignee;
+        if (dueInDays !== undefined) subtask.dueInDays = dueInDays;
+        return subtask;
+    });
+
+    const names = subtasks.map((s) => s.name.toLowerCase());
+    const duplicate = names.find((n, i) => names.indexOf(n) !== i);
+    if (duplicate) errors.push(`subtasks: duplicate name "${duplicate}"`);
+
+    const notionCallouts = listOf(input, 'notionCallouts', errors, (item, path) => {
+        checkKeys(item, ['text', 'emoji'], path, errors);
+        const text = typeof item.text === 'string' ? item.text.trim() : '';
+        if (!text) {
+            errors.push(`${path}.text is required`);
+            return null;
+        }
+        const emoji = optionalString(item, 'emoji', path, errors);
+        return emoji ? { text, emoji } : { text };
+    });
+
+    const jobs = listOf(input, 'jobs', errors, (item, path) => {
+        checkKeys(item, ['type', 'delayHours'], path, errors);
+        if (!PLAYBOOK_JOB_TYPES.includes(item.type as PlaybookJobType)) {
+            errors.push(`${path}.type must be one of ${PLAYBOOK_JOB_TYPES.join(', ')}`);
+            return null;
+        }
+        const delayHours = optionalNumber(item, 'delayHours', path, errors, {
+            min: 0,
+            max: MAX_PLAYBOOK_JOB_DELAY_HOURS,
+            reason: 'jobs can be scheduled at most 30 days ahead',
+        });
+        if (item.type === 'FOLLOW_UP_REMINDER' && !delayHours) {
+            errors.push(`${path}.delayHours is required for FOLLOW_UP_REMINDER`);
+            return null;
+        }
+        const job: PlaybookJob = { type: item.type as PlaybookJobType };
+        if (delayHours !== undefined) job.delayHours = delayHours;
+        return job;
+    });
+
+    if (errors.length > 0) return { playbook: null, errors };
+
+    const playbook: StagePlaybook = { subtasks, notionCallouts, jobs };
+    if (statusLabel) playbook.statusLabel = statusLabel;
+    if (reopen === true) playbook.reopenCompletedSubtasks = true;
+    return { playbook, errors: [] };
+}
+
+/**
+ * Parse playbook source text (JSON or YAML) and validate it.
+ * Throws PlaybookValidationError listing every problem.
+ */
+export function parsePlaybook(source: string, format: PlaybookFormat): StagePlaybook {
+    let raw: unknown;
+    try {
+        raw = format === 'yaml' ? parseYaml(source) : JSON.parse(source);
+    } catch (err: any) {
+        throw new PlaybookValidationError([`could not parse ${format.toUpperCase()}: ${err.message}`]);
+    }
+
+    const { playbook, errors } = validatePlaybook(raw);
+    if (!playbook) throw new PlaybookValidationError(errors);
+    return playbook;
+}
+
+/**
+ * The playbook in effect for a stage: the tenant's own, else the built-in one for the key, else empty.
+ */
+export async function getStagePlaybook(tenantId: string, stageKey: string): Promise<StagePlaybook> {
+    const row = await stagePlaybooksRepo.getPlaybook(tenantId, stageKey);
+    return row?.definition ?? DEFAULT_STAGE_PLAYBOOKS[stageKey] ?? EMPTY_PLAYBOOK;
+}
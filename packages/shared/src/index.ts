@@ -10,24 +10,154 @@ export * as gcalWatchesRepo from './db/repos/gcal-watches.repo.js';
 export * as asanaTaskStateRepo from './db/repos/asana-task-state.repo.js';
 export * as pipelineSectionsRepo from './db/repos/pipeline-sections.repo.js';
 export type { StageKey } from './db/repos/pipeline-sections.repo.js';
+export * as pipelineStagesRepo from './db/repos/pipeline-stages.repo.js';
+export * as stagePlaybooksRepo from './db/repos/stage-playbooks.repo.js';
+export * as playbookSubtasksRepo from './db/repos/playbook-subtasks.repo.js';
 export * as workflowRunsRepo from './db/repos/workflow-runs.repo.js';
 export * as idempotencyRepo from './db/repos/idempotency.repo.js';
 export * as integrationsRepo from './db/repos/integrations.repo.js';
+export * as researchResultsRepo from './db/repos/research-results.repo.js';
+export * as memosRepo from './db/repos/memos.repo.js';
+export * as researchAgentsRepo from './db/repos/research-agents.repo.js';
+export * as llmUsageRepo from './db/repos/llm-usage.repo.js';
+export * as researchCacheRepo from './db/repos/research-cache.repo.js';
+export * as jobsRepo from './db/repos/jobs.repo.js';
+export * as jobQueueRepo from './db/repos/job-queue.repo.js';
+export * as asanaPipelinesRepo from './db/repos/asana-pipelines.repo.js';
+export * as asanaWebhookSecretsRepo from './db/repos/asana-webhook-secrets.repo.js';
+export * as dealMeetingsRepo from './db/repos/deal-meetings.repo.js';
+export * as dealDuplicatesRepo from './db/repos/deal-duplicates.repo.js';
+export * as watchedCalendarsRepo from './db/repos/watched-calendars.repo.js';
 
 // Clients
 export { GCalClient, parseCalendlyEvent, isCalendlyEvent, isDealEvent } from './clients/gcal.client.js';
-export { AsanaClient } from './clients/asana.client.js';
+export { AsanaClient, AsanaApiError } from './clients/asana.client.js';
 export { NotionClient } from './clients/notion.client.js';
 export {
     CloudTasksEnqueuer,
     LocalTasksEnqueuer,
+    PostgresTasksEnqueuer,
     createTasksEnqueuer,
+    getMaxAttempts,
+    retryBackoffSeconds,
+    postgresTaskName,
+    QUEUE_MAP,
+    QUEUE_POLICIES,
+    type QueuePolicy,
     type JobType,
     type TaskPayload,
 } from './clients/tasks.client.js';
-export { LLMClient } from './clients/llm.client.js';
+export {
+    LLMClient,
+    createLLMClient,
+    DEFAULT_RESEARCH_AGENTS,
+    type ResearchAgentDefinition,
+    type ResearchCacheScope,
+    type ResearchResult,
+    type LLMUsage,
+} from './clients/llm.client.js';
+export { estimateCostUsd, getModelPricing } from './clients/llm-pricing.js';
+export {
+    parseStructuredResearch,
+    ResearchOutputError,
+    type StructuredResearch,
+    type ResearchClaim,
+    type RiskRating,
+    diffResearch,
+    type ResearchDiff,
+} from './clients/research-output.js';
+export { OpenAIProvider } from './clients/llm-providers/openai.provider.js';
+export { AnthropicProvider } from './clients/llm-providers/anthropic.provider.js';
+export { FakeLLMProvider, type FakeLLMFixtures } from './clients/llm-providers/fake.provider.js';
+export type { LLMProvider, LLMProviderName } from './clients/llm-providers/types.js';
 
 // Helpers
 export { logger } from './helpers/logger.js';
 export { requireAuth, requestContext } from './helpers/auth-middleware.js';
 export { getSecret, clearSecretCache } from './helpers/secrets.js';
+export {
+    getResearchAgents,
+    getResearchAgent,
+    ensureDefaultAgents,
+} from './helpers/research-agents.js';
+export { recordLLMUsage } from './helpers/llm-usage.js';
+export {
+    getLLMBudget,
+    checkLLMBudget,
+    type LLMBudgetConfig,
+    type LLMBudgetCheck,
+} from './helpers/llm-budget.js';
+export {
+    runResearchCached,
+    getResearchCacheTtlHours,
+    researchCacheKey,
+    DEFAULT_RESEARCH_CACHE_TTL_HOURS,
+    type ResearchCacheMode,
+    type ResearchOutcome,
+} from './helpers/research-cache.js';
+export { normalizeCompanyName, normalizePersonName } from './helpers/normalize.js';
+export {
+    extractDealTag,
+    getExternalAttendeeDomains,
+    matchDealForMeeting,
+    type DealMatch,
+} from './helpers/deal-matching.js';
+export {
+    DEFAULT_DEDUP_FLAG_THRESHOLD,
+    DEFAULT_DEDUP_MERGE_THRESHOLD,
+    DealMergeError,
+    getDedupConfig,
+    scoreDealPair,
+    findDuplicateCandidates,
+    mergeDeals,
+    checkForDuplicates,
+    type DedupConfig,
+    type DuplicateCandidate,
+    type DuplicateReason,
+} from './helpers/deal-dedup.js';
+export {
+    ensureDefaultPipeline,
+    getAsanaPipelines,
+    selectPipelineForDeal,
+    resolveEventProject,
+    findWebhookSecret,
+} from './helpers/asana-pipelines.js';
+export {
+    ensureDefaultCalendar,
+    getGCalClientForCalendar,
+} from './helpers/gcal-calendars.js';
+export {
+    STAGE_BEHAVIOURS,
+    DEFAULT_PIPELINE_STAGES,
+    ensureDefaultStages,
+    getPipelineStages,
+    getPipelineStage,
+    getEntryStage,
+    type StageBehaviour,
+} from './helpers/pipeline-stages.js';
+export {
+    PLAYBOOK_JOB_TYPES,
+    DEFAULT_STAGE_PLAYBOOKS,
+    PlaybookValidationError,
+    validatePlaybook,
+    parsePlaybook,
+    getStagePlaybook,
+    type StagePlaybook,
+    type PlaybookSubtask,
+    type PlaybookCallout,
+    type PlaybookJob,
+    type PlaybookJobType,
+    type PlaybookFormat,
+} from './helpers/stage-playbooks.js';
+export {
+    suggestStageForSection,
+    buildSectionMappingReport,
+    type SectionMappingEntry,
+    type SectionMappingReport,
+} from './helpers/pipeline-sections.js';
+export {
+    PermanentJobError,
+    RetryableJobError,
+    classifyJobError,
+    type JobErrorKind,
+} from './helpers/job-errors.js';